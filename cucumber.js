@@ -1,8 +1,13 @@
 let common = [
     'features/**/*.feature',
     '--require-module ts-node/register', //typescript cucumber
+    '--require ./features/support/**/*.ts',
     '--require ./features/step_definitions/**/*.ts',
     '--format progress-bar',
+    // Reports for CI; steps carry the transactions they executed as attachments (features/support/reporting.ts)
+    '--format json:reports/cucumber-report.json',
+    '--format junit:reports/cucumber-report.xml',
+    '--format html:reports/cucumber-report.html',
     `--format-options '{"snippetInterface": "synchronous"}'`
 ].join(' ');
 
@@ -0,0 +1,24 @@
+Feature: Transaction Audit Log
+  Every transaction a run submits is appended to the audit log of the run, with its signers and bytes
+
+  Scenario: The audit log holds every transaction of the scenario, failed ones included
+    Given A Hedera account with more than 10 hbar
+    When I create a fixed supply token named Test Token (HTT) with 1000 tokens
+    And An attempt to mint tokens fails
+    Then The audit log of this scenario lists the following transactions
+      | type                   | payer | status                  |
+      | TokenCreateTransaction | first | SUCCESS                 |
+      | TokenMintTransaction   | first | TOKEN_HAS_NO_SUPPLY_KEY |
+    And Every transaction in the audit log of this scenario is signed by the first account
+    And The audit log of this scenario holds the bytes of every transaction
+    And The failed transactions in the audit log of this scenario are TokenMintTransaction
+
+  Scenario: A transaction whose outcome never came back is still in the audit log
+    Given A first hedera account with more than 10 hbar
+    And A second Hedera account
+    And A token named Test Token (HTT) with 1000 tokens
+    And The first account holds 100 HTT tokens
+    When The first account creates a transaction to transfer 10 HTT tokens to the second account
+    And The network loses the request of the next 3 submissions
+    And The first account fails to submit the transaction after 3 attempts
+    Then The last transaction in the audit log of this scenario is a TransferTransaction with the status NO_RECORD
@@ -0,0 +1,14 @@
+Feature: Spending Guardrails
+  Test runs stop before they spend more hbar than allowed
+
+  Scenario: A scenario submits no more transactions once it reached its spend limit
+    Given A Hedera account with more than 10 hbar
+    When I create a token named Test Token (HTT)
+    And The scenario may spend at most 15 hbar
+    Then Creating a topic is refused because the scenario spent 20.00121 hbar of its 15 hbar limit
+
+  Scenario: A run does not start while a paying account is short of hbar
+    Given A first hedera account with more than 10 hbar
+    And A second Hedera account
+    Then The balance check of the first and second accounts with a minimum of 10 hbar passes
+    And The balance check of the first and second accounts with a minimum of 1000000 hbar fails
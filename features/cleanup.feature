@@ -0,0 +1,29 @@
+Feature: Scenario Cleanup
+  After every scenario, the tokens and topics it created are deleted where their admin keys allow, and its accounts are
+  dissociated from its tokens. What cannot be cleaned is reported.
+
+  Scenario: A deletable token and topic are deleted and the holders dissociated
+    Given A first hedera account with more than 10 hbar
+    And A second Hedera account
+    And A token named Test Token (HTT) with 1000 tokens
+    And The second account holds 10 HTT tokens
+    And A topic is created with the memo "Cleanup" with the first account as the admin and submit key
+    When The scenario cleans up after itself
+    Then The token is deleted
+    And The second account is no longer associated with the HTT token
+    And The topic info query fails with INVALID_TOPIC_ID
+    And The cleanup left nothing behind
+
+  Scenario: Balances of a token without an admin key go back to the treasury
+    Given A Hedera account with more than 10 hbar
+    And A second Hedera account
+    And I create a token with the following specification
+      | name           | Kept Token |
+      | symbol         | KPT        |
+      | decimals       | 2          |
+      | initial supply | 100        |
+    And The second account holds 10 KPT tokens
+    When The scenario cleans up after itself
+    Then The second account is no longer associated with the KPT token
+    And The first account holds 100 KPT tokens
+    And The cleanup kept the KPT token because "it has no admin key"
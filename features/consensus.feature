@@ -13,3 +13,71 @@ Feature: Use Cases for the consensus service and Threshold keys
     When A topic is created with the memo "Taxi rides" with the threshold key as the submit key
     And The message "Ride from A to B" is published to the topic
     Then The message "Ride from A to B" is received by the topic and can be printed to the console
+
+  Scenario: Publish and receive a multi-kilobyte message in chunks
+    Given a first account with more than 10 hbars
+    When A topic is created with the memo "Taxi rides" with the first account as the submit key
+    And A message of 5000 bytes is published to the topic
+    Then The message of 5000 bytes is received by the topic in 5 chunks
+
+  Scenario: Publish and receive a multi-kilobyte message in chunks with a threshold key
+    Given a first account with more than 10 hbars
+    And A second account with more than 10 hbars
+    And A 1 of 2 threshold key with the first and second account
+    When A topic is created with the memo "Taxi rides" with the threshold key as the submit key
+    And A message of 5000 bytes is published to the topic
+    Then The message of 5000 bytes is received by the topic in 5 chunks
+
+  Scenario: Publish a message to a topic with a nested threshold submit key
+    Given a first account with more than 10 hbars
+    And A threshold key "2 of [first, 2 of [second, third, fourth]]"
+    Then The threshold key is satisfied by the keys of the first, second and fourth accounts
+    And The threshold key is not satisfied by the keys of the second, third and fourth accounts
+    When A topic is created with the memo "Governance" with the threshold key as the submit key
+    And The message "Proposal 1 approved" is published to the topic
+    Then The message "Proposal 1 approved" is received by the topic and can be printed to the console
+
+  Scenario: Build a threshold key from a table and round trip it through JSON
+    Given a first account with more than 10 hbars
+    And A threshold key built from the table
+      | name    | threshold | members               |
+      | council | 2         | second, third, fourth |
+      | root    | 1         | first, council        |
+    When The threshold key is exported to JSON and imported again
+    Then The threshold key is satisfied by the keys of the third and fourth accounts
+    And The threshold key is not satisfied by the keys of the second account
+    When A topic is created with the memo "Governance" with the threshold key as the submit key
+    And The message "Proposal 2 approved" is published to the topic
+    Then The message "Proposal 2 approved" is received by the topic and can be printed to the console
+
+  Scenario: Rotate the submit key of a topic to a threshold key
+    Given a first account with more than 10 hbars
+    And A second account with more than 10 hbars
+    When A topic is created with the memo "Taxi rides" with the first account as the admin and submit key
+    And The message "Ride 1 from A to B" is published to the topic
+    And The topic is updated with the following changes
+      | memo       | Shared taxi rides    |
+      | submit key | 2 of [second, third] |
+    Then The topic has the memo "Shared taxi rides"
+    And The submit key of the topic is "2 of [second, third]"
+    And Publishing the message "Ride 2 from A to B" with the key of the first account fails with INVALID_SIGNATURE
+    When The message "Ride 3 from A to B" is published to the topic
+    Then The message "Ride 3 from A to B" is received by the topic and can be printed to the console
+    And The topic has 2 messages
+
+  Scenario: Set the auto-renew account and period of a topic
+    Given a first account with more than 10 hbars
+    And A second account with more than 10 hbars
+    When A topic is created with the memo "Taxi rides" with the first account as the admin and submit key
+    And The topic is updated with the following changes
+      | auto-renew account | second  |
+      | auto-renew period  | 60 days |
+    Then The topic is renewed every 60 days by the second account
+
+  Scenario: A deleted topic rejects messages
+    Given a first account with more than 10 hbars
+    When A topic is created with the memo "Taxi rides" with the first account as the admin and submit key
+    And The message "Ride 1 from A to B" is published to the topic
+    And The topic is deleted
+    Then Publishing the message "Ride 2 from A to B" fails with INVALID_TOPIC_ID
+    And The topic info query fails with INVALID_TOPIC_ID
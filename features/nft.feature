@@ -0,0 +1,55 @@
+Feature: NFT Collections
+  Non-fungible tokens on the Hedera Token Service: collections of serials, each with its own metadata and owner
+
+  Scenario: Create a mintable NFT collection
+    Given A Hedera account with more than 10 hbar
+    When I create an NFT collection named Test Collection (HTC)
+    Then The token has the name "Test Collection"
+    And The token has the symbol "HTC"
+    And The collection has an infinite supply
+    And The token is owned by the account
+    And An attempt to mint 3 NFTs succeeds
+    And The total supply of the token is 3
+
+  Scenario: Create an NFT collection with a maximum supply
+    Given A Hedera account with more than 10 hbar
+    When I create an NFT collection named Test Collection (HTC) with a maximum supply of 5
+    Then The collection has a maximum supply of 5
+    And An attempt to mint 5 NFTs succeeds
+    And An attempt to mint 1 NFT fails with TOKEN_MAX_SUPPLY_REACHED
+    And The total supply of the token is 5
+
+  Scenario: Mint more NFTs than fit in one transaction
+    Given A Hedera account with more than 10 hbar
+    When I create an NFT collection named Test Collection (HTC)
+    And 12 NFTs are minted with the metadata "ipfs://tickets/{n}.json"
+    Then The total supply of the token is 12
+    And NFT serial 12 has the metadata "ipfs://tickets/12.json"
+    And NFT serial 1 is owned by the first account
+
+  Scenario: Transfer an NFT between 2 accounts
+    Given A first hedera account with more than 10 hbar
+    And A second Hedera account
+    And An NFT collection named Test Collection (HTC) with 3 NFTs
+    And The first account owns NFT serial 2
+    And The second account holds 0 HTC NFTs
+    When The first account creates a transaction to transfer NFT serial 2 to the second account
+    And The first account submits the transaction
+    Then NFT serial 2 is owned by the second account
+    And The second account holds 1 HTC NFTs
+    And The first account holds 0 HTC NFTs
+
+  Scenario: Sell an NFT with a royalty fee
+    Given A first hedera account with more than 10 hbar
+    And A second Hedera account
+    And A third Hedera account with 0 hbar
+    And An NFT collection named Test Collection (HTC) with 3 NFTs and the following custom fees
+      | fee     | collector | amount | fallback |
+      | royalty | third     | 1/10   | 1 HBAR   |
+    And The first account owns NFT serial 1
+    And The second account holds 0 HTC NFTs
+    When The first account creates a transaction to sell NFT serial 1 to the second account for 50 hbar
+    And The first account submits the transaction
+    Then NFT serial 1 is owned by the second account
+    And The third account collected 5 HBAR in custom fees from the first account
+    And The second account paid no custom fees
@@ -0,0 +1,46 @@
+import { DataTable, Then } from "@cucumber/cucumber";
+import { Transaction } from "@hashgraph/sdk";
+import { AuditEntry, filterAuditEntries } from "../../src/audit-log";
+import { HederaWorld } from "../support/world";
+import assert from "node:assert";
+
+// The audit log of the run (src/audit-log.ts). Entries are appended after every step, so a step sees those of the
+// steps before it.
+
+// Helper: The entries of the scenario that is running
+function scenarioEntries(world: HederaWorld): AuditEntry[] {
+    return world.auditLog().read().filter(entry => entry.scenario === world.scenario);
+}
+
+Then(/^The audit log of this scenario lists the following transactions$/, function (this: HederaWorld, table: DataTable) {
+    const expected = table.hashes().map(({ type, payer, status }) => ({ type, payer: this.account(payer).id.toString(), status }));
+    const logged = scenarioEntries(this).map(({ type, payer, status }) => ({ type, payer, status }));
+    assert.deepStrictEqual(logged, expected);
+});
+
+Then(/^Every transaction in the audit log of this scenario is signed by the (\w+) account$/, function (this: HederaWorld, slot: string) {
+    const publicKey = this.account(slot).key.publicKey.toStringDer();
+    for (const entry of scenarioEntries(this)) {
+        assert.ok(entry.signers.includes(publicKey), `${entry.transactionId} is signed by ${entry.signers.join(", ")} only`);
+    }
+});
+
+Then(/^The audit log of this scenario holds the bytes of every transaction$/, function (this: HederaWorld) {
+    for (const entry of scenarioEntries(this)) {
+        const transaction = Transaction.fromBytes(Buffer.from(entry.bytes, "base64"));
+        assert.strictEqual(transaction.transactionId?.toString(), entry.transactionId);
+        assert.strictEqual(transaction.constructor.name, entry.type);
+    }
+});
+
+Then(/^The failed transactions in the audit log of this scenario are (.+)$/, function (this: HederaWorld, types: string) {
+    const failed = filterAuditEntries(scenarioEntries(this), { failed: true });
+    assert.deepStrictEqual(failed.map(entry => entry.type), types.split(/,\s*|\s+and\s+/));
+});
+
+Then(/^The last transaction in the audit log of this scenario is a (\w+) with the status (\w+)$/, function (this: HederaWorld, type: string, status: string) {
+    const entries = scenarioEntries(this);
+    assert.ok(entries.length > 0, "The audit log has no entries for this scenario");
+    const { type: loggedType, status: loggedStatus } = entries[entries.length - 1];
+    assert.deepStrictEqual({ type: loggedType, status: loggedStatus }, { type, status });
+});
@@ -0,0 +1,38 @@
+import { Given, Then } from "@cucumber/cucumber";
+import { Hbar } from "@hashgraph/sdk";
+import { checkOperatorBalances, OperatorBalanceError, SpendLimitError } from "../../src/budget";
+import { createTopic } from "../../src/topic-admin";
+import { HederaWorld } from "../support/world";
+import assert from "node:assert";
+
+// The spending guardrails. The simulator bypasses the configured budget, so scenarios set their own spend limit.
+
+Given(/^The scenario may spend at most (\S+) hbar$/, function (this: HederaWorld, limit: string) {
+    this.scenarioSpendLimit = Hbar.fromString(limit);
+});
+
+Then(/^Creating a topic is refused because the scenario spent (\S+) hbar of its (\S+) hbar limit$/, async function (this: HederaWorld, spent: string, limit: string) {
+    await assert.rejects(createTopic(this.client, { memo: "over budget" }), (error: unknown) => {
+        assert.ok(error instanceof SpendLimitError, `Expected a SpendLimitError, but got ${error}`);
+        assert.strictEqual(error.scope, "scenario");
+        assert.ok(error.spent.toTinybars().equals(Hbar.fromString(spent).toTinybars()), `The scenario spent ${error.spent}, not ${spent} hbar`);
+        assert.ok(error.limit.toTinybars().equals(Hbar.fromString(limit).toTinybars()), `The limit is ${error.limit}, not ${limit} hbar`);
+        console.log(error.message);
+        return true;
+    });
+});
+
+Then(/^The balance check of the (.+) accounts? with a minimum of (\S+) hbar (passes|fails)$/, async function (this: HederaWorld, slots: string, floor: string, outcome: string) {
+    const accounts = slots.split(/,\s*|\s+and\s+/).map(slot => this.account(slot.trim()).id);
+    const check = checkOperatorBalances(this.client, accounts, Hbar.fromString(floor));
+    if (outcome === "passes") {
+        await check;
+        return;
+    }
+    await assert.rejects(check, (error: unknown) => {
+        assert.ok(error instanceof OperatorBalanceError, `Expected an OperatorBalanceError, but got ${error}`);
+        assert.deepStrictEqual(error.below.map(({ account }) => account.toString()), accounts.map(account => account.toString()));
+        console.log(error.message);
+        return true;
+    });
+});
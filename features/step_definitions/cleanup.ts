@@ -0,0 +1,36 @@
+import { Then, When } from "@cucumber/cucumber";
+import { CleanupReport } from "../../src/cleanup";
+import { tokenStanding } from "../../src/token-admin";
+import { HederaWorld, ScenarioAccount, ScenarioToken } from "../support/world";
+import assert from "node:assert";
+
+// The teardown after every scenario (src/cleanup.ts), run ahead of time so that its outcome can be checked. The
+// cleanup after the scenario then finds nothing left to do.
+
+// Helper: The report of the cleanup an earlier step ran
+function cleanupReport(world: HederaWorld): CleanupReport {
+    assert.ok(world.cleanupReport, "The scenario has not cleaned up after itself yet");
+    return world.cleanupReport;
+}
+
+When(/^The scenario cleans up after itself$/, async function (this: HederaWorld) {
+    this.cleanupReport = await this.cleanUp();
+    // Balance steps from here on check what the cleanup left
+    this.transactionSubmitted = true;
+    console.log(`Cleaned up: ${this.cleanupReport.cleaned.join("; ") || "nothing"}`);
+});
+
+Then("The {account} account is no longer associated with the {token} token", async function (this: HederaWorld, account: ScenarioAccount, token: ScenarioToken) {
+    const standing = await tokenStanding(this.client, account.id, token.id);
+    assert.strictEqual(standing, null, `Account ${account.id} is still associated with ${token.symbol}`);
+});
+
+Then(/^The cleanup left nothing behind$/, function (this: HederaWorld) {
+    assert.deepStrictEqual(cleanupReport(this).leftovers, []);
+});
+
+Then("The cleanup kept the {token} token because {string}", function (this: HederaWorld, token: ScenarioToken, reason: string) {
+    const kept = `token ${token.id} (${token.symbol}) is kept: ${reason}`;
+    const { leftovers } = cleanupReport(this);
+    assert.ok(leftovers.includes(kept), `Expected "${kept}" among the leftovers: ${leftovers.join("; ")}`);
+});
@@ -1,92 +1,260 @@
-import { Given, Then, When } from "@cucumber/cucumber";
+import { DataTable, Given, Then, When } from "@cucumber/cucumber";
 import {
   AccountBalanceQuery,
-  AccountId,
-  Client,
-  KeyList,
+  Key,
   PrivateKey,
-  TopicCreateTransaction,
-  TopicMessageQuery,
-  TopicMessageSubmitTransaction
+  TopicCreateTransaction
 } from "@hashgraph/sdk";
-import { accounts } from "../../src/config";
+import { HederaWorld, ScenarioAccount, ScenarioTopic } from "../support/world";
+import { waitForTopicMessage } from "../../src/topic-messages";
+import { chunkCount, publishTopicMessage, TopicPublishError } from "../../src/topic-publisher";
+import { createTopic, daysToSeconds, deleteTopic, getTopicInfo, TopicChanges, updateTopic, waitForTopicInfo } from "../../src/topic-admin";
+import { buildKey, formatKeySpec, isKeySatisfiedBy, KeySpec, keySpecFromTable, parseKey, parseKeyNotation, selectSigners, serializeKey } from "../../src/key-structure";
 import assert from "node:assert";
 
-// Pre-configured client for test network (testnet)
-const client = Client.forTestnet();
-
 // Set the operator with the account ID and private key
-Given(/^a first account with more than (\d+) hbars$/, async function (expectedBalance: number) {
-  const acc = accounts[0];
-  const account: AccountId = AccountId.fromString(acc.id);
-  this.account = account;
-  const privKey: PrivateKey = PrivateKey.fromStringED25519(acc.privateKey);
-  this.privKey = privKey;
-  client.setOperator(this.account, privKey);
+Given(/^a first account with more than (\d+) hbars$/, async function (this: HederaWorld, expectedBalance: number) {
+  const account = this.loadAccount("first");
+  this.useOperator("first");
 
   // Create the query request
-  const query = new AccountBalanceQuery().setAccountId(account);
-  const balance = await query.execute(client);
+  const query = new AccountBalanceQuery().setAccountId(account.id);
+  const balance = await query.execute(this.client);
   assert.ok(balance.hbars.toBigNumber().toNumber() > expectedBalance);
 });
 
-When(/^A topic is created with the memo "([^"]*)" with the first account as the submit key$/, async function (memo: string) {
-  const transaction = await new TopicCreateTransaction()
+When(/^A topic is created with the memo "([^"]*)" with the first account as the submit key$/, async function (this: HederaWorld, memo: string) {
+  const submitKey = this.account("first").key.publicKey;
+  const transaction = await this.submit(new TopicCreateTransaction()
     .setTopicMemo(memo)
-    .setSubmitKey(this.privKey)
-    .execute(client);
-  const receipt = await transaction.getReceipt(client);
-  this.topicId = receipt.topicId;
-  assert.ok(this.topicId, "Topic ID should not be null");
-});
-
-When(/^The message "([^"]*)" is published to the topic$/, async function (message: string) {
-  const transaction = await new TopicMessageSubmitTransaction()
-    .setTopicId(this.topicId)
-    .setMessage(message)
-    .execute(client);
-  const receipt = await transaction.getReceipt(client);
-  assert.ok(receipt.status.toString() === "SUCCESS", "Message submission failed");
-});
-
-Then(/^The message "([^"]*)" is received by the topic and can be printed to the console$/, async function (message: string) {
-  const query = new TopicMessageQuery()
-    .setTopicId(this.topicId)
-    .setStartTime(0);
-  
-  query.subscribe(client, null, (msg) => {
-    const receivedMessage = Buffer.from(msg.contents).toString();
-    console.log(`Received message: ${receivedMessage}`);
-    assert.strictEqual(receivedMessage, message, "Received message does not match expected message");
+    .setSubmitKey(submitKey));
+  const receipt = await transaction.getReceipt(this.client);
+  assert.ok(receipt.topicId, "Topic ID should not be null");
+  this.addTopic({ id: receipt.topicId, memo, submitKey, published: [] });
+});
+
+When(/^A topic is created with the memo "([^"]*)" with the first account as the admin and submit key$/, async function (this: HederaWorld, memo: string) {
+  const first = this.account("first");
+  const key = first.key.publicKey;
+  const id = await createTopic(this.client, { memo, adminKey: key, submitKey: key }, [first.key]);
+  this.addTopic({ id, memo, adminKey: key, submitKey: key, published: [] });
+});
+
+When(/^The topic is updated with the following changes$/, async function (this: HederaWorld, table: DataTable) {
+  const topic = this.topic();
+  const changes = topicChangesFromTable(this, table);
+  // The current admin key approves, and so do a new admin key and a new auto-renew account
+  const signers = [...keySigners(this, topic.adminKey, "admin key"), ...keySigners(this, changes.adminKey, "new admin key")];
+  const autoRenewAccount = [...this.accounts.values()].find((account) => changes.autoRenewAccount?.equals(account.id));
+  if (autoRenewAccount !== undefined) signers.push(autoRenewAccount.key);
+
+  const receipt = await updateTopic(this.client, topic.id, changes, signers);
+  console.log(`Updated topic ${topic.id}: ${receipt.status.toString()}`);
+  if (changes.memo !== undefined) topic.memo = changes.memo;
+  if (changes.adminKey !== undefined) topic.adminKey = changes.adminKey;
+  if (changes.submitKey !== undefined) topic.submitKey = changes.submitKey ?? undefined;
+});
+
+When(/^The topic is deleted$/, async function (this: HederaWorld) {
+  const topic = this.topic();
+  const receipt = await deleteTopic(this.client, topic.id, keySigners(this, topic.adminKey, "admin key"));
+  console.log(`Deleted topic ${topic.id}: ${receipt.status.toString()}`);
+});
+
+Then(/^The topic has the memo "([^"]*)"$/, async function (this: HederaWorld, memo: string) {
+  const info = await waitForTopicInfo(this.client, this.topic().id, (info) => info.topicMemo === memo);
+  console.log(`Verified topic ${info.topicId} has the memo "${info.topicMemo}"`);
+});
+
+Then(/^The submit key of the topic is "([^"]*)"$/, async function (this: HederaWorld, notation: string) {
+  const expected = serializeKey(buildKey(parseKeyNotation(notation), (slot) => this.publicKey(slot)));
+  const info = await waitForTopicInfo(this.client, this.topic().id, (info) => info.submitKey != null && serializeKey(info.submitKey) === expected);
+  console.log(`Verified the submit key of topic ${info.topicId} is ${notation}`);
+});
+
+Then("The topic is renewed every {int} days by the {account} account", async function (this: HederaWorld, days: number, account: ScenarioAccount) {
+  const info = await waitForTopicInfo(this.client, this.topic().id, (info) =>
+    info.autoRenewPeriod?.seconds.toNumber() === daysToSeconds(days) && info.autoRenewAccountId?.equals(account.id) === true);
+  console.log(`Verified topic ${info.topicId} is renewed every ${days} days by ${info.autoRenewAccountId}`);
+});
+
+Then(/^The topic has (\d+) messages?$/, async function (this: HederaWorld, count: number) {
+  const info = await waitForTopicInfo(this.client, this.topic().id, (info) => info.sequenceNumber.toNumber() === count);
+  console.log(`Verified topic ${info.topicId} has ${info.sequenceNumber} messages`);
+});
+
+// Helper: Publish the message signed by the signers, and check that the network rejects it with the status
+async function assertPublishingFails(world: HederaWorld, message: string, signers: PrivateKey[], status: string) {
+  await assert.rejects(publishTopicMessage(world.client, world.topic().id, message, { signers }), (error: unknown) => {
+    assert.ok(error instanceof TopicPublishError, `Expected a TopicPublishError, but got ${error}`);
+    const statuses = error.chunks.map((chunk) => chunk.status.toString());
+    assert.ok(statuses.includes(status) || error.message.includes(status), `Expected ${status}, but got ${error.message}`);
+    return true;
   });
+}
+
+Then(/^Publishing the message "([^"]*)" fails with (\w+)$/, async function (this: HederaWorld, message: string, status: string) {
+  await assertPublishingFails(this, message, submitKeySigners(this, this.topic()), status);
 });
 
-Given(/^A second account with more than (\d+) hbars$/, async function (expectedBalance: number) {
-  const acc = accounts[1];
-  const account: AccountId = AccountId.fromString(acc.id);
-  this.secondAccount = account;
-  const privKey: PrivateKey = PrivateKey.fromStringED25519(acc.privateKey);
-  this.secondPrivKey = privKey;
+Then("Publishing the message {string} with the key of the {account} account fails with {word}",
+  async function (this: HederaWorld, message: string, account: ScenarioAccount, status: string) {
+    await assertPublishingFails(this, message, [account.key], status);
+  });
 
-  const query = new AccountBalanceQuery().setAccountId(account);
-  const balance = await query.execute(client);
-  assert.ok(balance.hbars.toBigNumber().toNumber() > expectedBalance);
+Then(/^The topic info query fails with (\w+)$/, async function (this: HederaWorld, status: string) {
+  await assert.rejects(getTopicInfo(this.client, this.topic().id), (error: unknown) => {
+    assert.strictEqual((error as { status?: unknown }).status?.toString(), status, `Expected ${status}, but got ${error}`);
+    return true;
+  });
+});
+
+When(/^The message "([^"]*)" is published to the topic$/, async function (this: HederaWorld, message: string) {
+  const topic = this.topic();
+  topic.published.push(await publishTopicMessage(this.client, topic.id, message, { signers: submitKeySigners(this, topic) }));
+});
+
+When(/^A message of (\d+) bytes is published to the topic$/, async function (this: HederaWorld, bytes: number) {
+  const topic = this.topic();
+  const published = await publishTopicMessage(this.client, topic.id, payloadOfSize(bytes), { signers: submitKeySigners(this, topic) });
+  assert.strictEqual(published.chunks.length, chunkCount(bytes), "Unexpected number of chunk receipts");
+  console.log(`Published ${bytes} bytes in ${published.chunks.length} chunks, first chunk ${published.initialTransactionId}`);
+  topic.published.push(published);
+});
+
+Then(/^The message "([^"]*)" is received by the topic and can be printed to the console$/, async function (this: HederaWorld, message: string) {
+  const received = await receivePublished(this, this.topic(), message);
+  console.log(`Received message #${received.sequenceNumber} at ${received.consensusTimestamp}: ${received.text}`);
 });
 
-Given(/^A (\d+) of (\d+) threshold key with the first and second account$/, async function (threshold: number, total: number) {
-  const thresholdKey = new KeyList(
-    [this.privKey.publicKey, this.secondPrivKey.publicKey],
-    threshold
+Then(/^The message of (\d+) bytes is received by the topic in (\d+) chunks$/, async function (this: HederaWorld, bytes: number, chunks: number) {
+  const received = await receivePublished(this, this.topic(), payloadOfSize(bytes));
+  assert.strictEqual(received.contents.length, bytes);
+  assert.strictEqual(received.chunks, chunks, "The message was not received in the expected number of chunks");
+  console.log(`Received ${bytes} bytes in ${received.chunks} chunks as message #${received.sequenceNumber}`);
+});
+
+// The keys of the scenario's accounts that together satisfy the topic's submit key
+function submitKeySigners(world: HederaWorld, topic: ScenarioTopic) {
+  return keySigners(world, topic.submitKey, `submit key of topic ${topic.id}`);
+}
+
+// The keys of the scenario's accounts that together satisfy a key (described by `role`), none when there is no key
+function keySigners(world: HederaWorld, key: Key | undefined, role: string): PrivateKey[] {
+  if (key === undefined) {
+    return [];
+  }
+  const signers = selectSigners(key, world.availableKeys());
+  assert.ok(signers, `The accounts of this scenario cannot satisfy the ${role}`);
+  return signers;
+}
+
+// Changes from a table of settings and values: memo, admin key and submit key (in the key notation, or "none" to let
+// anyone publish), auto-renew account (account slot) and auto-renew period ("60 days")
+function topicChangesFromTable(world: HederaWorld, table: DataTable): TopicChanges {
+  const key = (notation: string) => buildKey(parseKeyNotation(notation), (slot) => world.publicKey(slot));
+  const changes: TopicChanges = {};
+  for (const [setting, value] of Object.entries(table.rowsHash())) {
+    switch (setting) {
+      case "memo":
+        changes.memo = value;
+        break;
+      case "admin key":
+        changes.adminKey = key(value);
+        break;
+      case "submit key":
+        changes.submitKey = value === "none" ? null : key(value);
+        break;
+      case "auto-renew account":
+        changes.autoRenewAccount = world.ensureAccount(value).id;
+        break;
+      case "auto-renew period": {
+        const match = /^(\d+) days?$/.exec(value);
+        assert.ok(match, `An auto-renew period looks like "60 days", got "${value}"`);
+        changes.autoRenewPeriodSeconds = daysToSeconds(Number(match[1]));
+        break;
+      }
+      default:
+        assert.fail(`Unknown topic setting "${setting}"`);
+    }
+  }
+  return changes;
+}
+
+// Readable text of exactly `bytes` bytes, so that a reassembly mistake shows up in the failure message
+function payloadOfSize(bytes: number): string {
+  let payload = "";
+  for (let ride = 1; payload.length < bytes; ride++) {
+    payload += `Ride ${ride} from A to B. `;
+  }
+  return payload.slice(0, bytes);
+}
+
+// Waits for a message published in this scenario and checks it against the receipt of its (last) chunk
+async function receivePublished(world: HederaWorld, topic: ScenarioTopic, text: string) {
+  const published = topic.published.find((entry) => entry.text === text);
+  assert.ok(published, `The message "${text.slice(0, 40)}" has not been published to the topic in this scenario`);
+
+  const received = await waitForTopicMessage(world.client, topic.id, { contents: text, sequenceNumber: published.sequenceNumber });
+  assert.strictEqual(
+    Buffer.from(received.runningHash).toString("hex"),
+    Buffer.from(published.runningHash).toString("hex"),
+    "The running hash seen by the mirror node does not match the one in the receipt"
   );
-  this.thresholdKey = thresholdKey;
+  if (published.chunks.length > 1) {
+    assert.strictEqual(received.initialTransactionId, published.initialTransactionId.toString(), "The chunks were reassembled under another transaction ID");
+  }
+  return received;
+}
+
+Given(/^A second account with more than (\d+) hbars$/, async function (this: HederaWorld, expectedBalance: number) {
+  const account = this.loadAccount("second");
+
+  const query = new AccountBalanceQuery().setAccountId(account.id);
+  const balance = await query.execute(this.client);
+  assert.ok(balance.hbars.toBigNumber().toNumber() > expectedBalance);
 });
 
-When(/^A topic is created with the memo "([^"]*)" with the threshold key as the submit key$/, async function (memo: string) {
-  const transaction = await new TopicCreateTransaction()
+// One member per account, e.g. "A 2 of 3 threshold key with the first, second and third accounts"
+Given(/^A (\d+) of (\d+) threshold key with the (.+) accounts?$/, function (this: HederaWorld, threshold: number, total: number, slots: string) {
+  const members = slots.split(/,\s*|\s+and\s+/).map((slot) => slot.trim());
+  assert.strictEqual(members.length, total, `A ${threshold} of ${total} threshold key needs ${total} accounts, but the step names ${members.length}: ${members.join(", ")}`);
+  useThresholdKey(this, parseKeyNotation(`${threshold} of [${members.join(", ")}]`));
+});
+
+When(/^A topic is created with the memo "([^"]*)" with the threshold key as the submit key$/, async function (this: HederaWorld, memo: string) {
+  assert.ok(this.thresholdKey, "No threshold key has been created in this scenario");
+  const transaction = await this.submit(new TopicCreateTransaction()
     .setTopicMemo(memo)
-    .setSubmitKey(this.thresholdKey)
-    .execute(client);
-  const receipt = await transaction.getReceipt(client);
-  this.topicId = receipt.topicId;
-  assert.ok(this.topicId, "Topic ID should not be null");
-});
\ No newline at end of file
+    .setSubmitKey(this.thresholdKey));
+  const receipt = await transaction.getReceipt(this.client);
+  assert.ok(receipt.topicId, "Topic ID should not be null");
+  this.addTopic({ id: receipt.topicId, memo, submitKey: this.thresholdKey, published: [] });
+});
+
+Given(/^A threshold key "([^"]*)"$/, function (this: HederaWorld, notation: string) {
+  useThresholdKey(this, parseKeyNotation(notation));
+});
+
+Given(/^A threshold key built from the table$/, function (this: HederaWorld, table: DataTable) {
+  useThresholdKey(this, keySpecFromTable(table.hashes()));
+});
+
+Then(/^The threshold key is (not )?satisfied by the keys of the (.+) accounts?$/, function (this: HederaWorld, not: string | undefined, slots: string) {
+  assert.ok(this.thresholdKey, "No threshold key has been created in this scenario");
+  const keys = slots.split(/,\s*|\s+and\s+/).map((slot) => this.ensureAccount(slot.trim()).key);
+  assert.strictEqual(isKeySatisfiedBy(this.thresholdKey, keys), !not, `Expected the keys of ${slots} ${not ? "not " : ""}to satisfy the threshold key`);
+});
+
+When(/^The threshold key is exported to JSON and imported again$/, function (this: HederaWorld) {
+  assert.ok(this.thresholdKey, "No threshold key has been created in this scenario");
+  const json = serializeKey(this.thresholdKey);
+  const imported = parseKey(json);
+  assert.strictEqual(serializeKey(imported), json, "The imported key differs from the exported one");
+  this.thresholdKey = imported;
+});
+
+function useThresholdKey(world: HederaWorld, spec: KeySpec) {
+  world.thresholdKey = buildKey(spec, (slot) => world.publicKey(slot));
+  console.log(`Threshold key: ${formatKeySpec(spec)}`);
+}
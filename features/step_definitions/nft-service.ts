@@ -0,0 +1,187 @@
+import { DataTable, Given, Then, When } from "@cucumber/cucumber";
+import {
+    AccountBalanceQuery,
+    Hbar,
+    NftId,
+    Status,
+    TokenAssociateTransaction,
+    TokenInfoQuery,
+    TokenSupplyType,
+    TokenType
+} from "@hashgraph/sdk";
+import { CustomFeeSpec, toCustomFee } from "../../src/custom-fees";
+import { createNftCollection, getNft, mintNfts, NftMintError, waitForNftOwner } from "../../src/nft-collections";
+import { describeSignatures, HBAR, planTransfer, TransferLeg } from "../../src/transfer-planner";
+import { waitForTokenAssociation, waitForTokenBalance, waitForTokenInfo } from "../../src/wait";
+import { HederaWorld, ScenarioAccount, ScenarioToken } from "../support/world";
+import { customFeesFromTable, feeCollectorKeys } from "../support/fee-table";
+import assert from "node:assert";
+
+// NFT collections are kept like fungible tokens on the HederaWorld (with 0 decimals), so that the token property steps
+// of token-service.ts apply to them too. The first account holds the supply and admin keys of every collection.
+
+// Helper: Associate the account with the collection unless it already is; the first account pays
+async function associateCollection(world: HederaWorld, account: ScenarioAccount, collection: ScenarioToken) {
+    const balance = await world.query(new AccountBalanceQuery().setAccountId(account.id));
+    if (balance.tokens?.get(collection.id.toString()) != null) {
+        return;
+    }
+    const associateTx = await new TokenAssociateTransaction()
+        .setAccountId(account.id)
+        .setTokenIds([collection.id])
+        .freezeWith(world.client)
+        .sign(account.key);
+    const receipt = await (await world.submit(associateTx)).getReceipt(world.client);
+    assert.strictEqual(receipt.status, Status.Success, `Association of ${account.id} with ${collection.id} failed: ${receipt.status.toString()}`);
+    await waitForTokenAssociation(world.client, account.id, collection.id); // Until the association is visible
+}
+
+// Helper: Create a collection named like "Test Collection (HTC)" and store it as the scenario's token
+async function createCollection(world: HederaWorld, name: string, symbol: string, treasury: ScenarioAccount, maxSupply?: number, customFees: CustomFeeSpec[] = []): Promise<ScenarioToken> {
+    const admin = world.useOperator("first");
+    const signers = [...(treasury.id.equals(admin.id) ? [] : [treasury.key]), ...feeCollectorKeys(world, customFees)];
+    const tokenId = await createNftCollection(world.client, {
+        name, symbol, treasury: treasury.id, supplyKey: admin.key.publicKey, adminKey: admin.key.publicKey, maxSupply,
+        customFees: customFees.map(toCustomFee)
+    }, signers);
+    console.log(`Created NFT collection ${name} (${symbol}) with ID ${tokenId.toString()}, max supply ${maxSupply ?? "infinite"}`);
+    await waitForTokenInfo(world.client, tokenId); // Until the collection is visible
+    return world.addToken({ id: tokenId, name, symbol, decimals: 0, treasury });
+}
+
+// Helper: Mint one serial per entry, "{n}" in the metadata is replaced by the entry's position (from 1)
+function mintCollection(world: HederaWorld, count: number, metadata = (n: number) => `${world.token().symbol} #${n}`): Promise<bigint[]> {
+    const entries = Array.from({ length: count }, (_, i) => metadata(i + 1));
+    return mintNfts(world.client, world.token().id, entries, world.useOperator("first").key);
+}
+
+// Helper: Move a serial from the collection's treasury to the account, which is associated first
+async function giveNft(world: HederaWorld, account: ScenarioAccount, serial: number) {
+    const collection = world.token();
+    const payer = world.useOperator("first");
+    await associateCollection(world, account, collection);
+    const { transaction, missingSignatures } = await planTransfer(world.client, [], {
+        nfts: [{ nft: new NftId(collection.id, serial), sender: collection.treasury.id, receiver: account.id }],
+        signers: [payer.key, collection.treasury.key]
+    });
+    assert.strictEqual(missingSignatures.length, 0, `The setup transfer still needs ${describeSignatures(missingSignatures)}`);
+    const receipt = await (await world.submit(transaction)).getReceipt(world.client);
+    assert.strictEqual(receipt.status, Status.Success, `Setup transfer of serial ${serial} failed: ${receipt.status.toString()}`);
+    await waitForNftOwner(world.client, new NftId(collection.id, serial), account.id);
+}
+
+// --- Collection Setup Steps ---
+
+When(/^I create an NFT collection named (.+) \((.+)\)(?: with a maximum supply of (\d+))?$/, async function (this: HederaWorld, name: string, symbol: string, maxSupply: string | null) {
+    // The first account is the treasury, like for "I create a token named ..."
+    await createCollection(this, name, symbol, this.account("first"), maxSupply == null ? undefined : Number(maxSupply));
+});
+
+// Helper: A collection whose serials sit with a dedicated treasury, so that any of the scenario accounts can be given some
+async function createTransferCollection(world: HederaWorld, name: string, symbol: string, count: number, customFees: CustomFeeSpec[] = []) {
+    world.ensureAccount("first");
+    await createCollection(world, name, symbol, world.loadTreasury(), undefined, customFees);
+    const serials = await mintCollection(world, count);
+    console.log(`Minted serials ${serials.join(", ")} to the treasury`);
+}
+
+Given(/^An NFT collection named (.+) \((.+)\) with (\d+) NFTs$/, async function (this: HederaWorld, name: string, symbol: string, count: number) {
+    await createTransferCollection(this, name, symbol, count);
+});
+
+Given(/^An NFT collection named (.+) \((.+)\) with (\d+) NFTs and the following custom fees$/, async function (this: HederaWorld, name: string, symbol: string, count: number, table: DataTable) {
+    await createTransferCollection(this, name, symbol, count, customFeesFromTable(this, table, { symbol, decimals: 0 }));
+});
+
+Given("The {account} account owns NFT serial {int}", async function (this: HederaWorld, account: ScenarioAccount, serial: number) {
+    await giveNft(this, account, serial);
+});
+
+// Sets up an association and the number of serials before the scenario's transaction is submitted, and verifies the
+// number of serials afterwards
+Given("The {account} account holds {int} {token} NFTs", async function (this: HederaWorld, account: ScenarioAccount, count: number, collection: ScenarioToken) {
+    this.useOperator("first");
+    if (this.transactionSubmitted) {
+        await waitForTokenBalance(this.client, account.id, collection.id, BigInt(count));
+        return;
+    }
+    await associateCollection(this, account, collection);
+    const held = (await this.query(new AccountBalanceQuery().setAccountId(account.id))).tokens?.get(collection.id.toString());
+    assert.strictEqual(held?.toNumber() ?? 0, count, `The ${account.name} account holds ${held ?? 0} ${collection.symbol} NFTs; give it serials with "owns NFT serial"`);
+});
+
+// --- Collection Property Steps ---
+
+Then(/^The collection has an infinite supply$/, async function (this: HederaWorld) {
+    const info = await this.query(new TokenInfoQuery().setTokenId(this.token().id));
+    assert.strictEqual(info.tokenType?.toString(), TokenType.NonFungibleUnique.toString(), `Expected an NFT collection, but got ${info.tokenType}`);
+    assert.strictEqual(info.supplyType?.toString(), TokenSupplyType.Infinite.toString(), `Expected an infinite supply, but got ${info.supplyType}`);
+});
+
+Then(/^The collection has a maximum supply of (\d+)$/, async function (this: HederaWorld, maxSupply: number) {
+    const info = await this.query(new TokenInfoQuery().setTokenId(this.token().id));
+    assert.strictEqual(info.tokenType?.toString(), TokenType.NonFungibleUnique.toString(), `Expected an NFT collection, but got ${info.tokenType}`);
+    assert.strictEqual(info.supplyType?.toString(), TokenSupplyType.Finite.toString(), `Expected a finite supply, but got ${info.supplyType}`);
+    assert.strictEqual(info.maxSupply?.toNumber(), maxSupply, `Expected a maximum supply of ${maxSupply}, but got ${info.maxSupply}`);
+});
+
+// --- Minting Steps ---
+
+Then(/^An attempt to mint (\d+) NFTs? succeeds$/, async function (this: HederaWorld, count: number) {
+    const before = (await this.query(new TokenInfoQuery().setTokenId(this.token().id))).totalSupply.toNumber();
+    const serials = await mintCollection(this, count);
+    // Serials are numbered consecutively from 1 in the order they were minted
+    assert.deepStrictEqual(serials.map(Number), Array.from({ length: count }, (_, i) => before + i + 1));
+    console.log(`Minted serials ${serials.join(", ")}`);
+});
+
+Then(/^An attempt to mint (\d+) NFTs? fails with (\w+)$/, async function (this: HederaWorld, count: number, status: string) {
+    await assert.rejects(mintCollection(this, count), (error: unknown) => {
+        assert.ok(error instanceof NftMintError, `Expected an NftMintError, but got ${error}`);
+        assert.strictEqual(error.status?.toString(), status, error.message);
+        return true;
+    });
+});
+
+When(/^(\d+) NFTs are minted with the metadata "([^"]*)"$/, async function (this: HederaWorld, count: number, metadata: string) {
+    const serials = await mintCollection(this, count, (n) => metadata.replace("{n}", String(n)));
+    console.log(`Minted serials ${serials[0]} to ${serials[serials.length - 1]}`);
+});
+
+Then(/^NFT serial (\d+) has the metadata "([^"]*)"$/, async function (this: HederaWorld, serial: number, metadata: string) {
+    const info = await getNft(this.client, new NftId(this.token().id, serial));
+    assert.strictEqual(Buffer.from(info.metadata ?? []).toString("utf8"), metadata);
+});
+
+Then("NFT serial {int} is owned by the {account} account", async function (this: HederaWorld, serial: number, owner: ScenarioAccount) {
+    await waitForNftOwner(this.client, new NftId(this.token().id, serial), owner.id);
+    console.log(`Verified serial ${serial} of ${this.token().symbol} is owned by ${owner.id.toString()}`);
+});
+
+// --- NFT Transfer Steps ---
+// Planned like the token transfers of token-service.ts, and submitted by "The first account submits the transaction"
+
+// Helper: Plan moving the serial, paid for by the first account, optionally against hbar (in tinybars) that the
+// receiver pays the sender
+async function planNftTransfer(world: HederaWorld, sender: ScenarioAccount, serial: number, receiver: ScenarioAccount, price = BigInt(0)) {
+    const payer = world.useOperator("first");
+    const nft = new NftId(world.token().id, serial);
+    const payment: TransferLeg[] = price > BigInt(0)
+        ? [{ account: receiver.id, asset: HBAR, amount: -price }, { account: sender.id, asset: HBAR, amount: price }]
+        : [];
+    world.pendingTransfer = await planTransfer(world.client, payment, {
+        payer: payer.id,
+        nfts: [{ nft, sender: sender.id, receiver: receiver.id }],
+        signers: world.availableKeys().filter(key => !key.publicKey.equals(payer.key.publicKey))
+    });
+    console.log(`Planned transfer of ${nft.toString()}; required signatures: ${describeSignatures(world.pendingTransfer.requiredSignatures)}`);
+}
+
+When("The {account} account creates a transaction to transfer NFT serial {int} to the {account} account", async function (this: HederaWorld, sender: ScenarioAccount, serial: number, receiver: ScenarioAccount) {
+    await planNftTransfer(this, sender, serial, receiver);
+});
+
+When("The {account} account creates a transaction to sell NFT serial {int} to the {account} account for {int} hbar",
+async function (this: HederaWorld, sender: ScenarioAccount, serial: number, receiver: ScenarioAccount, price: number) {
+    await planNftTransfer(this, sender, serial, receiver, BigInt(new Hbar(price).toTinybars().toString()));
+});
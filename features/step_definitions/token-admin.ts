@@ -0,0 +1,192 @@
+import { DataTable, Then, When } from "@cucumber/cucumber";
+import { AccountId, TokenInfo, TransactionReceipt } from "@hashgraph/sdk";
+import {
+    burnTokens,
+    deleteToken,
+    freezeAccount,
+    grantKyc,
+    pauseToken,
+    revokeKyc,
+    TokenChanges,
+    unfreezeAccount,
+    unpauseToken,
+    updateToken,
+    waitForTokenStanding,
+    wipeTokens
+} from "../../src/token-admin";
+import { TokenAmount } from "../../src/token-amount";
+import { describeSignatures, planTransfer } from "../../src/transfer-planner";
+import { waitForTokenInfo } from "../../src/wait";
+import { HederaWorld, ScenarioAccount, ScenarioToken } from "../support/world";
+import assert from "node:assert";
+
+// Administrative actions on the token created last. The acting account signs with its own key, which has to be the
+// token's key for the action (the first account holds them all for a token "managed by the first account"); the first
+// account pays. Actions count as the scenario's transaction, so "The ... account holds N HTT tokens" asserts afterwards.
+// The steps with alternatives are regular expressions; their ([a-z]+) and ([A-Z][A-Z0-9]*) groups are read as an
+// {account} and a {token} (see features/support/parameter-types.ts).
+
+type AdminAction = (world: HederaWorld, token: ScenarioToken, actor: ScenarioAccount) => Promise<TransactionReceipt>;
+
+// Helper: Tokens as written in the scenario, in the token's smallest unit
+function units(token: ScenarioToken, tokens: string): bigint {
+    return TokenAmount.parse(tokens, token).units;
+}
+
+// Helper: Run the action on the token (the one created last by default) as the acting account and mark the scenario's
+// transaction as submitted
+async function administer(world: HederaWorld, actor: ScenarioAccount, action: AdminAction, token = world.token()): Promise<TransactionReceipt> {
+    world.useOperator("first");
+    const receipt = await action(world, token, actor);
+    world.transactionSubmitted = true;
+    console.log(`The ${actor.name} account administered ${token.symbol}: ${receipt.status.toString()}`);
+    return receipt;
+}
+
+// Helper: Run the action and check that the network rejects it with the status
+async function assertRejected(world: HederaWorld, actor: ScenarioAccount, action: AdminAction, status: string, token = world.token()) {
+    await assert.rejects(administer(world, actor, action, token), (error: unknown) => {
+        assert.strictEqual((error as { status?: unknown }).status?.toString(), status, `Expected ${status}, but got ${error}`);
+        return true;
+    });
+}
+
+const pauseActions: Record<string, AdminAction> = {
+    pause: (world, token, actor) => pauseToken(world.client, token.id, actor.key),
+    unpause: (world, token, actor) => unpauseToken(world.client, token.id, actor.key),
+    delete: (world, token, actor) => deleteToken(world.client, token.id, actor.key)
+};
+
+function wipe(tokens: string, account: ScenarioAccount): AdminAction {
+    return (world, token, actor) => wipeTokens(world.client, token.id, account.id, units(token, tokens), actor.key);
+}
+
+// Helper: Changes from a table of settings and values: name, symbol, memo, treasury (account slot) and the keys
+// ("freeze key", "pause key", ...) as the account slot whose key takes over
+function tokenChangesFromTable(world: HederaWorld, table: DataTable): TokenChanges {
+    const changes: TokenChanges = {};
+    for (const [setting, value] of Object.entries(table.rowsHash())) {
+        switch (setting) {
+            case "name":
+            case "symbol":
+            case "memo":
+                changes[setting] = value;
+                break;
+            case "treasury":
+                changes.treasury = world.account(value).id;
+                break;
+            case "admin key":
+            case "kyc key":
+            case "freeze key":
+            case "wipe key":
+            case "supply key":
+            case "fee schedule key":
+            case "pause key": {
+                const role = setting.replace(/ (\w)/g, (_, letter: string) => letter.toUpperCase()) as keyof TokenChanges;
+                (changes as Record<string, unknown>)[role] = world.account(value).key.publicKey;
+                break;
+            }
+            default:
+                assert.fail(`Unknown token setting "${setting}"`);
+        }
+    }
+    return changes;
+}
+
+When(/^The ([a-z]+) account (freezes|unfreezes) the token for the ([a-z]+) account$/,
+async function (this: HederaWorld, actor: ScenarioAccount, action: string, account: ScenarioAccount) {
+    await administer(this, actor, (world, token) =>
+        (action === "freezes" ? freezeAccount : unfreezeAccount)(world.client, token.id, account.id, actor.key));
+});
+
+When(/^The ([a-z]+) account (grants|revokes) KYC for the token (?:to|from) the ([a-z]+) account$/,
+async function (this: HederaWorld, actor: ScenarioAccount, action: string, account: ScenarioAccount) {
+    await administer(this, actor, (world, token) =>
+        (action === "grants" ? grantKyc : revokeKyc)(world.client, token.id, account.id, actor.key));
+});
+
+When(/^The ([a-z]+) account (pause|unpause|delete)s the token$/, async function (this: HederaWorld, actor: ScenarioAccount, action: string) {
+    await administer(this, actor, pauseActions[action]);
+});
+
+Then(/^The ([a-z]+) account fails to (pause|unpause|delete) the token with (\w+)$/,
+async function (this: HederaWorld, actor: ScenarioAccount, action: string, status: string) {
+    await assertRejected(this, actor, pauseActions[action], status);
+});
+
+When("The {account} account wipes {amount} {token} tokens from the {account} account",
+async function (this: HederaWorld, actor: ScenarioAccount, tokens: string, token: ScenarioToken, account: ScenarioAccount) {
+    const receipt = await administer(this, actor, wipe(tokens, account), token);
+    console.log(`New total supply: ${receipt.totalSupply?.toString()} units`);
+});
+
+Then("The {account} account fails to wipe {amount} {token} tokens from the {account} account with {word}",
+async function (this: HederaWorld, actor: ScenarioAccount, tokens: string, token: ScenarioToken, account: ScenarioAccount, status: string) {
+    await assertRejected(this, actor, wipe(tokens, account), status, token);
+});
+
+When("The {account} account burns {amount} {token} tokens", async function (this: HederaWorld, actor: ScenarioAccount, tokens: string, token: ScenarioToken) {
+    const receipt = await administer(this, actor, (world, token) => burnTokens(world.client, token.id, units(token, tokens), actor.key), token);
+    console.log(`New total supply: ${receipt.totalSupply?.toString()} units`);
+});
+
+When("The {account} account updates the token with the following changes", async function (this: HederaWorld, actor: ScenarioAccount, table: DataTable) {
+    const changes = tokenChangesFromTable(this, table);
+    // A new treasury signs to take the token over
+    const newTreasury = [...this.accounts.values()].find(account => changes.treasury?.equals(account.id));
+    await administer(this, actor, (world, token) =>
+        updateToken(world.client, token.id, changes, [actor.key, ...(newTreasury ? [newTreasury.key] : [])]));
+
+    const token = this.token();
+    this.tokens.delete(token.symbol);
+    this.addToken({ ...token, name: changes.name ?? token.name, symbol: changes.symbol ?? token.symbol, treasury: newTreasury ?? token.treasury });
+});
+
+Then(/^The ([a-z]+) account is (frozen|unfrozen) for the token$/, async function (this: HederaWorld, account: ScenarioAccount, state: string) {
+    await waitForTokenStanding(this.client, account.id, this.token().id, standing => standing?.frozen === (state === "frozen"));
+    console.log(`Verified the ${account.name} account is ${state} for ${this.token().symbol}`);
+});
+
+Then(/^The ([a-z]+) account (has|has no) KYC for the token$/, async function (this: HederaWorld, account: ScenarioAccount, state: string) {
+    await waitForTokenStanding(this.client, account.id, this.token().id, standing => standing?.kycGranted === (state === "has"));
+    console.log(`Verified the ${account.name} account ${state} KYC for ${this.token().symbol}`);
+});
+
+Then(/^The token is (paused|unpaused|deleted)$/, async function (this: HederaWorld, state: string) {
+    const expected: Record<string, (info: TokenInfo) => boolean> = {
+        paused: info => info.pauseStatus === true,
+        unpaused: info => info.pauseStatus === false,
+        deleted: info => info.isDeleted
+    };
+    await waitForTokenInfo(this.client, this.token().id, expected[state]);
+    console.log(`Verified ${this.token().symbol} is ${state}`);
+});
+
+Then("The {account} account is the treasury of the token", async function (this: HederaWorld, account: ScenarioAccount) {
+    const treasury: AccountId = account.id;
+    await waitForTokenInfo(this.client, this.token().id, info => info.treasuryAccountId?.equals(treasury) === true);
+    console.log(`Verified the treasury of ${this.token().symbol} is ${treasury.toString()}`);
+});
+
+// A transfer straight from sender to receiver, signed by everyone who has to; the first account pays
+Then(/^A transfer of (-?\d+(?:\.\d+)?) ([A-Z][A-Z0-9]*) tokens from the ([a-z]+) account to the ([a-z]+) account (?:succeeds|fails with (\w+))$/,
+async function (this: HederaWorld, tokens: string, token: ScenarioToken, from: ScenarioAccount, to: ScenarioAccount, status: string | null) {
+    const payer = this.useOperator("first");
+    const amount = units(token, tokens);
+    const plan = await planTransfer(this.client, [
+        { account: from.id, asset: token.id, amount: -amount },
+        { account: to.id, asset: token.id, amount }
+    ], { payer: payer.id, signers: this.availableKeys() });
+    console.log(`Planned transfer ${plan.transaction.transactionId}; required signatures: ${describeSignatures(plan.requiredSignatures)}`);
+
+    const submission = this.submit(plan.transaction).then(response => response.getReceipt(this.client));
+    if (status === null) {
+        await submission;
+        this.transactionSubmitted = true;
+        return;
+    }
+    await assert.rejects(submission, (error: unknown) => {
+        assert.strictEqual((error as { status?: unknown }).status?.toString(), status, `Expected ${status}, but got ${error}`);
+        return true;
+    });
+});
@@ -1,87 +1,87 @@
-import { Given, Then, When, setDefaultTimeout } from "@cucumber/cucumber";
+import { DataTable, Given, Then, When, setDefaultTimeout } from "@cucumber/cucumber";
 import {
     AccountBalance,
     AccountBalanceQuery,
     AccountId,
     Client,
     Hbar,
+    PrecheckStatusError,
     PrivateKey,
     Status,
     TokenAssociateTransaction,
-    TokenCreateTransaction,
     TokenId,
     TokenInfoQuery,
     TokenMintTransaction,
-    TokenSupplyType,
-    TokenType,
     TransferTransaction,
-    Transaction,
-    TransactionResponse,
     ReceiptStatusError,
-    TokenInfo,
-    PublicKey // Added
+    TokenInfo
 } from "@hashgraph/sdk";
-import { accounts } from "../../src/config"; // Adjust path if needed
+import { waitForTokenAssociation, waitForTokenBalance, waitForTokenInfo } from "../../src/wait";
+import { assessedFeesOf, collectedBy, CustomFeeSpec, toCustomFee } from "../../src/custom-fees";
+import {
+    checkRequiredSigners,
+    exportTransaction,
+    OfflineSigningError,
+    readTransactionFile,
+    signTransactionBytes,
+    submitSignedTransaction,
+    writeTransactionFile
+} from "../../src/offline-signing";
+import {
+    approveSchedule,
+    deleteSchedule,
+    missingApprovals,
+    scheduledReceipt,
+    ScheduleState,
+    scheduleTransfer,
+    waitForScheduleState
+} from "../../src/scheduling";
+import { executeWithRetry, RetriesExhaustedError } from "../../src/retry";
+import { SimulatedClient, SubmissionFault } from "../../src/simulator";
+import { grantKyc, tokenStanding } from "../../src/token-admin";
+import { TokenAmount } from "../../src/token-amount";
+import { createToken, tokenSpec, tokenSpecMismatches, TokenSpecError } from "../../src/token-spec";
+import { netHbarChange, submitTransaction } from "../../src/transaction-records";
+import { assetName, describeSignatures, HBAR, planTransfer, signTransferPlan, TransferAsset, TransferLeg, TransferPlan, TransferPlanError } from "../../src/transfer-planner";
+import { HederaWorld, ScenarioAccount, ScenarioToken } from "../support/world";
+import { customFeesFromTable, feeCollectorKeys } from "../support/fee-table";
+import { tokenSpecFromTable } from "../support/token-table";
 import assert from "node:assert";
+import { join } from "node:path";
 
 // Set higher default timeout for steps (e.g., 60 seconds)
 setDefaultTimeout(60 * 1000); // INCREASED TIMEOUT
 
-// Use the same client instance, operator might change between scenarios/steps
-const client = Client.forTestnet();
-
-// Helper function for delay
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-// Helper: Ensure accounts are loaded and have keys
-function getAccount(index: number): { id: AccountId; key: PrivateKey } {
-    assert.ok(accounts.length > index, `Account index ${index} out of bounds. Need at least ${index + 1} accounts in config.`);
-    const accConfig = accounts[index];
-    assert.ok(accConfig?.id, `Account ${index} ID is missing in config.`);
-    assert.ok(accConfig?.privateKey, `Account ${index} private key is missing in config.`);
-    return {
-        id: AccountId.fromString(accConfig.id),
-        key: PrivateKey.fromStringED25519(accConfig.privateKey)
-    };
-}
 
-// Helper: Adjust amount by decimals (Using BigInt for safety)
-function adjustForDecimals(amount: number | bigint, decimals: number): bigint {
-     const base = BigInt(10 ** decimals); // Simplified calculation
-     if (typeof amount === 'number' && !Number.isInteger(amount)) {
-         console.warn("adjustForDecimals received a float amount, precision issues may occur:", amount);
-         return BigInt(Math.round(amount * (10 ** decimals)));
-     }
-     return BigInt(amount) * base;
+// Helper: An amount of the token as written in the scenario, in tokens (e.g. "10.25"); fails on more fraction digits
+// than the token has decimals
+function tokenAmount(token: ScenarioToken, tokens: string): TokenAmount {
+    return TokenAmount.parse(tokens, token);
 }
 
-// Helper: Get token balance (returns bigint)
-async function getTokenBalance(accountId: AccountId, tokenId: TokenId, client: Client): Promise<bigint> {
+// Helper: Get token balance, zero while the account is not associated
+async function getTokenBalance(accountId: AccountId, token: ScenarioToken, client: Client): Promise<TokenAmount> {
     try {
         const balanceQuery = new AccountBalanceQuery().setAccountId(accountId);
         const balance = await balanceQuery.execute(client);
         // Use tokenId.toString() as the key for the map
-        const tokenBalance = balance.tokens?.get(tokenId.toString());
-        return tokenBalance ? BigInt(tokenBalance.toNumber()) : BigInt(0); // Use BigInt
+        const tokenBalance = balance.tokens?.get(token.id.toString());
+        return tokenBalance ? TokenAmount.fromUnits(tokenBalance, token) : TokenAmount.zero(token);
     } catch (error) {
-        console.error(`Error getting token balance for ${accountId} / ${tokenId}: ${error}`);
+        console.error(`Error getting token balance for ${accountId} / ${token.id}: ${error}`);
         // If account not found or other query issue, return 0 for simplicity in checks,
         // but this could mask underlying problems.
-        return BigInt(0);
+        return TokenAmount.zero(token);
     }
 }
 
 // Helper: Associate account with token (with checks)
 async function associateToken(accountId: AccountId, privateKey: PrivateKey, tokenId: TokenId, payerClient: Client) {
-    // Check if already associated
-    try {
-        const currentBalanceUnits = await getTokenBalance(accountId, tokenId, payerClient);
-        // If balance query succeeds (even returning 0), association exists.
-        console.log(`Account ${accountId.toString()} already associated with token ${tokenId.toString()} (balance check successful).`);
+    // Check if already associated: only associated tokens are listed in the account balance
+    const balance = await new AccountBalanceQuery().setAccountId(accountId).execute(payerClient);
+    if (balance.tokens?.get(tokenId.toString()) != null) {
+        console.log(`Account ${accountId.toString()} already associated with token ${tokenId.toString()}.`);
         return;
-    } catch (e) {
-        // If balance query fails, association might be missing. Proceed.
-         console.warn(`Balance check before association failed for ${accountId} (may need association): ${e}`);
     }
 
     console.log(`Attempting association for account ${accountId.toString()} with token ${tokenId.toString()}...`);
@@ -92,11 +92,11 @@ async function associateToken(accountId: AccountId, privateKey: PrivateKey, toke
             .freezeWith(payerClient); // Freeze with the client that will pay
 
         const signedTx = await associateTx.sign(privateKey); // Sign with the account being associated
-        const txResponse = await signedTx.execute(payerClient); // Execute with the paying client
+        const txResponse = await submitTransaction(payerClient, signedTx); // Execute with the paying client
         const receipt = await txResponse.getReceipt(payerClient);
         assert.strictEqual(receipt.status, Status.Success, `Token association failed for account ${accountId} and token ${tokenId}: ${receipt.status.toString()}`);
         console.log(`Association successful for account ${accountId.toString()} with token ${tokenId.toString()}`);
-        await delay(5000); // Short delay after association
+        await waitForTokenAssociation(payerClient, accountId, tokenId); // Until the association is visible
     } catch (error: any) {
         // Catch potential "TOKEN_ALREADY_ASSOCIATED_TO_ACCOUNT" specifically
         if (error instanceof ReceiptStatusError && error.status === Status.TokenAlreadyAssociatedToAccount) {
@@ -108,41 +108,52 @@ async function associateToken(accountId: AccountId, privateKey: PrivateKey, toke
     }
 }
 
-// Helper: Set token balance by transferring from Treasury (Acc 0)
-async function setTokenBalance(targetAccountId: AccountId, targetAccountKey: PrivateKey, tokenId: TokenId, targetBalanceTokens: number, decimals: number, treasuryClient: Client) {
-    const targetBalanceUnits = adjustForDecimals(targetBalanceTokens, decimals);
-    const currentBalanceUnits = await getTokenBalance(targetAccountId, tokenId, treasuryClient);
-    const differenceUnits = targetBalanceUnits - currentBalanceUnits;
+// Helper: Assert a token balance. "The ... account holds N HTT tokens" sets up balances before the
+// scenario's transaction is submitted and verifies them afterwards.
+async function assertTokenBalance(account: ScenarioAccount, token: ScenarioToken, expected: TokenAmount, client: Client) {
+    // Waits for the balance, the timeout error reports the balance last seen
+    await waitForTokenBalance(client, account.id, token.id, expected.units);
+    console.log(`Verified account ${account.id} holds ${expected}.`);
+}
+
+// Helper: Set token balance by transferring from/to the token treasury (client operator pays)
+async function setTokenBalance(target: ScenarioAccount, token: ScenarioToken, targetBalance: TokenAmount, treasuryClient: Client) {
+    const { id: targetAccountId, key: targetAccountKey } = target;
+    const { id: tokenId, treasury } = token;
+    assert.ok(!treasury.id.equals(targetAccountId), "Cannot set the token balance of the treasury itself");
+    await associateToken(targetAccountId, targetAccountKey, tokenId, treasuryClient); // Ensure associated
+    if (token.manager !== undefined) {
+        // Accounts are granted KYC for a managed token as they are set up; scenarios revoke it explicitly
+        const standing = await tokenStanding(treasuryClient, targetAccountId, tokenId);
+        if (standing?.kycGranted === false) await grantKyc(treasuryClient, tokenId, targetAccountId, token.manager.key);
+    }
 
-    if (differenceUnits === BigInt(0)) {
-        console.log(`Account ${targetAccountId} already has desired balance of ${targetBalanceTokens} tokens.`);
+    const currentBalance = await getTokenBalance(targetAccountId, token, treasuryClient);
+    const difference = targetBalance.minus(currentBalance);
+
+    if (difference.isZero()) {
+        console.log(`Account ${targetAccountId} already has desired balance of ${targetBalance}.`);
         return;
     }
 
-    // Assume treasury is the operator of treasuryClient (Account 0)
-    const treasuryId = treasuryClient.operatorAccountId;
-    const treasuryKey = treasuryClient._operator;
-    assert.ok(treasuryId, "Treasury client operator ID not set");
-    assert.ok(treasuryKey, "Treasury client operator key not set");
-    assert.ok(treasuryId.equals(getAccount(0).id), "Treasury client operator is not Account 0");
+    const treasuryId = treasury.id;
 
-    console.log(`Adjusting token balance for ${targetAccountId}: current=${currentBalanceUnits}, target=${targetBalanceUnits}, diff=${differenceUnits}`);
+    console.log(`Adjusting token balance for ${targetAccountId}: current=${currentBalance}, target=${targetBalance}, diff=${difference}`);
 
     const transferTx = new TransferTransaction();
     let txRequiresTargetSignature = false;
 
-    if (differenceUnits > 0) { // Need to send TO targetAccount FROM treasury
-        console.log(`Transferring ${differenceUnits} units FROM treasury ${treasuryId} TO ${targetAccountId}`);
+    if (!difference.isNegative()) { // Need to send TO targetAccount FROM treasury
+        console.log(`Transferring ${difference} FROM treasury ${treasuryId} TO ${targetAccountId}`);
         transferTx
-            .addTokenTransfer(tokenId, treasuryId, Number(-differenceUnits)) // From Acc 1
-            .addTokenTransfer(tokenId, targetAccountId, Number(differenceUnits));  // To Acc 2
-        // Treasury (operator) signs automatically via execute
+            .addTokenTransfer(tokenId, treasuryId, difference.negated().toLong()) // From Acc 1
+            .addTokenTransfer(tokenId, targetAccountId, difference.toLong());  // To Acc 2
     } else { // Need to send FROM targetAccount TO treasury
-        const amountToSend = -differenceUnits; // Make positive BigInt
-        console.log(`Transferring ${amountToSend} units FROM ${targetAccountId} TO treasury ${treasuryId}`);
+        const amountToSend = difference.negated(); // Make positive
+        console.log(`Transferring ${amountToSend} FROM ${targetAccountId} TO treasury ${treasuryId}`);
         transferTx
-            .addTokenTransfer(tokenId, targetAccountId, Number(-amountToSend))
-            .addTokenTransfer(tokenId, treasuryId, Number(amountToSend));
+            .addTokenTransfer(tokenId, targetAccountId, difference.toLong())
+            .addTokenTransfer(tokenId, treasuryId, amountToSend.toLong());
         txRequiresTargetSignature = true; // Target account must sign to send funds out
     }
 
@@ -151,552 +162,349 @@ async function setTokenBalance(targetAccountId: AccountId, targetAccountKey: Pri
     if (txRequiresTargetSignature) {
        await transferTx.sign(targetAccountKey); // Sign with the target account's key
        console.log(`Transfer transaction signed by target account ${targetAccountId}`);
+    } else {
+       await transferTx.sign(treasury.key); // Treasury must sign to send funds out
     }
 
-    // Treasury client executes
-    try {
-        const txResponse = await transferTx.execute(treasuryClient);
-        const receipt = await txResponse.getReceipt(treasuryClient);
-        // Check specifically for success
-        if (receipt.status !== Status.Success) {
-             throw new Error(`Setup transfer failed with status: ${receipt.status.toString()}`);
-        }
-        console.log(`Successfully set token balance for ${targetAccountId} to ${targetBalanceTokens} tokens.`);
-    } catch (error) {
-         console.error(`Error executing setup transfer for ${targetAccountId}:`, error);
-         // Attempt to get receipt details if possible
-         if (error instanceof TransactionResponse) {
-            try { const r = await error.getReceipt(treasuryClient); console.error("Receipt Status:", r.status.toString()); } catch {}
-         }
-         throw error; // Re-throw after logging
+    // Treasury client executes; transient failures are retried with the same transaction ID (src/retry.ts)
+    await executeWithRetry(treasuryClient, transferTx);
+    console.log(`Successfully set token balance for ${targetAccountId} to ${targetBalance}.`);
+    await waitForTokenBalance(treasuryClient, targetAccountId, tokenId, targetBalance.units); // Until the new balance is visible
+}
+
+// --- Scenario state ---
+// Kept on the HederaWorld (features/support/world.ts): the "first" to "fourth" account slots, the token created last
+// (with its treasury and decimals), the pending transaction and the payer's balance before it was submitted.
+
+// Helper: Check an account's hbar balance, paid for by the current operator
+async function assertHbarBalanceAbove(world: HederaWorld, slot: string, minHbar: number, orEqual = false) {
+    const account = world.account(slot);
+    const balance = await new AccountBalanceQuery().setAccountId(account.id).execute(world.client);
+    console.log(`The ${slot} account ${account.id.toString()} HBAR balance: ${balance.hbars.toString()}`);
+    const hbars = balance.hbars.toBigNumber();
+    assert.ok(orEqual ? hbars.isGreaterThanOrEqualTo(minHbar) : hbars.isGreaterThan(minHbar),
+        `The ${slot} account ${account.id.toString()} needs ${orEqual ? "at least" : "more than"} ${minHbar} hbar, but has ${balance.hbars.toString()}`);
+}
+
+// Helper: "The ... account holds N HTT tokens" sets up the balance before the scenario's transaction is submitted and
+// verifies it afterwards. The first account pays for the setup.
+async function setOrAssertTokenBalance(world: HederaWorld, account: ScenarioAccount, token: ScenarioToken, balanceTokens: string) {
+    const balance = tokenAmount(token, balanceTokens);
+    world.useOperator("first");
+
+    if (world.transactionSubmitted) {
+        await assertTokenBalance(account, token, balance, world.client);
+        return;
+    }
+    console.log(`Setting initial token balance for the ${account.name} account to ${balance}`);
+    await setTokenBalance(account, token, balance, world.client);
+}
+
+// Helper: Check an account's minimum hbar balance and give it a token balance (multi-party scenario)
+async function setupAccountWithTokens(world: HederaWorld, account: ScenarioAccount, minHbar: number, token: ScenarioToken, balanceTokens: string) {
+    const balance = tokenAmount(token, balanceTokens);
+    console.log(`--- Setup: the ${account.name} account with HBAR >= ${minHbar} and ${balance} ---`);
+    world.useOperator("first"); // The first account pays for checks/setup
+    if (minHbar > 0) {
+        await assertHbarBalanceAbove(world, account.name, minHbar, true);
     }
-    await delay(5000); // Wait after transfer
+    await setTokenBalance(account, token, balance, world.client);
+}
+
+// Helper: Plan a transfer of the token from the signed amounts per account
+async function createTokenTransfer(world: HederaWorld, token: ScenarioToken, legs: [account: ScenarioAccount, amount: TokenAmount][], signers = world.availableKeys()): Promise<TransferPlan> {
+    return planScenarioTransfer(world, legs.map(([account, amount]) => ({ account: account.id, asset: token.id, amount: amount.units })), signers);
 }
 
-// --- Cucumber Context (`this`) ---
-// Stores scenario-specific data
-// this.account1Id / this.account1Key (Primary account, usually treasury)
-// this.account2Id / this.account2Key
-// this.account3Id / this.account3Key
-// this.account4Id / this.account4Key
-// this.tokenId: TokenId | undefined
-// this.tokenDecimals: number | undefined
-// this.createdTransaction: Transaction | undefined
-// this.balanceBefore: Hbar | undefined
-// ---
+// Helper: Plan a transfer paid for by the first account. Every other party of the scenario signs right away, as if
+// they had approved the transfer; the first account signs when it submits.
+async function planScenarioTransfer(world: HederaWorld, legs: TransferLeg[], signers = world.availableKeys()): Promise<TransferPlan> {
+    const payer = world.useOperator("first");
+    const plan = await planTransfer(world.client, legs, { payer: payer.id, signers: signers.filter(key => !key.publicKey.equals(payer.key.publicKey)) });
+    console.log(`Planned transfer ${plan.transaction.transactionId}; required signatures: ${describeSignatures(plan.requiredSignatures)}`);
+    return plan;
+}
+
+// Helper: Legs from a table with the columns account (slot), asset (token symbol or HBAR) and amount (negative to send)
+function transferLegsFromTable(world: HederaWorld, table: DataTable): TransferLeg[] {
+    return table.hashes().map(({ account, asset, amount }): TransferLeg => {
+        const accountId = world.account(account).id;
+        if (asset === HBAR) {
+            return { account: accountId, asset: HBAR, amount: BigInt(Hbar.fromString(amount).toTinybars().toString()) };
+        }
+        const token = world.token(asset);
+        return { account: accountId, asset: token.id, amount: tokenAmount(token, amount).units };
+    });
+}
 
 // --- Scenario Setup Steps ---
 
 // Generic setup for the primary account (Acc 0)
-Given(/^A Hedera account with more than (\d+) hbar$/, async function (minHbar: number) {
-    const acc = getAccount(0);
-    this.account1Id = acc.id;
-    this.account1Key = acc.key;
-    client.setOperator(this.account1Id, this.account1Key); // Set operator for this scenario
-    console.log(`Operator set to Account 1 (Treasury): ${this.account1Id.toString()}`);
-
-    const balance = await new AccountBalanceQuery().setAccountId(this.account1Id).execute(client);
-    console.log(`Account 1 ${this.account1Id.toString()} HBAR balance: ${balance.hbars.toString()}`);
-    assert.ok(balance.hbars.toBigNumber().isGreaterThan(minHbar), `Account 1 ${this.account1Id.toString()} needs more than ${minHbar} hbar, but has ${balance.hbars.toString()}`);
-});
-
-// Setup for Account 2
-Given(/^A second Hedera account$/, async function () {
-    const acc = getAccount(1);
-    this.account2Id = acc.id;
-    this.account2Key = acc.key;
-    console.log(`Loaded Account 2: ${this.account2Id.toString()}`);
+Given(/^A Hedera account with more than (\d+) hbar$/, async function (this: HederaWorld, minHbar: number) {
+    const account = this.loadAccount("first");
+    this.useOperator("first"); // Set operator for this scenario
+    console.log(`Operator set to Account 1 (Treasury): ${account.id.toString()}`);
+    await assertHbarBalanceAbove(this, "first", minHbar);
+});
+
+// Setup for any other party; the {account} parameter sets the account up (see features/support/parameter-types.ts)
+Given("A {account} Hedera account", function (this: HederaWorld, account: ScenarioAccount) {
+    console.log(`Loaded the ${account.name} account: ${account.id.toString()}`);
     // Association happens when token is known and needed
 });
 
-// Setup for Account 3 (simplified HBAR check)
-Given(/^A third Hedera account with (\d+) hbar$/, async function (minHbar: number) {
-    const acc = getAccount(2);
-    this.account3Id = acc.id;
-    this.account3Key = acc.key;
-    console.log(`Loaded Account 3: ${this.account3Id.toString()}`);
+Given("A {account} Hedera account with {int} hbar", async function (this: HederaWorld, account: ScenarioAccount, minHbar: number) {
+    console.log(`Loaded the ${account.name} account: ${account.id.toString()}`);
     if (minHbar > 0) { // Only check if > 0 required
-        assert.ok(client.operatorAccountId, "Client operator needed to check Account 3 HBAR");
-        const balance = await new AccountBalanceQuery().setAccountId(this.account3Id).execute(client);
-        console.log(`Account 3 ${this.account3Id.toString()} HBAR balance: ${balance.hbars.toString()}`);
-        assert.ok(balance.hbars.toBigNumber().isGreaterThan(minHbar), `Account 3 ${this.account3Id.toString()} needs more than ${minHbar} hbar.`);
+        await assertHbarBalanceAbove(this, account.name, minHbar);
     }
 });
 
-// Setup for Account 4 (simplified HBAR check)
-Given(/^A fourth Hedera account with (\d+) hbar$/, async function (minHbar: number) {
-    const acc = getAccount(3);
-    this.account4Id = acc.id;
-    this.account4Key = acc.key;
-    console.log(`Loaded Account 4: ${this.account4Id.toString()}`);
-    if (minHbar > 0) { // Only check if > 0 required
-        assert.ok(client.operatorAccountId, "Client operator needed to check Account 4 HBAR");
-        const balance = await new AccountBalanceQuery().setAccountId(this.account4Id).execute(client);
-        console.log(`Account 4 ${this.account4Id.toString()} HBAR balance: ${balance.hbars.toString()}`);
-        assert.ok(balance.hbars.toBigNumber().isGreaterThan(minHbar), `Account 4 ${this.account4Id.toString()} needs more than ${minHbar} hbar.`);
-    }
+Given('A first hedera account with more than {int} hbar', async function (this: HederaWorld, minHbar: number) {
+    console.log("--- Setup: Account 1 with HBAR (Transfer Scenarios) ---");
+    const account = this.loadAccount("first");
+    this.useOperator("first");
+    console.log(`Operator set to Account 1: ${account.id.toString()}`);
+    await assertHbarBalanceAbove(this, "first", minHbar);
+});
+
+Given('A first hedera account with more than {int} hbar and {amount} {token} tokens', async function (this: HederaWorld, minHbar: number, balanceTokens: string, token: ScenarioToken) {
+    const account = this.loadAccount("first");
+    const balance = tokenAmount(token, balanceTokens);
+    console.log(`--- Setup: Account 1 with HBAR > ${minHbar} and ${balance} ---`);
+    this.useOperator("first");
+    await assertHbarBalanceAbove(this, "first", minHbar);
+
+    console.log(`Setting initial token balance for Account 1 to ${balance}`);
+    await setTokenBalance(account, token, balance, this.client);
+});
+
+Given('A {account} Hedera account with {int} hbar and {amount} {token} tokens',
+async function (this: HederaWorld, account: ScenarioAccount, minHbar: number, balanceTokens: string, token: ScenarioToken) {
+    await setupAccountWithTokens(this, account, minHbar, token, balanceTokens);
 });
 
 // --- Token Creation Steps ---
 
-When(/^I create a token named (.+) \((.+)\)$/, async function (tokenName: string, tokenSymbol: string) {
-    // Creates a MINTABLE token
-    assert.ok(this.account1Id && this.account1Key, "Account 1 context needed for mintable token creation");
-    client.setOperator(this.account1Id, this.account1Key);
+// Helper: Create a MINTABLE token, the first account is treasury, admin and supply key
+async function createMintableToken(world: HederaWorld, tokenName: string, tokenSymbol: string, customFees: CustomFeeSpec[] = []) {
+    const owner = world.useOperator("first");
 
     const decimals = 2; // Hardcoded based on feature file Then steps
 
-    console.log(`Creating MINTABLE token: Name=${tokenName}, Symbol=${tokenSymbol}, Decimals=${decimals}, Treasury=${this.account1Id}`);
-
-    const createTx = await new TokenCreateTransaction()
-        .setTokenName(tokenName)
-        .setTokenSymbol(tokenSymbol)
-        .setDecimals(decimals)
-        .setInitialSupply(0) // Mintable starts at 0
-        .setTokenType(TokenType.FungibleCommon)
-        .setSupplyType(TokenSupplyType.Infinite)
-        .setTreasuryAccountId(this.account1Id)
-        .setAdminKey(this.account1Key.publicKey)
-        .setSupplyKey(this.account1Key.publicKey) // Supply key makes it mintable
-        .execute(client);
+    console.log(`Creating MINTABLE token: Name=${tokenName}, Symbol=${tokenSymbol}, Decimals=${decimals}, Treasury=${owner.id}, CustomFees=${customFees.length}`);
+
+    // Infinite supply, starting at 0
+    const spec = tokenSpec({
+        name: tokenName,
+        symbol: tokenSymbol,
+        decimals,
+        treasury: owner.id,
+        keys: { adminKey: owner.key.publicKey, supplyKey: owner.key.publicKey }, // Supply key makes it mintable
+        customFees: customFees.map(toCustomFee)
+    });
+    const tokenId = await createToken(world.client, spec, feeCollectorKeys(world, customFees));
+
+    world.addToken({ id: tokenId, name: tokenName, symbol: tokenSymbol, decimals, treasury: owner, spec });
+    console.log(`Created MINTABLE token ID: ${tokenId.toString()}`);
+    await waitForTokenInfo(world.client, tokenId); // Until the token is visible
+}
 
-    const receipt = await createTx.getReceipt(client);
-    assert.strictEqual(receipt.status, Status.Success, `Mintable token creation failed: ${receipt.status.toString()}`);
-    assert.ok(receipt.tokenId, "Token ID missing from mintable token creation receipt.");
+When(/^I create a token named (.+) \((.+)\)$/, async function (this: HederaWorld, tokenName: string, tokenSymbol: string) {
+    await createMintableToken(this, tokenName, tokenSymbol);
+});
 
-    this.tokenId = receipt.tokenId; // Store in context
-    this.tokenDecimals = decimals; // Store in context
-    console.log(`Created MINTABLE token ID: ${this.tokenId.toString()}`);
-    await delay(9000);
+When(/^I create a token named (.+) \((.+)\) with the following custom fees$/, async function (this: HederaWorld, tokenName: string, tokenSymbol: string, table: DataTable) {
+    await createMintableToken(this, tokenName, tokenSymbol, customFeesFromTable(this, table, { symbol: tokenSymbol, decimals: 2 }));
 });
 
-When(/^I create a fixed supply token named (.+) \((.+)\) with (\d+) tokens$/, async function (tokenName: string, tokenSymbol: string, initialTokens: number) {
-    // Creates a FIXED supply token
-    assert.ok(this.account1Id && this.account1Key, "Account 1 context needed for fixed supply token creation");
-    client.setOperator(this.account1Id, this.account1Key);
+When(/^I create a fixed supply token named (.+) \((.+)\) with (\d+(?:\.\d+)?) tokens$/, async function (this: HederaWorld, tokenName: string, tokenSymbol: string, initialTokens: string) {
+    // Creates a FIXED supply token, the first account is treasury and admin
+    const owner = this.useOperator("first");
 
     const decimals = 2; // Hardcoded based on feature file Then steps
-    const initialSupplyUnits = adjustForDecimals(initialTokens, decimals); // Use helper
-
-    console.log(`Creating FIXED token: Name=${tokenName}, Symbol=${tokenSymbol}, Decimals=${decimals}, InitialSupply=${initialTokens} (${initialSupplyUnits} units), Treasury=${this.account1Id}`);
-
-    const createTx = await new TokenCreateTransaction()
-        .setTokenName(tokenName)
-        .setTokenSymbol(tokenSymbol)
-        .setDecimals(decimals)
-        .setInitialSupply(Number(initialSupplyUnits)) // Set initial supply in units
-        .setTokenType(TokenType.FungibleCommon)
-        .setSupplyType(TokenSupplyType.Finite)
-        .setMaxSupply(Number(initialSupplyUnits)) // Max supply required for Finite
-        .setTreasuryAccountId(this.account1Id)
-        .setAdminKey(this.account1Key.publicKey)
-        // NO supply key for fixed supply
-        .execute(client);
-
-    const receipt = await createTx.getReceipt(client);
-    assert.strictEqual(receipt.status, Status.Success, `Fixed supply token creation failed: ${receipt.status.toString()}`);
-    assert.ok(receipt.tokenId, "Token ID missing from fixed supply token creation receipt.");
-
-    this.tokenId = receipt.tokenId; // Store in context
-    this.tokenDecimals = decimals; // Store in context
-    console.log(`Created FIXED token ID: ${this.tokenId.toString()}`);
-    await delay(9000);
-});
-
-// Add this specific step definition:
-Given('A first hedera account with more than {int} hbar and {int} HTT tokens', async function (minHbar: number, balanceTokens: number) {
-  console.log(`--- Setup: Account 1 with HBAR > ${minHbar} and ${balanceTokens} HTT ---`);
-  // 1. Ensure Account 1 exists and has HBAR (Redundant check if previous step ran, but safe)
-  const acc = getAccount(0);
-  this.account1Id = acc.id;
-  this.account1Key = acc.key;
-  this.account = this.account1Id;
-  this.privKey = this.account1Key;
-  client.setOperator(this.account1Id, this.account1Key);
-  const balance = await new AccountBalanceQuery().setAccountId(this.account1Id).execute(client);
-  console.log(`Account 1 HBAR balance: ${balance.hbars.toString()}`);
-  assert.ok(balance.hbars.toBigNumber().isGreaterThan(minHbar), `Account 1 needs more than ${minHbar} hbar.`);
-
-  // 2. Ensure Token exists
-  assert.ok(this.tokenId, "Token ID must be set in context before setting balance for Account 1");
-  assert.ok(this.tokenDecimals !== undefined, "Token decimals must be set in context");
-
-  // 3. Set/Verify token balance
-  console.log(`Setting initial token balance for Account 1 to ${balanceTokens} HTT`);
-  await setTokenBalance(this.account1Id, this.account1Key, this.tokenId, balanceTokens, this.tokenDecimals, client);
-});
-
-// Add this specific step definition:
-Given('A second Hedera account with {int} hbar and {int} HTT tokens', async function (minHbar: number, balanceTokens: number) {
-  console.log(`--- Setup: Account 2 with HBAR >= ${minHbar} and ${balanceTokens} HTT ---`);
-  // 1. Ensure Account 2 exists (Redundant check if previous step ran, but safe)
-  const acc = getAccount(1);
-  this.account2Id = acc.id;
-  this.account2Key = acc.key;
-  assert.ok(this.account1Id && this.account1Key, "Account 1 (Payer) context must be set");
-  client.setOperator(this.account1Id, this.account1Key); // Acc 1 pays for checks/setup
-
-  // 2. Check HBAR (optional)
-  if (minHbar > 0) {
-       const balance = await new AccountBalanceQuery().setAccountId(this.account2Id).execute(client);
-       console.log(`Account 2 HBAR balance: ${balance.hbars.toString()}`);
-        assert.ok(balance.hbars.toBigNumber().isGreaterThanOrEqualTo(minHbar), `Account 2 needs >= ${minHbar} hbar.`);
-  }
-
-  // 3. Ensure Token exists
-  assert.ok(this.tokenId, "Token ID must be set before setting balance for Account 2");
-  assert.ok(this.tokenDecimals !== undefined, "Token decimals must be set");
-
-  // 4. Set token balance (includes association)
-  console.log(`Setting initial token balance for Account 2 to ${balanceTokens} HTT`);
-  await setTokenBalance(this.account2Id, this.account2Key, this.tokenId, balanceTokens, this.tokenDecimals, client);
-});
-
-// Add this specific step definition:
-Given('A third Hedera account with {int} hbar and {int} HTT tokens', async function (minHbar: number, balanceTokens: number) {
-  console.log(`--- Setup: Account 3 with HBAR >= ${minHbar} and ${balanceTokens} HTT ---`);
-  // 1. Ensure Account 3 exists
-  const acc = getAccount(2);
-  this.account3Id = acc.id;
-  this.account3Key = acc.key;
-  assert.ok(this.account1Id && this.account1Key, "Account 1 (Payer) context must be set");
-  client.setOperator(this.account1Id, this.account1Key); // Acc 1 pays
-
-  // 2. Check HBAR (optional)
-  if (minHbar > 0) {
-      const balance = await new AccountBalanceQuery().setAccountId(this.account3Id).execute(client);
-      console.log(`Account 3 HBAR balance: ${balance.hbars.toString()}`);
-      assert.ok(balance.hbars.toBigNumber().isGreaterThanOrEqualTo(minHbar), `Account 3 needs >= ${minHbar} hbar.`);
-  }
-
-  // 3. Ensure Token exists
-  assert.ok(this.tokenId, "Token ID must be set before setting balance for Account 3");
-  assert.ok(this.tokenDecimals !== undefined, "Token decimals must be set");
-
-  // 4. Set token balance (includes association)
-  console.log(`Setting initial token balance for Account 3 to ${balanceTokens} HTT`);
-  await setTokenBalance(this.account3Id, this.account3Key, this.tokenId, balanceTokens, this.tokenDecimals, client);
-});
-
-// Add this specific step definition:
-Given('A fourth Hedera account with {int} hbar and {int} HTT tokens', async function (minHbar: number, balanceTokens: number) {
-  console.log(`--- Setup: Account 4 with HBAR >= ${minHbar} and ${balanceTokens} HTT ---`);
-  // 1. Ensure Account 4 exists
-  const acc = getAccount(3);
-  this.account4Id = acc.id;
-  this.account4Key = acc.key;
-  assert.ok(this.account1Id && this.account1Key, "Account 1 (Payer) context must be set");
-  client.setOperator(this.account1Id, this.account1Key); // Acc 1 pays
-
-  // 2. Check HBAR (optional)
-  if (minHbar > 0) {
-      const balance = await new AccountBalanceQuery().setAccountId(this.account4Id).execute(client);
-      console.log(`Account 4 HBAR balance: ${balance.hbars.toString()}`);
-      assert.ok(balance.hbars.toBigNumber().isGreaterThanOrEqualTo(minHbar), `Account 4 needs >= ${minHbar} hbar.`);
-  }
-
-  // 3. Ensure Token exists
-  assert.ok(this.tokenId, "Token ID must be set before setting balance for Account 4");
-  assert.ok(this.tokenDecimals !== undefined, "Token decimals must be set");
-
-  // 4. Set token balance (includes association)
-  console.log(`Setting initial token balance for Account 4 to ${balanceTokens} HTT`);
-  await setTokenBalance(this.account4Id, this.account4Key, this.tokenId, balanceTokens, this.tokenDecimals, client);
-});
-
-
-// Add this specific step definition (ensure regex matches feature file!)
-// NOTE: The original error showed 3 int params, but the text implies 4 amounts.
-// This implementation assumes 4 amounts based on the text description. Adjust if needed.
-When('A transaction is created to transfer {int} HTT tokens out of the first account, {int} HTT tokens out of the second account, {int} HTT tokens into the third account, and {int} HTT tokens into the fourth account',
-async function (out1Tokens: number, out2Tokens: number, in3Tokens: number, in4Tokens: number) {
-  console.log("--- Creating Multi-Party Transaction ---");
-  assert.ok(this.account1Id && this.account1Key, "Acc 1 missing");
-  assert.ok(this.account2Id && this.account2Key, "Acc 2 missing");
-  assert.ok(this.account3Id, "Acc 3 missing");
-  assert.ok(this.account4Id, "Acc 4 missing");
-  assert.ok(this.tokenId, "Token ID missing");
-  assert.ok(this.tokenDecimals !== undefined, "Token decimals missing");
-
-  const out1Units = adjustForDecimals(out1Tokens, this.tokenDecimals);
-  const out2Units = adjustForDecimals(out2Tokens, this.tokenDecimals);
-  const in3Units = adjustForDecimals(in3Tokens, this.tokenDecimals);
-  const in4Units = adjustForDecimals(in4Tokens, this.tokenDecimals);
-
-  assert.strictEqual((out1Units + out2Units), (in3Units + in4Units), "Multi-transfer amounts unbalanced");
-
-  console.log(`Creating multi-transfer: ${out1Tokens} from Acc1, ${out2Tokens} from Acc2, ${in3Tokens} to Acc3, ${in4Tokens} to Acc4`);
-  const transferTx = new TransferTransaction()
-      .addTokenTransfer(this.tokenId, this.account1Id, -Number(out1Units)) // Convert to number
-      .addTokenTransfer(this.tokenId, this.account2Id, -Number(out2Units)) // Convert to number
-      .addTokenTransfer(this.tokenId, this.account3Id, Number(in3Units))   // Convert to number
-      .addTokenTransfer(this.tokenId, this.account4Id, Number(in4Units));  // Convert to number
-
-  client.setOperator(this.account1Id, this.account1Key); // Freeze with payer (Acc 1)
-  await transferTx.freezeWith(client);
-  console.log("Multi-party transaction created and frozen.");
-  this.createdTransaction = transferTx;
-});
-// Step used in transfer scenarios to create the specific token needed
-Given(/^A token named (.+) \((.+)\) with (\d+) tokens$/, async function (tokenName: string, tokenSymbol: string, initialTokens: number) {
-    // Creates a FIXED supply token with Account 1 as treasury for transfer tests
-    assert.ok(this.account1Id && this.account1Key, "Account 1 context must be set before creating token for transfer");
-    client.setOperator(this.account1Id, this.account1Key); // Ensure operator is Account 1
+    const initialSupply = TokenAmount.parse(initialTokens, { decimals, symbol: tokenSymbol });
+
+    console.log(`Creating FIXED token: Name=${tokenName}, Symbol=${tokenSymbol}, Decimals=${decimals}, InitialSupply=${initialSupply} (${initialSupply.units} units), Treasury=${owner.id}`);
+
+    const spec = tokenSpec({
+        name: tokenName,
+        symbol: tokenSymbol,
+        decimals,
+        initialSupply,
+        maxSupply: initialSupply, // Finite: the whole supply exists from the start
+        treasury: owner.id,
+        keys: { adminKey: owner.key.publicKey } // NO supply key for fixed supply
+    });
+    const tokenId = await createToken(this.client, spec);
+
+    this.addToken({ id: tokenId, name: tokenName, symbol: tokenSymbol, decimals, treasury: owner, spec });
+    console.log(`Created FIXED token ID: ${tokenId.toString()}`);
+    await waitForTokenInfo(this.client, tokenId); // Until the token is visible
+});
+
+// Helper: Create a FIXED supply token for transfer tests. The supply sits with a dedicated treasury, so that the
+// scenario accounts, the first one included, can be given any balance.
+// With `managed`, the first account also holds the freeze, KYC, pause, wipe and supply keys (see token-admin.ts).
+async function createTransferToken(world: HederaWorld, tokenName: string, tokenSymbol: string, initialTokens: string, customFees: CustomFeeSpec[] = [], managed = false) {
+    const admin = world.ensureAccount("first"); // Token may be created before the first account is introduced
+    const treasury = world.loadTreasury();
+    world.useOperator("first"); // Ensure operator is Account 1
 
     const decimals = 2; // Hardcoded assumption
-    this.tokenDecimals = decimals;
-    const initialSupplyUnits = adjustForDecimals(initialTokens, decimals); // Use helper
-
-    console.log(`Creating FIXED token for transfer: Name=${tokenName}, Symbol=${tokenSymbol}, Decimals=${decimals}, InitialSupply=${initialTokens} (${initialSupplyUnits} units), Treasury=${this.account1Id}`);
-
-    const createTx = await new TokenCreateTransaction()
-        .setTokenName(tokenName)
-        .setTokenSymbol(tokenSymbol)
-        .setDecimals(decimals)
-        .setInitialSupply(Number(initialSupplyUnits))
-        .setTokenType(TokenType.FungibleCommon)
-        .setSupplyType(TokenSupplyType.Finite)
-        .setMaxSupply(Number(initialSupplyUnits))
-        .setTreasuryAccountId(this.account1Id) // Account 1 is treasury
-        .setAdminKey(this.account1Key.publicKey)
-        // NO Supply Key
-        .execute(client);
-
-    const receipt = await createTx.getReceipt(client);
-    assert.strictEqual(receipt.status, Status.Success, `Token creation for transfer scenario failed: ${receipt.status.toString()}`);
-    assert.ok(receipt.tokenId, "Token ID not found in receipt for transfer token.");
-
-    this.tokenId = receipt.tokenId; // Store in context
-    console.log(`Created FIXED token for transfer with ID: ${this.tokenId.toString()}`);
-    await delay(9000); // Allow propagation
+    const initialSupply = TokenAmount.parse(initialTokens, { decimals, symbol: tokenSymbol });
+
+    console.log(`Creating FIXED token for transfer: Name=${tokenName}, Symbol=${tokenSymbol}, Decimals=${decimals}, InitialSupply=${initialSupply} (${initialSupply.units} units), Treasury=${treasury.id}`);
+
+    const adminKey = admin.key.publicKey;
+    const spec = tokenSpec({
+        name: tokenName,
+        symbol: tokenSymbol,
+        decimals,
+        initialSupply,
+        maxSupply: initialSupply,
+        treasury: treasury.id,
+        // NO Supply Key, unless managed
+        keys: managed ? { adminKey, freezeKey: adminKey, kycKey: adminKey, pauseKey: adminKey, wipeKey: adminKey, supplyKey: adminKey } : { adminKey },
+        customFees: customFees.map(toCustomFee)
+    });
+    // Treasury must sign the creation, and so do some of the fee collectors
+    const tokenId = await createToken(world.client, spec, [treasury.key, ...feeCollectorKeys(world, customFees)]);
+
+    const token = world.addToken({ id: tokenId, name: tokenName, symbol: tokenSymbol, decimals, treasury, manager: managed ? admin : undefined, spec });
+    console.log(`Created FIXED token for transfer with ID: ${token.id.toString()}`);
+    await waitForTokenInfo(world.client, token.id); // Until the token is visible
 
     // Associate other accounts IMMEDIATELY if they exist in context for this scenario
-    client.setOperator(this.account1Id, this.account1Key); // Ensure Acc 1 pays for association
-    if (this.account2Id && this.account2Key) await associateToken(this.account2Id, this.account2Key, this.tokenId, client);
-    if (this.account3Id && this.account3Key) await associateToken(this.account3Id, this.account3Key, this.tokenId, client);
-    if (this.account4Id && this.account4Key) await associateToken(this.account4Id, this.account4Key, this.tokenId, client);
+    for (const slot of ["second", "third", "fourth"]) {
+        const account = world.accounts.get(slot);
+        if (account) await associateToken(account.id, account.key, token.id, world.client);
+    }
+}
+
+Given(/^A token named (.+) \((.+)\) with (\d+) tokens managed by the first account$/, async function (this: HederaWorld, tokenName: string, tokenSymbol: string, initialTokens: string) {
+    await createTransferToken(this, tokenName, tokenSymbol, initialTokens, [], true);
+});
+
+Given(/^A token named (.+) \((.+)\) with (\d+) tokens$/, async function (this: HederaWorld, tokenName: string, tokenSymbol: string, initialTokens: string) {
+    await createTransferToken(this, tokenName, tokenSymbol, initialTokens);
+});
+
+Given(/^A token named (.+) \((.+)\) with (\d+) tokens and the following custom fees$/, async function (this: HederaWorld, tokenName: string, tokenSymbol: string, initialTokens: string, table: DataTable) {
+    await createTransferToken(this, tokenName, tokenSymbol, initialTokens, customFeesFromTable(this, table, { symbol: tokenSymbol, decimals: 2 }));
+});
+
+// --- Token Specification Steps ---
+// Any kind of token, described by a table of settings (see features/support/token-table.ts); the first account pays
+
+When(/^I create a token with the following specification$/, async function (this: HederaWorld, table: DataTable) {
+    this.useOperator("first");
+    const { spec, signers, treasury } = tokenSpecFromTable(this, table);
+    console.log(`Creating ${spec.type} token ${spec.symbol}: Decimals=${spec.decimals}, InitialSupply=${spec.initialSupply}, SupplyType=${spec.supplyType}, MaxSupply=${spec.maxSupply ?? "none"}, Treasury=${spec.treasury}`);
+
+    const tokenId = await createToken(this.client, spec, signers);
+    this.addToken({ id: tokenId, name: spec.name, symbol: spec.symbol, decimals: spec.decimals, treasury, spec });
+    console.log(`Created token ID: ${tokenId.toString()}`);
+    await waitForTokenInfo(this.client, tokenId); // Until the token is visible
+});
+
+Then(/^The token matches its specification$/, async function (this: HederaWorld) {
+    const { id, spec } = this.token();
+    assert.ok(spec, "The token was not created from a specification in this scenario");
+    const info = await waitForTokenInfo(this.client, id);
+    const mismatches = tokenSpecMismatches(spec, info);
+    assert.strictEqual(mismatches.length, 0, `The token differs from its specification:\n  - ${mismatches.join("\n  - ")}`);
+    console.log(`Verified ${spec.symbol} matches its specification`);
+});
+
+Then(/^The following token specification is refused because (.+)$/, function (this: HederaWorld, problem: string, table: DataTable) {
+    assert.throws(() => tokenSpecFromTable(this, table), (error: unknown) => {
+        assert.ok(error instanceof TokenSpecError, `Expected a TokenSpecError, but got ${error}`);
+        assert.ok(error.problems.some(found => found.includes(problem)), `"${problem}" is not among the problems: ${error.message}`);
+        return true;
+    });
 });
 
 
 // --- Steps to SET initial balances ---
 
-// Use these steps AFTER the token has been created and accounts defined/associated
-// Replace the existing definition for this step
-Given(/^The first account holds (\d+) HTT tokens$/, async function (balanceTokens: number) {
-  assert.ok(this.account1Id && this.account1Key, "Account 1 context must be set");
-  assert.ok(this.tokenId, "Token ID must be set");
-  assert.ok(this.tokenDecimals !== undefined, "Token decimals must be set");
-  client.setOperator(this.account1Id, this.account1Key); // Treasury client
-
-  const expectedUnits = adjustForDecimals(balanceTokens, this.tokenDecimals);
-  const actualUnits = await getTokenBalance(this.account1Id, this.tokenId, client);
-
-  console.log(`SETUP CHECK for Account 1: Expected ${balanceTokens} HTT (${expectedUnits} units), Actual: ${actualUnits} units`);
-
-  if (actualUnits === expectedUnits) {
-      console.log(`Account 1 already holds the desired ${balanceTokens} tokens.`);
-      return; // Nothing to do
-  }
-
-  // If we expect FEWER tokens than the treasury currently holds (common setup issue)
-  if (expectedUnits < actualUnits) {
-      const difference = actualUnits - expectedUnits;
-      console.warn(`Account 1 (Treasury) holds ${actualUnits} units, but test expects ${expectedUnits}. Transferring ${difference} units away...`);
-
-      // Need a temporary sink account (use Account 3 or 4 if available, otherwise fail)
-      // Let's use Account 3 for simplicity here. Ensure it exists.
-      const sinkAccount = getAccount(2); // Using Account 3 as sink
-      assert.ok(sinkAccount, "Need Account 3 defined in config to transfer excess treasury funds");
-      await associateToken(sinkAccount.id, sinkAccount.key, this.tokenId, client); // Ensure sink is associated
-      const transferTx = new TransferTransaction()
-          .addTokenTransfer(this.tokenId, this.account1Id, Number(-difference)) // Send from treasury
-          .addTokenTransfer(this.tokenId, sinkAccount.id, Number(difference));    // Send to sink
-
-      await transferTx.freezeWith(client);
-      // No extra signature needed as treasury (operator) is sending
-      const txResponse = await transferTx.execute(client);
-      const receipt = await txResponse.getReceipt(client);
-      assert.strictEqual(receipt.status, Status.Success, `Failed to transfer excess tokens from treasury during setup: ${receipt.status.toString()}`);
-      console.log(`Transferred ${difference} excess units from Account 1 to ${sinkAccount.id}.`);
-      await delay(5000);
-
-      // Re-verify balance after transfer
-      const finalUnits = await getTokenBalance(this.account1Id, this.tokenId, client);
-       assert.strictEqual(finalUnits, expectedUnits, `SETUP FAIL: Account 1 balance is ${finalUnits} units after attempting to adjust to ${expectedUnits} units.`);
-
-  } else {
-      // If we expect MORE tokens than treasury holds (less common for fixed tokens, maybe needs minting?)
-      // For now, consider this a setup failure, as setTokenBalance handles sending *to* other accounts.
-       assert.fail(`SETUP FAIL: Account 1 (Treasury) expected ${expectedUnits} units, but holds only ${actualUnits}. Cannot adjust upwards in this step.`);
-  }
-  console.log(`Account 1 setup to hold ${balanceTokens} tokens.`);
-});
-
-Given(/^The second account holds (\d+) HTT tokens$/, async function (balanceTokens: number) {
-    assert.ok(this.account2Id && this.account2Key, "Account 2 context must be set");
-    assert.ok(this.tokenId, "Token ID must be set");
-    assert.ok(this.tokenDecimals !== undefined, "Token decimals must be set");
-    assert.ok(this.account1Id && this.account1Key, "Account 1 (Treasury) context must be set to pay for setup");
-    client.setOperator(this.account1Id, this.account1Key); // Treasury client pays for setup
-
-    await associateToken(this.account2Id, this.account2Key, this.tokenId, client); // Ensure associated
-    console.log(`Setting initial token balance for Account 2 to ${balanceTokens} HTT`);
-    await setTokenBalance(this.account2Id, this.account2Key, this.tokenId, balanceTokens, this.tokenDecimals, client);
-});
-
-Given(/^The third account holds (\d+) HTT tokens$/, async function (balanceTokens: number) {
-    assert.ok(this.account3Id && this.account3Key, "Account 3 context must be set");
-    assert.ok(this.tokenId, "Token ID must be set");
-    assert.ok(this.tokenDecimals !== undefined, "Token decimals must be set");
-    assert.ok(this.account1Id && this.account1Key, "Account 1 (Treasury) context must be set to pay for setup");
-    client.setOperator(this.account1Id, this.account1Key); // Treasury client pays for setup
-
-    await associateToken(this.account3Id, this.account3Key, this.tokenId, client); // Ensure associated
-    console.log(`Setting initial token balance for Account 3 to ${balanceTokens} HTT`);
-    await setTokenBalance(this.account3Id, this.account3Key, this.tokenId, balanceTokens, this.tokenDecimals, client);
-});
-
-// Given('A first hedera account with more than {int} hbar and {int} HTT tokens', async function (minHbar: number, balanceTokens: number) {
-//   console.log("--- Setting up Account 1 with HBAR and Tokens ---");
-//   const acc = getAccount(0);
-//   this.account1Id = acc.id;
-//   this.account1Key = acc.key;
-//   client.setOperator(this.account1Id, this.account1Key);
-
-//   // Check HBAR balance
-//   const balance = await new AccountBalanceQuery().setAccountId(this.account1Id).execute(client);
-//   console.log(`Account 1 ${this.account1Id.toString()} HBAR balance: ${balance.hbars.toString()}`);
-//   assert.ok(balance.hbars.toBigNumber().isGreaterThan(minHbar), `Account 1 ${this.account1Id.toString()} needs more than ${minHbar} hbar, but has ${balance.hbars.toString()}`);
-
-//   // Ensure Token exists
-//   assert.ok(this.tokenId, "Token ID must be set before setting balance for Account 1");
-//   assert.ok(this.tokenDecimals !== undefined, "Token decimals must be set");
-
-//   // Set token balance (includes association)
-//   console.log(`Setting initial token balance for Account 1 to ${balanceTokens} HTT`);
-//   const expectedUnits = adjustForDecimals(balanceTokens, this.tokenDecimals);
-//   const actualUnits = await getTokenBalance(this.account1Id, this.tokenId, client);
-
-//   // Debugging output
-//   console.log(`Expected Units: ${expectedUnits}, Actual Units: ${actualUnits}, Token Decimals: ${this.tokenDecimals}`);
-
-//   assert.strictEqual(actualUnits, expectedUnits, `SETUP FAIL: Account 1 (Treasury) expected ${expectedUnits} units, but holds ${actualUnits}. Check token creation.`);
-//   console.log(`Verified Account 1 holds ${balanceTokens} tokens.`);
-// });
-
-// Add this step definition if it's missing or incorrect
-Given('A first hedera account with more than {int} hbar', async function (minHbar: number) {
-  console.log("--- Setup: Account 1 with HBAR (Transfer Scenarios) ---");
-  const acc = getAccount(0);
-  this.account1Id = acc.id;
-  this.account1Key = acc.key;
-  this.account = this.account1Id; // Generic context needed by other steps
-  this.privKey = this.account1Key; // Generic context
-
-  client.setOperator(this.account1Id, this.account1Key);
-  console.log(`Operator set to Account 1: ${this.account1Id.toString()}`);
-  const balance = await new AccountBalanceQuery().setAccountId(this.account1Id).execute(client);
-  console.log(`Account 1 ${this.account1Id.toString()} HBAR balance: ${balance.hbars.toString()}`);
-  assert.ok(balance.hbars.toBigNumber().isGreaterThan(minHbar), `Account 1 ${this.account1Id.toString()} needs more than ${minHbar} hbar, but has ${balance.hbars.toString()}`);
-});
-
-Given(/^The fourth account holds (\d+) HTT tokens$/, async function (balanceTokens: number) {
-    assert.ok(this.account4Id && this.account4Key, "Account 4 context must be set");
-    assert.ok(this.tokenId, "Token ID must be set");
-    assert.ok(this.tokenDecimals !== undefined, "Token decimals must be set");
-    assert.ok(this.account1Id && this.account1Key, "Account 1 (Treasury) context must be set to pay for setup");
-    client.setOperator(this.account1Id, this.account1Key); // Treasury client pays for setup
-
-    await associateToken(this.account4Id, this.account4Key, this.tokenId, client); // Ensure associated
-    console.log(`Setting initial token balance for Account 4 to ${balanceTokens} HTT`);
-    await setTokenBalance(this.account4Id, this.account4Key, this.tokenId, balanceTokens, this.tokenDecimals, client);
+// Use this step AFTER the token has been created and accounts defined/associated
+Given("The {account} account holds {amount} {token} tokens", async function (this: HederaWorld, account: ScenarioAccount, balanceTokens: string, token: ScenarioToken) {
+    await setOrAssertTokenBalance(this, account, token, balanceTokens);
 });
 
 // --- Token Property Verification Steps ---
 
-Then(/^The token has the name "([^"]*)"$/, async function (expectedName: string) {
-    assert.ok(this.tokenId, "Token ID context not set for name check");
-    const info : TokenInfo = await new TokenInfoQuery().setTokenId(this.tokenId).execute(client);
+Then(/^The token has the name "([^"]*)"$/, async function (this: HederaWorld, expectedName: string) {
+    const info : TokenInfo = await this.query(new TokenInfoQuery().setTokenId(this.token().id));
     assert.strictEqual(info.name, expectedName, `Expected token name ${expectedName}, but got ${info.name}`);
     console.log(`Verified token name: ${info.name}`);
 });
 
-Then(/^The token has the symbol "([^"]*)"$/, async function (expectedSymbol: string) {
-    assert.ok(this.tokenId, "Token ID context not set for symbol check");
-    const info : TokenInfo = await new TokenInfoQuery().setTokenId(this.tokenId).execute(client);
+Then(/^The token has the symbol "([^"]*)"$/, async function (this: HederaWorld, expectedSymbol: string) {
+    const info : TokenInfo = await this.query(new TokenInfoQuery().setTokenId(this.token().id));
     assert.strictEqual(info.symbol, expectedSymbol, `Expected token symbol ${expectedSymbol}, but got ${info.symbol}`);
     console.log(`Verified token symbol: ${info.symbol}`);
 });
 
-Then(/^The token has (\d+) decimals$/, async function (expectedDecimals: number) {
-    assert.ok(this.tokenId, "Token ID context not set for decimals check");
-    // If decimals already stored, verify against that first
-    if (this.tokenDecimals !== undefined) {
-        assert.strictEqual(this.tokenDecimals, expectedDecimals, `Stored decimals ${this.tokenDecimals} don't match expected ${expectedDecimals}`);
-    }
-    const info : TokenInfo = await new TokenInfoQuery().setTokenId(this.tokenId).execute(client);
+Then(/^The token has (\d+) decimals$/, async function (this: HederaWorld, expectedDecimals: number) {
+    const token = this.token();
+    // Verify against the decimals the token was created with first
+    assert.strictEqual(token.decimals, expectedDecimals, `Stored decimals ${token.decimals} don't match expected ${expectedDecimals}`);
+    const info : TokenInfo = await this.query(new TokenInfoQuery().setTokenId(token.id));
     assert.strictEqual(info.decimals, expectedDecimals, `Expected token decimals ${expectedDecimals}, but got ${info.decimals}`);
-    this.tokenDecimals = info.decimals; // Ensure context is updated/correct
     console.log(`Verified token decimals: ${info.decimals}`);
 });
 
-Then(/^The token is owned by the account$/, async function () { // Assumes "the account" is Acc 1
-    assert.ok(this.tokenId, "Token ID context not set for owner check");
-    assert.ok(this.account1Id, "Account 1 context (treasury) not set for owner check");
-    const info : TokenInfo = await new TokenInfoQuery().setTokenId(this.tokenId).execute(client);
-    assert.ok(info.treasuryAccountId?.equals(this.account1Id), `Expected treasury ${this.account1Id.toString()}, but got ${info.treasuryAccountId?.toString()}`);
+Then(/^The token is owned by the account$/, async function (this: HederaWorld) { // Assumes "the account" is Acc 1
+    const owner = this.account("first");
+    const info : TokenInfo = await this.query(new TokenInfoQuery().setTokenId(this.token().id));
+    assert.ok(info.treasuryAccountId?.equals(owner.id), `Expected treasury ${owner.id.toString()}, but got ${info.treasuryAccountId?.toString()}`);
     console.log(`Verified token treasury: ${info.treasuryAccountId?.toString()}`);
 });
 
-Then(/^The total supply of the token is (\d+)$/, async function (expectedSupplyTokens: number) {
-    assert.ok(this.tokenId, "Token ID context not set for supply check");
-    assert.ok(this.tokenDecimals !== undefined, "Token decimals context not set for supply check");
-    const expectedSupplyUnits : bigint = adjustForDecimals(expectedSupplyTokens, this.tokenDecimals);
+Then(/^The total supply of the token is (\d+(?:\.\d+)?)$/, async function (this: HederaWorld, expectedSupplyTokens: string) {
+    const token = this.token();
+    const expectedSupply = tokenAmount(token, expectedSupplyTokens);
 
-    const info : TokenInfo = await new TokenInfoQuery().setTokenId(this.tokenId).execute(client);
-    // Compare BigInt values
-    assert.strictEqual(info.totalSupply.toNumber(), Number(expectedSupplyUnits), `Expected total supply ${expectedSupplyUnits} units, but got ${info.totalSupply.toString()}`);
-    console.log(`Verified token total supply: ${info.totalSupply.toString()} units`);
+    const info : TokenInfo = await this.query(new TokenInfoQuery().setTokenId(token.id));
+    const totalSupply = TokenAmount.fromUnits(info.totalSupply, token);
+    assert.ok(totalSupply.equals(expectedSupply), `Expected total supply ${expectedSupply}, but got ${totalSupply}`);
+    console.log(`Verified token total supply: ${totalSupply} (${totalSupply.units} units)`);
 });
 
 // --- Token Minting Steps ---
 
-Then(/^An attempt to mint (\d+) additional tokens succeeds$/, async function (amountToMintTokens: number) {
-    assert.ok(this.tokenId, "Token ID context not set for minting");
-    assert.ok(this.account1Key, "Treasury/Supply key (Account 1) context not set for minting");
-    assert.ok(this.tokenDecimals !== undefined, "Token decimals context not set for minting");
-    client.setOperator(this.account1Id, this.account1Key); // Ensure operator has supply key
+Then(/^An attempt to mint (\d+(?:\.\d+)?) additional tokens succeeds$/, async function (this: HederaWorld, amountToMintTokens: string) {
+    const token = this.token();
+    this.useOperator("first"); // Ensure operator has supply key
 
-    const amountToMintUnits = adjustForDecimals(amountToMintTokens, this.tokenDecimals);
-    console.log(`Attempting to mint ${amountToMintTokens} tokens (${amountToMintUnits} units)...`);
+    const amountToMint = tokenAmount(token, amountToMintTokens);
+    console.log(`Attempting to mint ${amountToMint} (${amountToMint.units} units)...`);
 
-    const mintTx = await new TokenMintTransaction()
-        .setTokenId(this.tokenId)
-        .setAmount(Number(amountToMintUnits))
-        .execute(client); // Operator has supply key
+    const mintTx = await this.submit(new TokenMintTransaction()
+        .setTokenId(token.id)
+        .setAmount(amountToMint.toLong())); // Operator has supply key
 
-    const receipt = await mintTx.getReceipt(client);
+    const receipt = await mintTx.getReceipt(this.client);
     assert.strictEqual(receipt.status, Status.Success, `Token minting failed unexpectedly: ${receipt.status.toString()}`);
-    console.log(`Successfully minted ${amountToMintTokens} tokens. New supply: ${receipt.totalSupply?.toString()} units`);
-    await delay(5000);
+    console.log(`Successfully minted ${amountToMint}. New supply: ${receipt.totalSupply?.toString()} units`);
+    await waitForTokenInfo(this.client, token.id, info => info.totalSupply.toString() === receipt.totalSupply?.toString()); // Until the new supply is visible
 });
 
-Then(/^An attempt to mint tokens fails$/, async function () {
-    assert.ok(this.tokenId, "Token ID context not set for failing mint");
-    assert.ok(this.account1Id && this.account1Key, "Account 1 context (payer) not set for failing mint");
-    assert.ok(this.tokenDecimals !== undefined, "Token decimals context not set for failing mint");
-    client.setOperator(this.account1Id, this.account1Key); // Set operator to pay
+Then(/^An attempt to mint tokens fails$/, async function (this: HederaWorld) {
+    const token = this.token();
+    this.useOperator("first"); // Set operator to pay
 
-    const amountToMintUnits = adjustForDecimals(1, this.tokenDecimals); // Try to mint 1 unit
-    console.log(`Attempting to mint ${amountToMintUnits} units for fixed supply token (expected to fail)...`);
+    const amountToMint = tokenAmount(token, "1"); // Try to mint 1 token
+    console.log(`Attempting to mint ${amountToMint} for fixed supply token (expected to fail)...`);
 
     try {
-        const mintTx = await new TokenMintTransaction()
-            .setTokenId(this.tokenId)
-            .setAmount(Number(amountToMintUnits))
-            .execute(client);
+        const mintTx = await this.submit(new TokenMintTransaction()
+            .setTokenId(token.id)
+            .setAmount(amountToMint.toLong()));
 
-         const receipt = await mintTx.getReceipt(client);
+         const receipt = await mintTx.getReceipt(this.client);
          console.error("Minting receipt status (should have failed):", receipt.status.toString());
          assert.fail("Minting succeeded unexpectedly for a fixed supply token.");
 
@@ -713,240 +521,227 @@ Then(/^An attempt to mint tokens fails$/, async function () {
 
 
 // --- Token Transfer Action Steps ---
+// These steps only plan the transfer (src/transfer-planner.ts); the submit step below signs for the payer and submits.
+
+// When the second account sends to the first, the recipient pays: the first account only signs when it submits
+When("The {account} account creates a transaction to transfer {amount} {token} tokens to the {account} account",
+async function (this: HederaWorld, sender: ScenarioAccount, amountTokens: string, token: ScenarioToken, recipient: ScenarioAccount) {
+    const amount = tokenAmount(token, amountTokens);
+    console.log(`Creating transaction: Transfer ${amount} from the ${sender.name} account to the ${recipient.name} account`);
+    this.pendingTransfer = await createTokenTransfer(this, token, [[sender, amount.negated()], [recipient, amount]]);
+});
 
-// Step to CREATE the transaction object and store it
-When(/^The first account creates a transaction to transfer (\d+) HTT tokens to the second account$/, async function (amountTokens: number) {
-    assert.ok(this.account1Id, "Account 1 context not set for creating transfer");
-    assert.ok(this.account2Id, "Account 2 context not set for creating transfer");
-    assert.ok(this.tokenId, "Token ID context not set for creating transfer");
-    assert.ok(this.tokenDecimals !== undefined, "Token decimals context not set");
-
-    const amountUnits = adjustForDecimals(amountTokens, this.tokenDecimals);
-    console.log(`Creating transaction: Transfer ${amountTokens} tokens (${amountUnits} units) from Acc1 to Acc2`);
-    const transferTx = new TransferTransaction()
-        .addTokenTransfer(this.tokenId, this.account1Id, Number(-amountUnits)) // From Acc 1
-        .addTokenTransfer(this.tokenId, this.account2Id, Number(amountUnits));  // To Acc 2
-
-    this.createdTransaction = transferTx; // Store unsigned transaction
-    console.log("Simple transfer transaction created.");
-});
-
-// Step to CREATE the transaction object for recipient-pays
-When(/^The second account creates a transaction to transfer (\d+) HTT tokens to the first account$/, async function (amountTokens: number) {
-    assert.ok(this.account1Id, "Account 1 context not set for recipient-pays");
-    assert.ok(this.account2Id && this.account2Key, "Account 2 context not set for recipient-pays");
-    assert.ok(this.tokenId, "Token ID context not set for recipient-pays");
-    assert.ok(this.tokenDecimals !== undefined, "Token decimals context not set");
-
-    const amountUnits = adjustForDecimals(amountTokens, this.tokenDecimals);
-    console.log(`Creating transaction: Transfer ${amountTokens} tokens (${amountUnits} units) from Acc2 to Acc1 (Recipient Acc1 to pay)`);
-    const transferTx = new TransferTransaction()
-        .addTokenTransfer(this.tokenId, this.account2Id, Number(-amountUnits)) // From Acc 2
-        .addTokenTransfer(this.tokenId, this.account1Id, Number(amountUnits));  // To Acc 1
-
-    // Freeze with a client (payer doesn't matter for freezing)
-    client.setOperator(this.account1Id, this.account1Key); // Use Acc 1 operator for freezing convenience
-    await transferTx.freezeWith(client);
-
-    // SIGN with the SENDER's key (Account 2)
-    const signedTx = await transferTx.sign(this.account2Key);
-    console.log("Transaction created by Account 2, frozen, and signed by Account 2.");
-
-    this.createdTransaction = signedTx; // Store signed transaction
-});
-
-// Step to CREATE the transaction object for multi-party
-When(/^A transaction is created to transfer (\d+) HTT tokens out of the first account, (\d+) HTT tokens out of the second account, (\d+) HTT tokens into the third account, and (\d+) HTT tokens into the fourth account$/,
-async function (out1Tokens: number, out2Tokens: number, in3Tokens: number, in4Tokens: number) {
-    assert.ok(this.account1Id, "Acc 1 missing for multi-transfer");
-    assert.ok(this.account2Id, "Acc 2 missing for multi-transfer");
-    assert.ok(this.account3Id, "Acc 3 missing for multi-transfer");
-    assert.ok(this.account4Id, "Acc 4 missing for multi-transfer");
-    assert.ok(this.tokenId, "Token ID missing for multi-transfer");
-    assert.ok(this.tokenDecimals !== undefined, "Token decimals missing");
-
-    const out1Units = adjustForDecimals(out1Tokens, this.tokenDecimals);
-    const out2Units = adjustForDecimals(out2Tokens, this.tokenDecimals);
-    const in3Units = adjustForDecimals(in3Tokens, this.tokenDecimals);
-    const in4Units = adjustForDecimals(in4Tokens, this.tokenDecimals);
-
-    // Balance check
-    assert.strictEqual((out1Units + out2Units), (in3Units + in4Units), "Multi-transfer amounts unbalanced");
-
-    console.log(`Creating multi-transfer: ${out1Tokens} from Acc1, ${out2Tokens} from Acc2, ${in3Tokens} to Acc3, ${in4Tokens} to Acc4`);
-    const transferTx = new TransferTransaction()
-        .addTokenTransfer(this.tokenId, this.account1Id, Number(-out1Units)) // From Acc 1
-        .addTokenTransfer(this.tokenId, this.account2Id, Number(-out2Units)) // From Acc 2
-        .addTokenTransfer(this.tokenId, this.account3Id, Number(in3Units))   // To Acc 3
-        .addTokenTransfer(this.tokenId, this.account4Id, Number(in4Units));  // To Acc 4
-
-    // Freeze with payer (Acc 1)
-    client.setOperator(this.account1Id, this.account1Key);
-    await transferTx.freezeWith(client);
+When(/^A transaction is created with the following transfers$/, async function (this: HederaWorld, table: DataTable) {
+    this.pendingTransfer = await planScenarioTransfer(this, transferLegsFromTable(this, table));
     console.log("Multi-party transaction created and frozen.");
+});
 
-    this.createdTransaction = transferTx; // Store unsigned frozen tx
+Then(/^The transaction requires the signatures of the (.+) accounts$/, function (this: HederaWorld, slots: string) {
+    const plan = this.pendingTransfer;
+    assert.ok(plan, "No transaction has been created in this scenario");
+    const expected = slots.split(/,\s*|\s+and\s+/).map(slot => this.account(slot.trim()).id.toString()).sort();
+    assert.deepStrictEqual(plan.requiredSignatures.map(signature => signature.accountId.toString()).sort(), expected,
+        `Required signatures: ${describeSignatures(plan.requiredSignatures)}`);
 });
 
-When('A transaction is created to transfer {int} HTT tokens out of the first and second account and {int} HTT tokens into the third account and {int} HTT tokens into the fourth account', async function (outTokens: number, in3Tokens: number, in4Tokens: number) {
-  assert.ok(this.account1Id, "Account 1 context must be set for multi-transfer");
-  assert.ok(this.account2Id, "Account 2 context must be set for multi-transfer");
-  assert.ok(this.account3Id, "Account 3 context must be set for multi-transfer");
-  assert.ok(this.account4Id, "Account 4 context must be set for multi-transfer");
-  assert.ok(this.tokenId, "Token ID context must be set for multi-transfer");
-  assert.ok(this.tokenDecimals !== undefined, "Token decimals context must be set for multi-transfer");
+Then(/^Planning the following transfers fails because (\w+) nets to (-?\d+)$/, async function (this: HederaWorld, asset: string, net: string, table: DataTable) {
+    const [name, units] = asset === HBAR
+        ? [assetName(HBAR), BigInt(Hbar.fromString(net).toTinybars().toString())]
+        : [assetName(this.token(asset).id), tokenAmount(this.token(asset), net).units];
+    const expected = `${name} nets to ${units > BigInt(0) ? "+" : ""}${units} instead of 0`;
+    await assert.rejects(planScenarioTransfer(this, transferLegsFromTable(this, table)),
+        (error: unknown) => error instanceof TransferPlanError && error.problems.includes(expected));
+});
+
+// --- SINGLE Submit Step ---
+// The first account adds its signature and pays. Every other signature the planner found to be required must already
+// be on the transaction, otherwise the step fails with the list of missing signers before anything is submitted.
+When(/^The first account submits the transaction$/, async function (this: HederaWorld) {
+    const plan = await signPendingTransfer(this);
+    console.log(`Account ${plan.payer.toString()} submitting the transaction...`);
+    const receipt = await this.submitWithRetry(plan.transaction);
+    assert.strictEqual(receipt.status, Status.Success);
+    console.log("Transaction submitted and executed successfully.");
+    this.submittedTransactionId = plan.transaction.transactionId ?? undefined;
+
+    this.transactionSubmitted = true; // The balance steps that follow wait for the transfer to become visible
+});
 
-  const outUnits = adjustForDecimals(outTokens, this.tokenDecimals);
-  const in3Units = adjustForDecimals(in3Tokens, this.tokenDecimals);
-  const in4Units = adjustForDecimals(in4Tokens, this.tokenDecimals);
-  // Ensure the total outflow matches the total inflow
-  assert.strictEqual(Number(outUnits) * 2, Number(in3Units) + Number(in4Units), "Multi-transfer amounts are unbalanced");
+// Helper: Take the pending transfer and add the first account's signature as the payer
+async function signPendingTransfer(world: HederaWorld): Promise<TransferPlan> {
+    const plan = world.takePendingTransfer();
+    const payer = world.useOperator("first");
+    assert.ok(plan.payer.equals(payer.id), `The transaction is paid for by ${plan.payer}, not by the first account`);
 
-  console.log(`Creating multi-transfer: ${outTokens} from Acc1 and Acc2, ${in3Tokens} to Acc3, ${in4Tokens} to Acc4`);
-  const transferTx = new TransferTransaction()
-      .addTokenTransfer(this.tokenId, this.account1Id, Number(-outUnits)) // From Acc 1
-      .addTokenTransfer(this.tokenId, this.account2Id, Number(-outUnits)) // From Acc 2
-      .addTokenTransfer(this.tokenId, this.account3Id, Number(in3Units))  // To Acc 3
-      .addTokenTransfer(this.tokenId, this.account4Id, Number(in4Units)); // To Acc 4
+    const missing = await signTransferPlan(plan, [payer.key]);
+    assert.strictEqual(missing.length, 0, `The transaction still needs the signatures of ${describeSignatures(missing)}`);
+    return plan;
+}
 
-  // Freeze with payer (Acc 1)
-  client.setOperator(this.account1Id, this.account1Key);
-  await transferTx.freezeWith(client);
-  console.log("Multi-party transaction created and frozen.");
+// --- Transient Network Failures ---
+// Only the simulator loses requests and responses on purpose. The submit step retries with the same transaction ID,
+// and checks for a receipt before submitting again.
 
-  this.createdTransaction = transferTx; // Store unsigned frozen transaction
+Given(/^The network loses the (request|response) of the next (\d+) submissions?$/, function (this: HederaWorld, lost: string, count: number) {
+    assert.ok(this.client instanceof SimulatedClient, "Connection failures can only be simulated on the simulator");
+    this.client.ledger.injectFaults(...Array<SubmissionFault>(count).fill(`${lost} lost` as SubmissionFault));
 });
 
-// --- SINGLE Submit Step ---
-// This step takes the transaction stored in `this.createdTransaction`
-// determines necessary signatures, signs if needed, sets the payer, and executes.
-When(/^The first account submits the transaction$/, async function () {
-    assert.ok(this.createdTransaction, "Transaction not found in context for submission");
-    assert.ok(this.account1Id && this.account1Key, "Account 1 context not set for submission");
-
-    let transactionToSubmit : Transaction = this.createdTransaction; // Transaction from context
-    let payerAccountId = this.account1Id; // Default payer
-    let payerKey = this.account1Key;
-    let requiresAcc2Sig = false;
-    let isRecipientPays = false;
-
-    // --- Determine Signatures & Payer ---
-
-    // Check if recipient-pays: Transaction is already signed, and signer is likely Acc 2
-    if (transactionToSubmit.isFrozen() && transactionToSubmit.getSignatures().size > 0 && this.account2Key) {
-        const sigMap = transactionToSubmit.getSignatures();
-        for (const pubKey of sigMap.keys()) {
-            if (pubKey.toString() === this.account2Key.publicKey.toString()) {
-                isRecipientPays = true;
-                break;
-            }
-        }
-        if(isRecipientPays){
-             payerAccountId = this.account1Id; // Acc 1 (recipient) pays
-             payerKey = this.account1Key;
-             console.log("Recipient-pays scenario detected: Acc 1 will pay, Acc 2 already signed.");
-             // Record balance before for fee check
-             client.setOperator(payerAccountId, payerKey); // Set operator to get correct balance
-             try { this.balanceBefore = (await new AccountBalanceQuery().setAccountId(payerAccountId).execute(client)).hbars; }
-             catch { /* ignore if query fails */ } // Best effort balance capture
-             console.log(`Account 1 HBAR balance before submit (recipient pays): ${this.balanceBefore?.toString()}`);
-        }
-    }
+Then(/^The submission ended as "(executed|already executed)" on attempt (\d+)$/, function (this: HederaWorld, outcome: string, attempt: number) {
+    const last = this.submissionAttempts[this.submissionAttempts.length - 1];
+    assert.ok(last, "No transaction has been submitted with retries");
+    assert.strictEqual(last.outcome, outcome, `The submission ended as "${last.outcome}" on attempt ${last.attempt}`);
+    assert.strictEqual(last.attempt, attempt);
+});
 
-    // Check if multi-party requiring Acc 2 signature (and not already signed in recipient-pays)
-    if (!isRecipientPays && transactionToSubmit instanceof TransferTransaction && this.account2Id) {
-        const transfers = transactionToSubmit.tokenTransfers.get(this.tokenId?.toString() ?? "");
-        // Check if Account 2 is sending tokens (amount < 0)
-        if (transfers) {
-            for (const [accountId, amount] of transfers) {
-                if (accountId.equals(this.account2Id as AccountId) && amount.isNegative()) {
-                    requiresAcc2Sig = true;
-                    break;
-                }
-            }
-        }
-    }
+Then(/^The first account fails to submit the transaction after (\d+) attempts$/, async function (this: HederaWorld, attempts: number) {
+    const plan = await signPendingTransfer(this);
+    await assert.rejects(this.submitWithRetry(plan.transaction), (error: unknown) => {
+        assert.ok(error instanceof RetriesExhaustedError, `Expected a RetriesExhaustedError, but got ${error}`);
+        assert.strictEqual(error.attempts, attempts);
+        return true;
+    });
+});
 
-    // --- Signing ---
-    if (requiresAcc2Sig) {
-         assert.ok(this.account2Key, "Account 2 key needed for signing multi-party but not found");
-         // Check if already signed by Acc2 (might happen if logic overlaps)
-         let acc2AlreadySigned = false;
-         const sigMap = transactionToSubmit.getSignatures();
-         for (const pubKey of sigMap.keys()) {
-             if (pubKey.toString() === this.account2Key.publicKey.toString()) {
-                 acc2AlreadySigned = true;
-                 break;
-             }
-         }
-         if (!acc2AlreadySigned) {
-            console.log("Signing multi-party transaction with Account 2 key...");
-            transactionToSubmit = await transactionToSubmit.sign(this.account2Key);
-         } else {
-             console.log("Multi-party transaction already signed by Account 2.");
-         }
-    }
-    // Account 1 (Payer) signature is handled by .execute() if they are the operator
+// --- Offline Signing Steps ---
+// The transaction goes through a file, like it would between parties on different machines: every party reads the
+// exported file and writes its own signed copy, and the copies are merged when the transaction is submitted.
 
-    // --- Submission ---
-    client.setOperator(payerAccountId, payerKey); // Set the PAYER as operator
-    console.log(`Account ${payerAccountId.toString()} submitting the transaction...`);
+When("The first account exports a transaction to transfer {amount} {token} tokens from the {account} account to the {account} account",
+async function (this: HederaWorld, amountTokens: string, token: ScenarioToken, sender: ScenarioAccount, receiver: ScenarioAccount) {
+    const amount = tokenAmount(token, amountTokens);
+    const { transaction } = await createTokenTransfer(this, token, [[sender, amount.negated()], [receiver, amount]], []); // Nobody signs yet
 
-    try {
-        // Execute the (potentially now signed) transaction
-        const txResponse = await transactionToSubmit.execute(client);
-        const receipt = await txResponse.getReceipt(client);
-        // Strict check for SUCCESS
-        if (receipt.status !== Status.Success) {
-             throw new ReceiptStatusError({ 
-                status: receipt.status,
-                transactionReceipt: receipt,
-                transactionId: txResponse.transactionId
-             });
-        }
-        console.log("Transaction submitted and executed successfully.");
-    } catch(error) {
-         console.error("ERROR during transaction submission/execution:", error);
-         // Log receipt status if available
-         if (error instanceof ReceiptStatusError) {
-             console.error("Receipt Status on Error:", error.status.toString());
-         }
-         throw error; // Re-throw
-    }
+    this.exportedTransaction = join(this.scratchDir(), "transfer.tx");
+    writeTransactionFile(this.exportedTransaction, exportTransaction(transaction));
+    this.signedCopies = [this.exportedTransaction];
+    console.log(`Exported transaction ${transaction.transactionId} to ${this.exportedTransaction}`);
+});
 
-    this.createdTransaction = undefined; // Clear context
-    await delay(5000); // Wait after submission
+When("The {account} account signs the exported transaction", async function (this: HederaWorld, account: ScenarioAccount) {
+    assert.ok(this.exportedTransaction, "No transaction has been exported in this scenario");
+    const signed = await signTransactionBytes(readTransactionFile(this.exportedTransaction), account.key);
+    const copy = join(this.scratchDir(), `transfer.${account.name}.tx`);
+    writeTransactionFile(copy, signed);
+    this.signedCopies.push(copy);
+    console.log(`The ${account.name} account signed the exported transaction into ${copy}`);
 });
 
-// --- Fee Verification Step ---
-Then(/^The first account has paid for the transaction fee$/, async function () {
-    assert.ok(this.account1Id && this.account1Key, "Account 1 context not set for fee check");
-    assert.ok(this.balanceBefore !== undefined, "Balance before transaction not recorded for fee check.");
+Then("The exported transaction cannot be submitted without the signature of the {account} account", async function (this: HederaWorld, account: ScenarioAccount) {
+    const copies = this.signedCopies.map(readTransactionFile);
+    const required = await checkRequiredSigners(this.client, copies[0]);
+    assert.ok(required.some(signer => signer.accountId.equals(account.id) && !signer.signed),
+        `The ${account.name} account ${account.id} should be a required signer that has not signed yet`);
+    await assert.rejects(submitSignedTransaction(this.client, copies),
+        (error: unknown) => error instanceof OfflineSigningError && error.message.includes(account.id.toString()));
+});
+
+When(/^The first account submits the exported transaction with the collected signatures$/, async function (this: HederaWorld) {
+    this.useOperator("first");
+    const response = await submitSignedTransaction(this.client, this.signedCopies.map(readTransactionFile));
+    const receipt = await response.getReceipt(this.client);
+    assert.strictEqual(receipt.status, Status.Success);
+    console.log(`Submitted ${response.transactionId} merged from ${this.signedCopies.length} signed copies`);
+    this.transactionSubmitted = true;
+});
+
+// --- Scheduled Transfer Steps ---
+// The first account schedules the transfer and pays for everything; the other parties only add their signatures to
+// the schedule, one step at a time, and the transfer runs on the network with the approval that completes them.
+
+When(/^The first account schedules the following transfers(?:, expiring in (\d+) seconds)?$/, async function (this: HederaWorld, expiresIn: string | null, table: DataTable) {
+    const scheduler = this.useOperator("first");
+    this.schedule = await scheduleTransfer(this.client, transferLegsFromTable(this, table), {
+        adminKey: scheduler.key.publicKey, // Lets the first account delete the schedule
+        expiresAt: expiresIn ? new Date(Date.now() + Number(expiresIn) * 1000) : undefined
+    });
+    console.log(`Scheduled ${this.schedule.scheduleId}; required signatures: ${describeSignatures(this.schedule.requiredSignatures)}`);
+    this.transactionSubmitted = true; // The balance steps that follow check that nothing moved before the approvals
+});
+
+Then(/^The schedule is waiting for the approval of the (.+) accounts?$/, async function (this: HederaWorld, slots: string) {
+    const schedule = this.scheduled();
+    const status = await waitForScheduleState(this.client, schedule.scheduleId, "pending");
+    const expected = slots.split(/,\s*|\s+and\s+/).map(slot => this.account(slot.trim()).id.toString()).sort();
+    const missing = missingApprovals(schedule, status);
+    assert.deepStrictEqual(missing.map(signature => signature.accountId.toString()).sort(), expected,
+        `Missing approvals: ${describeSignatures(missing)}`);
+});
+
+When("The {account} account approves the schedule", async function (this: HederaWorld, account: ScenarioAccount) {
+    const schedule = this.scheduled();
+    this.useOperator("first");
+    const receipt = await approveSchedule(this.client, schedule.scheduleId, [account.key]);
+    assert.strictEqual(receipt.status, Status.Success);
+    console.log(`The ${account.name} account approved ${schedule.scheduleId}`);
+});
+
+When(/^The first account deletes the schedule$/, async function (this: HederaWorld) {
+    const schedule = this.scheduled();
+    const receipt = await deleteSchedule(this.client, schedule.scheduleId, this.useOperator("first").key);
+    assert.strictEqual(receipt.status, Status.Success);
+});
+
+Then(/^The schedule (?:has )?(executed|been deleted|expired)$/, async function (this: HederaWorld, outcome: string) {
+    const schedule = this.scheduled();
+    const state: ScheduleState = outcome === "been deleted" ? "deleted" : outcome as ScheduleState;
+    await waitForScheduleState(this.client, schedule.scheduleId, state);
+    if (state === "executed") {
+        const receipt = await scheduledReceipt(this.client, schedule);
+        assert.strictEqual(receipt.status, Status.Success, `The scheduled transfer ${schedule.scheduledTransactionId} failed`);
+    }
+});
 
-    client.setOperator(this.account1Id, this.account1Key); // Ensure client can query Acc 1
-    const balanceAfter = (await new AccountBalanceQuery().setAccountId(this.account1Id).execute(client)).hbars;
-    console.log(`Account 1 HBAR balance before fee: ${this.balanceBefore.toString()}, after fee: ${balanceAfter.toString()}`);
+Then("The {account} account can no longer approve the schedule", async function (this: HederaWorld, account: ScenarioAccount) {
+    const schedule = this.scheduled();
+    this.useOperator("first");
+    const closed = [Status.InvalidScheduleId, Status.ScheduleAlreadyDeleted, Status.ScheduleAlreadyExecuted];
+    await assert.rejects(approveSchedule(this.client, schedule.scheduleId, [account.key]),
+        (error: unknown) => (error instanceof ReceiptStatusError || error instanceof PrecheckStatusError) && closed.includes(error.status));
+});
 
-    // Use isLessThan for comparison
-    assert.ok(balanceAfter.toBigNumber().isLessThan(this.balanceBefore.toBigNumber()), "Account 1 HBAR balance did not decrease after paying fee.");
-    console.log("Verified Account 1 HBAR balance decreased (paid fee).");
-    this.balanceBefore = undefined; // Clear context
+// --- Custom Fee Steps ---
+// Read the custom fees the network assessed from the record of the transaction submitted last
+
+// The asset is HBAR or the symbol of a token
+Then("The {account} account collected {amount} {word} in custom fees from the {account} account",
+async function (this: HederaWorld, collector: ScenarioAccount, amount: string, asset: string, payer: ScenarioAccount) {
+    const [assetId, units]: [TransferAsset, bigint] = asset === HBAR
+        ? [HBAR, BigInt(Hbar.fromString(amount).toTinybars().toString())]
+        : [this.token(asset).id, tokenAmount(this.token(asset), amount).units];
+    const fees = assessedFeesOf(await this.submittedRecord());
+    const collected = fees.filter(fee => fee.collector.equals(collector.id) && fee.asset.toString() === assetId.toString());
+    assert.strictEqual(collectedBy(fees, collector.id, assetId), units, `The ${collector.name} account collected ${collectedBy(fees, collector.id, assetId)} units of ${assetName(assetId)}`);
+    assert.ok(collected.some(fee => fee.payers.some(id => id.equals(payer.id))), `The ${payer.name} account did not pay any of the fees`);
 });
 
-// Given('A first hedera account with more than {int} hbar', async function (minHbar: number) {
-//   console.log("--- Setting up Account 1 (Given A first...) ---");
-//   const acc = getAccount(0);
-//   this.account1Id = acc.id;
-//   this.account1Key = acc.key;
-//   // Also set generic context if needed elsewhere
-//   this.account = this.account1Id;
-//   this.privKey = this.account1Key;
+Then("The {account} account paid no custom fees", async function (this: HederaWorld, account: ScenarioAccount) {
+    const fees = assessedFeesOf(await this.submittedRecord());
+    const paid = fees.filter(fee => fee.payers.some(id => id.equals(account.id)));
+    assert.strictEqual(paid.length, 0, `The ${account.name} account paid ${paid.map(fee => `${fee.amount} ${fee.asset} to ${fee.collector}`).join(", ")}`);
+});
 
-//   client.setOperator(this.account1Id, this.account1Key);
-//   console.log(`Operator set to Account 1: ${this.account1Id.toString()}`);
+// --- Fee Verification Step ---
+Then(/^The first account has paid for the transaction fee$/, async function (this: HederaWorld) {
+    const payer = this.account("first");
+    const record = await this.submittedRecord();
+    console.log(`Transaction ${record.transactionId} charged ${Hbar.fromTinybars(record.fee.toString())} to ${record.payer}`);
+
+    assert.ok(record.payer.equals(payer.id), `The transaction was paid for by ${record.payer}, not by the first account ${payer.id}`);
+    assert.ok(record.fee > BigInt(0), "The record shows no transaction fee");
+    // The payer's only hbar movement in the record is the fee
+    assert.strictEqual(netHbarChange(record, payer.id), -record.fee, `The first account's hbar changed by other than the recorded fee of ${record.fee} tinybars`);
+});
 
-//   const balance = await new AccountBalanceQuery().setAccountId(this.account1Id).execute(client);
-//   console.log(`Account 1 ${this.account1Id.toString()} HBAR balance: ${balance.hbars.toString()}`);
-//   assert.ok(balance.hbars.toBigNumber().isGreaterThan(minHbar), `Account 1 ${this.account1Id.toString()} needs more than ${minHbar} hbar, but has ${balance.hbars.toString()}`);
-// });
+Then("The {account} account paid nothing for the transaction", async function (this: HederaWorld, account: ScenarioAccount) {
+    const record = await this.submittedRecord();
+    assert.ok(!record.payer.equals(account.id), `The ${account.name} account paid for the transaction`);
+    assert.strictEqual(netHbarChange(record, account.id), BigInt(0), `The ${account.name} account's hbar balance changed in the transaction`);
+});
 
+Then(/^The transaction fee is between (\S+) and (\S+) hbar$/, async function (this: HederaWorld, min: string, max: string) {
+    const record = await this.submittedRecord();
+    const tinybars = (amount: string) => BigInt(Hbar.fromString(amount).toTinybars().toString());
+    assert.ok(record.fee >= tinybars(min) && record.fee <= tinybars(max),
+        `The transaction fee of ${Hbar.fromTinybars(record.fee.toString())} is not between ${min} and ${max} hbar`);
+});
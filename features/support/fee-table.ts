@@ -0,0 +1,64 @@
+import { DataTable } from "@cucumber/cucumber";
+import { Hbar, PrivateKey } from "@hashgraph/sdk";
+import assert from "node:assert";
+import { CustomFeeSpec, FeeDenomination, SAME_TOKEN } from "../../src/custom-fees";
+import { TokenAmount } from "../../src/token-amount";
+import { HBAR } from "../../src/transfer-planner";
+import { HederaWorld } from "./world";
+
+// Custom fees of a token that is about to be created, from a table with the columns
+//   fee        fixed, fractional or royalty
+//   collector  account slot
+//   amount     "1 HBAR" or "2 HTT" for fixed fees (the symbol of the new token charges the fee in that token), a
+//              fraction like "1/10" for fractional and royalty fees
+// and the optional columns minimum and maximum (in tokens, fractional fees), fallback (like a fixed amount, royalty
+// fees) and exempt ("yes" exempts every collector of the token from the fee).
+export function customFeesFromTable(world: HederaWorld, table: DataTable, token: { symbol: string; decimals: number }): CustomFeeSpec[] {
+    const units = (amount: string, decimals: number) => TokenAmount.parse(amount, { decimals }).units;
+    const fixedAmount = (text: string): { amount: bigint; denomination: FeeDenomination } => {
+        const match = /^(\S+) (\w+)$/.exec(text);
+        assert.ok(match, `A fixed fee amount looks like "1 HBAR" or "2 ${token.symbol}", got "${text}"`);
+        const [, amount, asset] = match;
+        if (asset === HBAR) {
+            return { amount: BigInt(Hbar.fromString(amount).toTinybars().toString()), denomination: HBAR };
+        }
+        if (asset === token.symbol) {
+            return { amount: units(amount, token.decimals), denomination: SAME_TOKEN };
+        }
+        const denominating = world.token(asset);
+        return { amount: units(amount, denominating.decimals), denomination: denominating.id };
+    };
+    const fraction = (text: string) => {
+        const match = /^(\d+)\/(\d+)$/.exec(text);
+        assert.ok(match, `A fractional or royalty fee amount looks like "1/10", got "${text}"`);
+        return { numerator: Number(match[1]), denominator: Number(match[2]) };
+    };
+
+    return table.hashes().map((row): CustomFeeSpec => {
+        const base = { collector: world.account(row.collector).id, allCollectorsExempt: row.exempt === "yes" };
+        switch (row.fee) {
+            case "fixed":
+                return { type: "fixed", ...base, ...fixedAmount(row.amount) };
+            case "fractional":
+                return {
+                    type: "fractional", ...base, ...fraction(row.amount),
+                    min: row.minimum ? units(row.minimum, token.decimals) : undefined,
+                    max: row.maximum ? units(row.maximum, token.decimals) : undefined
+                };
+            case "royalty":
+                return { type: "royalty", ...base, ...fraction(row.amount), fallback: row.fallback ? fixedAmount(row.fallback) : undefined };
+            default:
+                return assert.fail(`Unknown fee type "${row.fee}", expected fixed, fractional or royalty`);
+        }
+    });
+}
+
+// Fractional fees, and fixed fees in the token itself, are paid in the new token
+const paidInNewToken = (fee: CustomFeeSpec) => fee.type === "fractional" || (fee.type === "fixed" && fee.denomination === SAME_TOKEN);
+
+// The keys of the scenario's accounts that collect fees paid in the new token, which sign its creation
+export function feeCollectorKeys(world: HederaWorld, fees: CustomFeeSpec[]): PrivateKey[] {
+    return [...world.accounts.values()]
+        .filter(account => fees.some(fee => paidInNewToken(fee) && fee.collector.equals(account.id)))
+        .map(account => account.key);
+}
@@ -0,0 +1,32 @@
+import { defineParameterType } from "@cucumber/cucumber";
+import { HederaWorld, ScenarioAccount, ScenarioToken } from "./world";
+
+// Parameter types of the Cucumber expressions in the step definitions:
+//   {account}  an ordinal ("first" to "tenth"), "treasury" or any other lower-case alias, e.g. "driver". The account is
+//              set up on first mention, and created when the configured accounts run out (see HederaWorld.provideAccount).
+//   {token}    the symbol of a token created earlier in the scenario
+//   {amount}   a decimal amount like 10 or 10.25, as written; it is read against the token's decimals with TokenAmount
+// A regular expression step, needed where a step captures alternatives, gets the same transformation for a group written
+// as the parameter type's regexp, e.g. ([a-z]+) for an account.
+
+defineParameterType({
+    name: "account",
+    regexp: /[a-z]+/,
+    transformer: async function (this: HederaWorld, name: string): Promise<ScenarioAccount> {
+        return this.accounts.get(name) ?? this.provideAccount(name);
+    }
+});
+
+defineParameterType({
+    name: "token",
+    regexp: /[A-Z][A-Z0-9]*/,
+    transformer: function (this: HederaWorld, symbol: string): ScenarioToken {
+        return this.token(symbol);
+    }
+});
+
+defineParameterType({
+    name: "amount",
+    regexp: /-?\d+(?:\.\d+)?/,
+    transformer: (amount: string) => amount
+});
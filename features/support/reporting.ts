@@ -0,0 +1,77 @@
+import { Hbar } from "@hashgraph/sdk";
+import { AuditLog, auditEntry } from "../../src/audit-log";
+import { CleanupReport } from "../../src/cleanup";
+import { getConfig } from "../../src/config";
+import { CapturedRecord, SubmittedTransaction, totalFees } from "../../src/transaction-records";
+import { formatReportedTransactions, reportedTransaction } from "../../src/transaction-report";
+import type { HederaWorld } from "./world";
+
+// Attachments for the JSON, JUnit and HTML reports configured in cucumber.js, and the audit log of the run. The hooks
+// in world.ts call these.
+
+// Helper: Each submission with its record. A transaction rejected at precheck has none, nor does one whose record
+// cannot be fetched, so that the others are still reported.
+async function withRecords(world: HederaWorld, submissions: SubmittedTransaction[]): Promise<[SubmittedTransaction, CapturedRecord | undefined][]> {
+    const recorded: [SubmittedTransaction, CapturedRecord | undefined][] = [];
+    for (const submitted of submissions) {
+        let record: CapturedRecord | undefined;
+        try {
+            record = submitted.precheckStatus === undefined ? await world.journal.record(world.client, submitted.transactionId) : undefined;
+        } catch (error) {
+            console.warn(`Could not fetch the record of ${submitted.transactionId}: ${error instanceof Error ? error.message : error}`);
+        }
+        recorded.push([submitted, record]);
+    }
+    return recorded;
+}
+
+// Appends the submissions to the audit log with their outcome
+export async function auditTransactions(world: HederaWorld, log: AuditLog | undefined, submissions: SubmittedTransaction[]): Promise<void> {
+    if (log === undefined || submissions.length === 0) {
+        return;
+    }
+    log.append((await withRecords(world, submissions)).map(([submitted, record]) => auditEntry(submitted, record, world.scenario)));
+}
+
+// Attaches the transactions the step that just ran executed, with their explorer links, and prints them when the step
+// failed so that the CI log points at them too
+export async function attachStepTransactions(world: HederaWorld, submissions: SubmittedTransaction[], failed: boolean): Promise<void> {
+    if (submissions.length === 0) {
+        return;
+    }
+    const { explorerUrl: template, network } = getConfig();
+    const transactions = (await withRecords(world, submissions)).map(([submitted, record]) => reportedTransaction(submitted, record, { template, network }));
+    await world.attach(JSON.stringify(transactions, null, 2), "application/json");
+    for (const transaction of transactions) {
+        if (transaction.explorerUrl !== undefined) {
+            world.link(transaction.explorerUrl);
+        }
+    }
+    if (failed) {
+        console.error(`Transactions of the failed step:\n${formatReportedTransactions(transactions)}`);
+    }
+}
+
+// Attaches the IDs of everything the scenario set up or created, and what its transactions cost
+export async function attachScenarioSummary(world: HederaWorld, records: CapturedRecord[]): Promise<void> {
+    const lines = [
+        ...[...world.accounts.values()].map((account) => `account ${account.name}: ${account.id}`),
+        ...[...world.tokens.values()].map((token) => `token ${token.symbol}: ${token.id}`),
+        ...[...world.topics.values()].map((topic) => `topic "${topic.memo}": ${topic.id}`),
+        `${records.length} transaction(s), fees ${Hbar.fromTinybars(totalFees(records).toString())}`
+    ];
+    await world.attach(lines.join("\n"), "text/plain");
+}
+
+// Attaches what the cleanup after the scenario did, and prints what it left behind
+export async function reportCleanup(world: HederaWorld, report: CleanupReport): Promise<void> {
+    if (report.leftovers.length > 0) {
+        console.warn(`Left behind by "${world.scenario}":\n${report.leftovers.map((leftover) => `  - ${leftover}`).join("\n")}`);
+    }
+    if (report.cleaned.length + report.leftovers.length > 0) {
+        await world.attach([
+            "Cleanup:", ...report.cleaned.map((cleaned) => `  ${cleaned}`),
+            ...report.leftovers.map((leftover) => `  left behind: ${leftover}`)
+        ].join("\n"), "text/plain");
+    }
+}
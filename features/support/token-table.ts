@@ -0,0 +1,118 @@
+import { DataTable } from "@cucumber/cucumber";
+import { PrivateKey } from "@hashgraph/sdk";
+import { MAX_TOKEN_DECIMALS, TokenAmount } from "../../src/token-amount";
+import { SupplyType, TOKEN_KEY_ROLES, TokenKeyRole, TokenKind, TokenSpec, TokenSpecError, tokenSpec, validateTokenSpec } from "../../src/token-spec";
+import { HederaWorld, ScenarioAccount, TREASURY_SLOT } from "./world";
+
+// A token specification from a table of settings and values:
+//   name, symbol, memo
+//   type                   fungible or non-fungible
+//   decimals
+//   initial supply         in tokens, e.g. 1000 or 12.5
+//   supply type            infinite or finite
+//   max supply             in tokens, finite supply only
+//   treasury               account slot, "treasury" for the dedicated treasury account; the first account by default
+//   admin key, kyc key, freeze key, wipe key, supply key, fee schedule key, pause key
+//                          the account slot whose key takes the role
+//   freeze default         yes or no
+//   auto renew account     account slot
+//   auto renew period      e.g. "90 days"
+//   expires in             e.g. "100 days"
+// An empty value leaves the setting out, so that an outline's Examples can skip it. Problems with the values and with
+// the spec are reported together, as a TokenSpecError.
+export interface TableTokenSpec {
+    spec: TokenSpec;
+    // Every key the creation needs besides the operator's: the treasury, the admin key and the auto-renew account
+    signers: PrivateKey[];
+    treasury: ScenarioAccount;
+}
+
+const DAY_SECONDS = 86_400;
+
+const KEY_SETTINGS: Record<string, TokenKeyRole> = Object.fromEntries(TOKEN_KEY_ROLES.map(role =>
+    [role.replace(/Key$/, " key").replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase(), role]));
+
+export function tokenSpecFromTable(world: HederaWorld, table: DataTable): TableTokenSpec {
+    const settings = new Map(Object.entries(table.rowsHash()).map(([setting, value]) => [setting.trim().toLowerCase(), value.trim()]));
+    const problems: string[] = [];
+    const value = (setting: string) => {
+        const text = settings.get(setting);
+        settings.delete(setting);
+        return text === "" ? undefined : text;
+    };
+    const account = (setting: string): ScenarioAccount | undefined => {
+        const slot = value(setting);
+        try {
+            return slot === undefined ? undefined : slot === TREASURY_SLOT ? world.loadTreasury() : world.ensureAccount(slot);
+        } catch (error) {
+            problems.push(`${setting}: ${(error as Error).message}`);
+            return undefined;
+        }
+    };
+    const oneOf = <T extends string>(setting: string, choices: readonly T[]): T | undefined => {
+        const text = value(setting);
+        if (text !== undefined && !choices.includes(text as T)) problems.push(`${setting} must be ${choices.join(" or ")}, got "${text}"`);
+        return choices.includes(text as T) ? text as T : undefined;
+    };
+    const days = (setting: string): number | undefined => {
+        const text = value(setting);
+        const match = text === undefined ? null : /^(\d+) days?$/.exec(text);
+        if (text !== undefined && !match) problems.push(`${setting} must look like "90 days", got "${text}"`);
+        return match ? Number(match[1]) * DAY_SECONDS : undefined;
+    };
+
+    const name = value("name") ?? "";
+    const symbol = value("symbol") ?? "";
+    const type = oneOf<TokenKind>("type", ["fungible", "non-fungible"]);
+    const decimalsText = value("decimals");
+    const decimals = decimalsText === undefined ? undefined : Number(decimalsText);
+    if (decimals !== undefined && !(Number.isInteger(decimals) && decimals >= 0 && decimals <= MAX_TOKEN_DECIMALS)) {
+        // The amounts cannot be read without them
+        throw new TokenSpecError([...problems, `decimals must be between 0 and ${MAX_TOKEN_DECIMALS}, got "${decimalsText}"`]);
+    }
+    const amount = (setting: string): TokenAmount | undefined => {
+        const text = value(setting);
+        try {
+            return text === undefined ? undefined : TokenAmount.parse(text, { decimals: decimals ?? 0, symbol });
+        } catch (error) {
+            problems.push(`${setting}: ${(error as Error).message}`);
+            return undefined;
+        }
+    };
+    const initialSupply = amount("initial supply");
+    const supplyType = oneOf<SupplyType>("supply type", ["infinite", "finite"]);
+    const maxSupply = amount("max supply");
+    const treasury = account("treasury") ?? world.account("first");
+    const holders = new Map<TokenKeyRole, ScenarioAccount>();
+    for (const [setting, role] of Object.entries(KEY_SETTINGS)) {
+        const holder = account(setting);
+        if (holder) holders.set(role, holder);
+    }
+    const freezeDefault = oneOf("freeze default", ["yes", "no"]);
+    const memo = value("memo");
+    const autoRenewAccount = account("auto renew account");
+    const autoRenewPeriodSeconds = days("auto renew period");
+    const expiresIn = days("expires in");
+    problems.push(...[...settings.keys()].map(setting => `unknown setting "${setting}"`));
+
+    const spec = tokenSpec({
+        name, symbol, treasury: treasury.id,
+        ...(type && { type }),
+        ...(decimals !== undefined && { decimals }),
+        ...(initialSupply && { initialSupply }),
+        ...(supplyType && { supplyType }),
+        ...(maxSupply && { maxSupply }),
+        keys: Object.fromEntries([...holders].map(([role, holder]) => [role, holder.key.publicKey])),
+        ...(freezeDefault && { freezeDefault: freezeDefault === "yes" }),
+        ...(memo !== undefined && { memo }),
+        ...(autoRenewAccount && { autoRenewAccount: autoRenewAccount.id }),
+        ...(autoRenewPeriodSeconds !== undefined && { autoRenewPeriodSeconds }),
+        ...(expiresIn !== undefined && { expirationTime: new Date(Date.now() + expiresIn * 1000) })
+    });
+    problems.push(...validateTokenSpec(spec));
+    if (problems.length > 0) {
+        throw new TokenSpecError(problems);
+    }
+    const signing = [treasury, holders.get("adminKey"), autoRenewAccount].filter((signer): signer is ScenarioAccount => signer !== undefined);
+    return { spec, signers: [...new Set(signing.map(signer => signer.key))], treasury };
+}
@@ -0,0 +1,359 @@
+import { After, AfterAll, AfterStep, Before, BeforeAll, IWorldOptions, setWorldConstructor, Status, World } from "@cucumber/cucumber";
+import { AccountId, Client, Hbar, Key, PrivateKey, PublicKey, Query, TokenId, TopicId, Transaction, TransactionId, TransactionReceipt, TransactionResponse } from "@hashgraph/sdk";
+import assert from "node:assert";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { AccountRegistry } from "../../src/account-registry";
+import { AuditLog } from "../../src/audit-log";
+import { checkOperatorBalances, ScenarioSpending, SpendingBudget } from "../../src/budget";
+import { CleanupReport, cleanUpResources, deleteAccounts, keepResources, scenarioResources } from "../../src/cleanup";
+import { createClient } from "../../src/client";
+import { getConfig } from "../../src/config";
+import { executeWithRetry, logAttempt, SubmissionAttempt } from "../../src/retry";
+import type { ScheduledTransfer } from "../../src/scheduling";
+import { SimulatedClient } from "../../src/simulator";
+import type { TokenSpec } from "../../src/token-spec";
+import type { PublishedTopicMessage } from "../../src/topic-publisher";
+import { CapturedRecord, formatFeeSummary, ScenarioFees, SubmittedTransaction, TransactionJournal } from "../../src/transaction-records";
+import type { TransferPlan } from "../../src/transfer-planner";
+import { attachScenarioSummary, attachStepTransactions, auditTransactions, reportCleanup } from "./reporting";
+
+// The dedicated treasury of tokens whose supply is handed out to the scenario accounts
+export const TREASURY_SLOT = "treasury";
+
+// An account as the feature files name it: an ordinal slot ("first" to "tenth"), an alias like "driver", or the
+// treasury. Names are assigned to accounts by the scenario's AccountRegistry (src/account-registry.ts).
+export interface ScenarioAccount {
+  name: string;
+  id: AccountId;
+  key: PrivateKey;
+}
+
+export interface ScenarioToken {
+  id: TokenId;
+  name: string;
+  symbol: string;
+  decimals: number;
+  treasury: ScenarioAccount;
+  // Holds the freeze, KYC, pause, wipe and supply keys of a token created "managed by" it
+  manager?: ScenarioAccount;
+  // What the token was created with
+  spec?: TokenSpec;
+}
+
+export interface ScenarioTopic {
+  id: TopicId;
+  memo: string;
+  adminKey?: Key;
+  submitKey?: Key;
+  // Messages published in this scenario, as acknowledged by their receipts
+  published: PublishedTopicMessage[];
+}
+
+
+// Per-scenario state shared by all step files. Cucumber creates a new instance for every scenario, so nothing
+// leaks from one scenario into the next; the hooks below additionally release the client when a scenario ends.
+export class HederaWorld extends World {
+  readonly client: Client = createClient();
+  // Records every transaction the client submits, for the fee steps and the fee summary of the run
+  readonly journal = new TransactionJournal(this.client);
+
+  // The name of the scenario, for the audit log
+  scenario = "";
+  // Every account set up in this scenario, by name
+  readonly accounts = new Map<string, ScenarioAccount>();
+  readonly registry = new AccountRegistry(getConfig().accounts);
+  readonly tokens = new Map<string, ScenarioToken>(); // by symbol
+  readonly topics = new Map<string, ScenarioTopic>(); // by memo
+  private lastToken?: ScenarioToken;
+  private lastTopic?: ScenarioTopic;
+
+  // Key built by a "threshold key" step, possibly nested
+  thresholdKey?: Key;
+  // Transfer planned by a "When ... creates a transaction" step and waiting to be submitted
+  pendingTransfer?: TransferPlan;
+  // Transfer scheduled by a "schedules the following transfers" step, waiting for approvals on the network
+  schedule?: ScheduledTransfer;
+  // Set once the pending transaction was submitted; balance steps then assert instead of setting up balances
+  transactionSubmitted = false;
+  // ID of the transaction submitted last, to look up its record
+  submittedTransactionId?: TransactionId;
+  // Every attempt of the submissions that retry transient failures, in order
+  submissionAttempts: SubmissionAttempt[] = [];
+  // File of the transaction exported for offline signing, followed by the signed copies collected for it
+  exportedTransaction?: string;
+  signedCopies: string[] = [];
+  // Replaces the configured spend limit of the scenario, and applies even where the budget is bypassed
+  scenarioSpendLimit?: Hbar;
+  // What a "cleans up after itself" step did, ahead of the cleanup after the scenario
+  cleanupReport?: CleanupReport;
+  private scratch?: string;
+  // Submissions already attached to the report of an earlier step
+  private reportedSubmissions = 0;
+
+  constructor(options: IWorldOptions) {
+    super(options);
+    // Nothing is submitted once the scenario or the run reached its spend limit
+    this.journal.guard = async () => {
+      if (budget.config.enforced || this.scenarioSpendLimit !== undefined) {
+        budget.check(await this.spending(), this.scenarioSpendLimit);
+      }
+    };
+  }
+
+  // Sets up the configured account that the registry assigns to the name; fails when none is left
+  loadAccount(slot: string): ScenarioAccount {
+    const account = this.registry.claim(slot);
+    this.accounts.set(slot, account);
+    return account;
+  }
+
+  // Sets up the account with the name, creating one once the configured accounts run out
+  async provideAccount(name: string): Promise<ScenarioAccount> {
+    const account = await this.registry.resolve(this.client, name);
+    this.accounts.set(name, account);
+    return account;
+  }
+
+  account(slot: string): ScenarioAccount {
+    const account = this.accounts.get(slot);
+    assert.ok(account, `The ${slot} account has not been set up in this scenario`);
+    return account;
+  }
+
+  // The account in the slot, loading it first if an earlier step did not
+  ensureAccount(slot: string): ScenarioAccount {
+    return this.accounts.get(slot) ?? this.loadAccount(slot);
+  }
+
+  // Resolves an account slot named in a key structure, loading the account if needed
+  publicKey(slot: string): PublicKey {
+    return this.ensureAccount(slot).key.publicKey;
+  }
+
+  // The private keys of every account set up in this scenario, i.e. everyone who could sign
+  availableKeys(): PrivateKey[] {
+    return [...this.accounts.values()].map((account) => account.key);
+  }
+
+  loadTreasury(): ScenarioAccount {
+    return this.loadAccount(TREASURY_SLOT);
+  }
+
+  // Makes the account in the slot pay for (and sign) everything the client executes from now on
+  useOperator(slot: string): ScenarioAccount {
+    const account = this.account(slot);
+    this.client.setOperator(account.id, account.key);
+    return account;
+  }
+
+  addToken(token: ScenarioToken): ScenarioToken {
+    this.tokens.set(token.symbol, token);
+    this.lastToken = token;
+    return token;
+  }
+
+  // The token with the symbol, or the one created last
+  token(symbol?: string): ScenarioToken {
+    const token = symbol === undefined ? this.lastToken : this.tokens.get(symbol);
+    assert.ok(token, symbol === undefined ? "No token has been created in this scenario" : `No token with symbol ${symbol} in this scenario`);
+    return token;
+  }
+
+  addTopic(topic: ScenarioTopic): ScenarioTopic {
+    this.topics.set(topic.memo, topic);
+    this.lastTopic = topic;
+    return topic;
+  }
+
+  // The topic with the memo, or the one created last
+  topic(memo?: string): ScenarioTopic {
+    const topic = memo === undefined ? this.lastTopic : this.topics.get(memo);
+    assert.ok(topic, memo === undefined ? "No topic has been created in this scenario" : `No topic with memo "${memo}" in this scenario`);
+    return topic;
+  }
+
+  // A directory for the files written by this scenario, removed when the scenario ends
+  scratchDir(): string {
+    this.scratch ??= mkdtempSync(join(tmpdir(), "hedera-scenario-"));
+    return this.scratch;
+  }
+
+  scheduled(): ScheduledTransfer {
+    assert.ok(this.schedule, "No transfer has been scheduled in this scenario");
+    return this.schedule;
+  }
+
+  submittedTransaction(): TransactionId {
+    assert.ok(this.submittedTransactionId, "No transaction has been submitted in this scenario");
+    return this.submittedTransactionId;
+  }
+
+  // Submits through the scenario's journal (see submitTransaction in src/transaction-records.ts), which notes the
+  // transaction for its record and refuses it once a spend limit is reached
+  submit(transaction: Transaction): Promise<TransactionResponse> {
+    return this.journal.submit(this.client, transaction);
+  }
+
+  // Executes a query the same way (see executeQuery), which adds what a paid one paid to the scenario's spend
+  query<T>(query: Query<T>): Promise<T> {
+    return this.journal.query(this.client, query);
+  }
+
+  // Submits with the retry policy of src/retry.ts, so a transient network failure does not fail the scenario
+  submitWithRetry(transaction: Transaction): Promise<TransactionReceipt> {
+    return executeWithRetry(this.client, transaction, {}, (attempt) => {
+      this.submissionAttempts.push(attempt);
+      logAttempt(attempt);
+    });
+  }
+
+  // What the scenario spent so far, with the records of its transactions captured
+  async spending(): Promise<ScenarioSpending> {
+    const records = await this.journal.captureAll(this.client);
+    return { records, unrecorded: this.journal.unrecorded(), queryPayments: this.journal.queryPayments() };
+  }
+
+  // The record of the transaction submitted last
+  async submittedRecord(): Promise<CapturedRecord> {
+    const transactionId = this.submittedTransaction();
+    const record = await this.journal.record(this.client, transactionId);
+    assert.ok(record, `The network has no record of transaction ${transactionId}`);
+    return record;
+  }
+
+  // The transactions submitted since the last call, i.e. by the step that just ran
+  newSubmissions(): SubmittedTransaction[] {
+    const submissions = this.journal.submissions();
+    const fresh = submissions.slice(this.reportedSubmissions);
+    this.reportedSubmissions = submissions.length;
+    return fresh;
+  }
+
+  // The audit log of the run; there is none when HEDERA_AUDIT_DIR is "none"
+  auditLog(): AuditLog {
+    assert.ok(auditLog, "This run writes no audit log");
+    return auditLog;
+  }
+
+  // Deletes what this scenario created on the network and dissociates its accounts, as far as their keys allow. The
+  // accounts created for the scenario are deleted last, their hbar going back to the configured operator.
+  async cleanUp(): Promise<CleanupReport> {
+    const records = await this.journal.captureAll(this.client);
+    const resources = await cleanUpResources(this.client, scenarioResources(this.journal.submissions(), records), [...this.accounts.values()]);
+    const accounts = await deleteAccounts(this.client, this.registry.provisioned(), AccountId.fromString(getConfig().operator.id));
+    return { cleaned: [...resources.cleaned, ...accounts.cleaned], leftovers: [...resources.leftovers, ...accounts.leftovers] };
+  }
+
+  takePendingTransfer(): TransferPlan {
+    const transfer = this.pendingTransfer;
+    assert.ok(transfer, "No transaction has been created in this scenario");
+    this.pendingTransfer = undefined;
+    return transfer;
+  }
+
+  reset(): void {
+    this.accounts.clear();
+    this.tokens.clear();
+    this.topics.clear();
+    this.lastToken = undefined;
+    this.lastTopic = undefined;
+    this.thresholdKey = undefined;
+    this.pendingTransfer = undefined;
+    this.schedule = undefined;
+    this.transactionSubmitted = false;
+    this.submittedTransactionId = undefined;
+    this.submissionAttempts = [];
+    this.exportedTransaction = undefined;
+    this.signedCopies = [];
+    this.scenarioSpendLimit = undefined;
+    this.cleanupReport = undefined;
+    this.journal.clear();
+    this.reportedSubmissions = 0;
+    // Connection failures a scenario injected but did not run into
+    if (this.client instanceof SimulatedClient) {
+      this.client.ledger.clearFaults();
+    }
+    if (this.scratch !== undefined) {
+      rmSync(this.scratch, { recursive: true, force: true });
+      this.scratch = undefined;
+    }
+  }
+}
+
+setWorldConstructor(HederaWorld);
+
+let budget: SpendingBudget;
+// Every transaction of the run (src/audit-log.ts)
+let auditLog: AuditLog | undefined;
+
+// A run against a real network does not start while one of the accounts that pay is short of hbar
+// (the operator and the configured accounts)
+BeforeAll(async function () {
+  const config = getConfig();
+  const payers = [...new Set([config.operator, ...config.accounts].map((account) => account.id))].map((id) => AccountId.fromString(id));
+  budget = new SpendingBudget(config.budget, payers);
+  auditLog = AuditLog.forRun();
+  const { enforced, minOperatorBalance } = config.budget;
+  if (enforced && minOperatorBalance !== undefined) {
+    const client = createClient();
+    try {
+      await checkOperatorBalances(client, payers, minOperatorBalance);
+    } finally {
+      client.close();
+    }
+  }
+});
+
+Before(function (this: HederaWorld, { pickle }) {
+  this.reset();
+  this.scenario = pickle.name;
+});
+
+AfterStep(async function (this: HederaWorld, { result }) {
+  const submissions = this.newSubmissions();
+  try {
+    await auditTransactions(this, auditLog, submissions);
+  } catch (error) {
+    console.warn(`Could not append the transactions of the step to the audit log: ${error instanceof Error ? error.message : error}`);
+  }
+  try {
+    await attachStepTransactions(this, submissions, result.status === Status.FAILED);
+  } catch (error) {
+    console.warn(`Could not report the transactions of the step: ${error instanceof Error ? error.message : error}`);
+  }
+});
+
+// Fees charged in each scenario of the run, printed when the run ends
+const scenarioFees: ScenarioFees[] = [];
+
+After(async function (this: HederaWorld, { pickle }) {
+  // Unless the scenario's resources are kept for debugging
+  if (!keepResources(pickle.tags.map((tag) => tag.name))) {
+    try {
+      await reportCleanup(this, await this.cleanUp());
+    } catch (error) {
+      console.warn(`Could not clean up after "${pickle.name}": ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  try {
+    // Submitted by hooks rather than steps
+    await auditTransactions(this, auditLog, this.newSubmissions());
+    const spending = await this.spending();
+    const { records } = spending;
+    scenarioFees.push({ scenario: pickle.name, records });
+    budget.endScenario(spending);
+    await attachScenarioSummary(this, records);
+  } catch (error) {
+    console.warn(`Could not capture the transaction records of "${pickle.name}": ${error instanceof Error ? error.message : error}`);
+  }
+  this.reset();
+  this.client.close();
+});
+
+AfterAll(function () {
+  if (scenarioFees.length > 0) {
+    console.log(`\n${formatFeeSummary(scenarioFees)}`);
+  }
+});
@@ -0,0 +1,87 @@
+Feature: Token Administration
+  The holders of a token's keys freeze accounts, grant KYC, pause, wipe, burn, update and delete it
+
+  Scenario: Freeze an account for a token
+    Given A first hedera account with more than 10 hbar
+    And A second Hedera account
+    And A token named Test Token (HTT) with 1000 tokens managed by the first account
+    And The first account holds 100 HTT tokens
+    And The second account holds 50 HTT tokens
+    When The first account freezes the token for the second account
+    Then The second account is frozen for the token
+    And A transfer of 10 HTT tokens from the first account to the second account fails with ACCOUNT_FROZEN_FOR_TOKEN
+    And A transfer of 10 HTT tokens from the second account to the first account fails with ACCOUNT_FROZEN_FOR_TOKEN
+    When The first account unfreezes the token for the second account
+    Then The second account is unfrozen for the token
+    And A transfer of 10 HTT tokens from the first account to the second account succeeds
+    And The second account holds 60 HTT tokens
+
+  Scenario: Only accounts granted KYC can receive a token
+    Given A first hedera account with more than 10 hbar
+    And A second Hedera account
+    And A token named Test Token (HTT) with 1000 tokens managed by the first account
+    And The first account holds 100 HTT tokens
+    And The second account holds 0 HTT tokens
+    When The first account revokes KYC for the token from the second account
+    Then The second account has no KYC for the token
+    And A transfer of 10 HTT tokens from the first account to the second account fails with ACCOUNT_KYC_NOT_GRANTED_FOR_TOKEN
+    When The first account grants KYC for the token to the second account
+    Then The second account has KYC for the token
+    And A transfer of 10 HTT tokens from the first account to the second account succeeds
+    And The second account holds 10 HTT tokens
+
+  Scenario: Pause all transfers of a token
+    Given A first hedera account with more than 10 hbar
+    And A second Hedera account
+    And A token named Test Token (HTT) with 1000 tokens managed by the first account
+    And The first account holds 100 HTT tokens
+    And The second account holds 0 HTT tokens
+    When The first account pauses the token
+    Then The token is paused
+    And A transfer of 10 HTT tokens from the first account to the second account fails with TOKEN_IS_PAUSED
+    And The first account fails to wipe 10 HTT tokens from the first account with TOKEN_IS_PAUSED
+    When The first account unpauses the token
+    Then The token is unpaused
+    And A transfer of 10 HTT tokens from the first account to the second account succeeds
+    And The second account holds 10 HTT tokens
+
+  Scenario: Wipe tokens from an account and burn them from the treasury
+    Given A first hedera account with more than 10 hbar
+    And A second Hedera account
+    And A token named Test Token (HTT) with 1000 tokens managed by the first account
+    And The second account holds 50 HTT tokens
+    When The first account wipes 20 HTT tokens from the second account
+    Then The second account holds 30 HTT tokens
+    And The total supply of the token is 980
+    And The first account fails to wipe 10 HTT tokens from the treasury account with CANNOT_WIPE_TOKEN_TREASURY_ACCOUNT
+    And The first account fails to wipe 40 HTT tokens from the second account with INVALID_WIPING_AMOUNT
+    When The first account burns 100 HTT tokens
+    Then The total supply of the token is 880
+
+  Scenario: Update the name, symbol, treasury and keys of a token
+    Given A first hedera account with more than 10 hbar
+    And A second Hedera account
+    And A token named Test Token (HTT) with 1000 tokens managed by the first account
+    And The second account holds 0 HTT tokens
+    When The first account updates the token with the following changes
+      | name      | Renamed Token |
+      | symbol    | RTT           |
+      | treasury  | second        |
+      | pause key | second        |
+    Then The token has the name "Renamed Token"
+    And The token has the symbol "RTT"
+    And The second account is the treasury of the token
+    And The second account holds 1000 RTT tokens
+    And The first account fails to pause the token with INVALID_SIGNATURE
+    When The second account pauses the token
+    Then The token is paused
+
+  Scenario: A deleted token can no longer be transferred
+    Given A first hedera account with more than 10 hbar
+    And A second Hedera account
+    And A token named Test Token (HTT) with 1000 tokens managed by the first account
+    And The first account holds 100 HTT tokens
+    And The second account holds 0 HTT tokens
+    When The first account deletes the token
+    Then The token is deleted
+    And A transfer of 10 HTT tokens from the first account to the second account fails with TOKEN_WAS_DELETED
@@ -22,6 +22,70 @@ Feature: Token Service Use Cases
     And The token is owned by the account
     And An attempt to mint tokens fails
 
+  Scenario Outline: Create a token from a specification
+    Given A Hedera account with more than 10 hbar
+    When I create a token with the following specification
+      | name           | Spec Token    |
+      | symbol         | SPT           |
+      | decimals       | <decimals>    |
+      | initial supply | <initial>     |
+      | supply type    | <supply type> |
+      | max supply     | <max>         |
+      | admin key      | first         |
+      | supply key     | <supply key>  |
+      | memo           | <memo>        |
+    Then The token matches its specification
+    And The token has <decimals> decimals
+    And The total supply of the token is <initial>
+
+    Examples:
+      | decimals | initial | supply type | max    | supply key | memo           |
+      | 0        | 1000    | finite      | 5000   | first      |                |
+      | 8        | 12.5    | infinite    |        | first      | Eight decimals |
+      | 2        | 250.75  | finite      | 250.75 |            | Fixed supply   |
+
+  Scenario: Create a token with a dedicated treasury, every key and auto-renewal
+    Given A Hedera account with more than 10 hbar
+    And A second Hedera account
+    When I create a token with the following specification
+      | name               | Governed Token |
+      | symbol             | GOV            |
+      | decimals           | 4              |
+      | initial supply     | 100.0001       |
+      | treasury           | treasury       |
+      | admin key          | first          |
+      | kyc key            | second         |
+      | freeze key         | second         |
+      | wipe key           | second         |
+      | supply key         | first          |
+      | fee schedule key   | first          |
+      | pause key          | second         |
+      | freeze default     | yes            |
+      | auto renew account | first          |
+      | auto renew period  | 45 days        |
+    Then The token matches its specification
+    And The total supply of the token is 100.0001
+
+  Scenario Outline: An invalid token specification is refused before it is submitted
+    Given A Hedera account with more than 10 hbar
+    Then The following token specification is refused because <problem>
+      | name              | Spec Token    |
+      | symbol            | SPT           |
+      | decimals          | <decimals>    |
+      | initial supply    | <initial>     |
+      | supply type       | <supply type> |
+      | max supply        | <max>         |
+      | auto renew period | <renewal>     |
+
+    Examples:
+      | decimals | initial | supply type | max | renewal | problem                                                 |
+      | 2        | 20      | finite      | 10  |         | the initial supply 20 SPT exceeds the max supply 10 SPT |
+      | 2        | 1.234   | infinite    |     |         | "1.234" has 3 decimal(s), but the token has only 2      |
+      | 2        | 5       | infinite    | 10  |         | only a finite supply has a max supply                   |
+      | 2        | 5       | finite      |     |         | a finite supply needs a max supply above 0              |
+      | 19       | 0       | infinite    |     |         | decimals must be between 0 and 18                       |
+      | 0        | 1       | infinite    |     | 7 days  | the auto-renew period must be between 2592000 and       |
+
   Scenario: Transfer tokens between 2 accounts
     Given A first hedera account with more than 10 hbar
     And A second Hedera account
@@ -33,6 +97,17 @@ Feature: Token Service Use Cases
     Then The second account holds 10 HTT tokens
     And The first account holds 90 HTT tokens
 
+  Scenario: Transfer fractions of a token
+    Given A first hedera account with more than 10 hbar
+    And A second Hedera account
+    And A token named Test Token (HTT) with 1000 tokens
+    And The first account holds 100.5 HTT tokens
+    And The second account holds 0.01 HTT tokens
+    When The first account creates a transaction to transfer 10.25 HTT tokens to the second account
+    And The first account submits the transaction
+    Then The second account holds 10.26 HTT tokens
+    And The first account holds 90.25 HTT tokens
+
   Scenario: Create a token transfer transaction paid for by the recipient
     Given A first hedera account with more than 10 hbar
     And A second Hedera account
@@ -44,6 +119,44 @@ Feature: Token Service Use Cases
     Then The second account holds 90 HTT tokens
     And The first account holds 10 HTT tokens
     And The first account has paid for the transaction fee
+    And The second account paid nothing for the transaction
+    And The transaction fee is between 0.0001 and 0.1 hbar
+
+  Scenario: A transfer whose response got lost is not submitted again
+    Given A first hedera account with more than 10 hbar
+    And A second Hedera account
+    And A token named Test Token (HTT) with 1000 tokens
+    And The first account holds 100 HTT tokens
+    And The second account holds 0 HTT tokens
+    When The first account creates a transaction to transfer 10 HTT tokens to the second account
+    And The network loses the response of the next 1 submission
+    And The first account submits the transaction
+    Then The submission ended as "already executed" on attempt 2
+    And The first account holds 90 HTT tokens
+    And The second account holds 10 HTT tokens
+
+  Scenario: A transfer whose request got lost is submitted again with the same transaction ID
+    Given A first hedera account with more than 10 hbar
+    And A second Hedera account
+    And A token named Test Token (HTT) with 1000 tokens
+    And The first account holds 100 HTT tokens
+    And The second account holds 0 HTT tokens
+    When The first account creates a transaction to transfer 10 HTT tokens to the second account
+    And The network loses the request of the next 1 submission
+    And The first account submits the transaction
+    Then The submission ended as "executed" on attempt 2
+    And The first account holds 90 HTT tokens
+    And The second account holds 10 HTT tokens
+
+  Scenario: A transfer is given up when every attempt fails
+    Given A first hedera account with more than 10 hbar
+    And A second Hedera account
+    And A token named Test Token (HTT) with 1000 tokens
+    And The first account holds 100 HTT tokens
+    And The second account holds 0 HTT tokens
+    When The first account creates a transaction to transfer 10 HTT tokens to the second account
+    And The network loses the request of the next 3 submissions
+    Then The first account fails to submit the transaction after 3 attempts
 
   Scenario: Create a multi party token transfer transaction
     Given A token named Test Token (HTT) with 1000 tokens
@@ -51,10 +164,176 @@ Feature: Token Service Use Cases
     And A second Hedera account with 0 hbar and 100 HTT tokens
     And A third Hedera account with 0 hbar and 100 HTT tokens
     And A fourth Hedera account with 0 hbar and 100 HTT tokens
-    When A transaction is created to transfer 10 HTT tokens out of the first and second account and 5 HTT tokens into the third account and 15 HTT tokens into the fourth account
+    When A transaction is created with the following transfers
+      | account | asset | amount |
+      | first   | HTT   | -10    |
+      | second  | HTT   | -10    |
+      | third   | HTT   | 5      |
+      | fourth  | HTT   | 15     |
+    Then The transaction requires the signatures of the first and second accounts
     And The first account submits the transaction
     Then The first account holds 90 HTT tokens
     And The second account holds 90 HTT tokens
     And The third account holds 105 HTT tokens
     And The fourth account holds 115 HTT tokens
 
+  Scenario: Create a token transfer between eight parties
+    Given A token named Test Token (HTT) with 1000 tokens
+    And A first hedera account with more than 10 hbar and 100 HTT tokens
+    And A second Hedera account with 0 hbar and 100 HTT tokens
+    And A third Hedera account with 0 hbar and 50 HTT tokens
+    And A fourth Hedera account with 0 hbar and 0 HTT tokens
+    And A fifth Hedera account with 0 hbar and 0 HTT tokens
+    And A driver Hedera account with 0 hbar and 20 HTT tokens
+    And A rider Hedera account with 0 hbar and 0 HTT tokens
+    And A courier Hedera account with 0 hbar and 0 HTT tokens
+    When A transaction is created with the following transfers
+      | account | asset | amount |
+      | first   | HTT   | -30    |
+      | second  | HTT   | -25    |
+      | third   | HTT   | -5     |
+      | driver  | HTT   | -20    |
+      | fourth  | HTT   | 10     |
+      | fifth   | HTT   | 15     |
+      | rider   | HTT   | 25     |
+      | courier | HTT   | 30     |
+    Then The transaction requires the signatures of the first, second, third and driver accounts
+    And The first account submits the transaction
+    Then The first account holds 70 HTT tokens
+    And The second account holds 75 HTT tokens
+    And The third account holds 45 HTT tokens
+    And The driver account holds 0 HTT tokens
+    And The fourth account holds 10 HTT tokens
+    And The fifth account holds 15 HTT tokens
+    And The rider account holds 25 HTT tokens
+    And The courier account holds 30 HTT tokens
+
+  Scenario: Create a multi party transfer of hbar and tokens
+    Given A token named Test Token (HTT) with 1000 tokens
+    And A first hedera account with more than 10 hbar and 100 HTT tokens
+    And A second Hedera account with 0 hbar and 100 HTT tokens
+    And A third Hedera account with 0 hbar and 100 HTT tokens
+    When A transaction is created with the following transfers
+      | account | asset | amount |
+      | first   | HBAR  | -1     |
+      | third   | HBAR  | 1      |
+      | second  | HTT   | -20    |
+      | third   | HTT   | 20     |
+    Then The transaction requires the signatures of the first and second accounts
+    When The first account submits the transaction
+    Then The second account holds 80 HTT tokens
+    And The third account holds 120 HTT tokens
+
+  Scenario: Reject a transfer that does not net to zero
+    Given A token named Test Token (HTT) with 1000 tokens
+    And A first hedera account with more than 10 hbar and 100 HTT tokens
+    And A second Hedera account with 0 hbar and 100 HTT tokens
+    Then Planning the following transfers fails because HTT nets to -5
+      | account | asset | amount |
+      | first   | HTT   | -10    |
+      | second  | HTT   | 5      |
+
+
+  Scenario: Collect the signatures for a token transfer offline
+    Given A first hedera account with more than 10 hbar
+    And A second Hedera account
+    And A token named Test Token (HTT) with 1000 tokens
+    And The second account holds 100 HTT tokens
+    And The first account holds 0 HTT tokens
+    When The first account exports a transaction to transfer 10 HTT tokens from the second account to the first account
+    Then The exported transaction cannot be submitted without the signature of the second account
+    When The second account signs the exported transaction
+    And The first account submits the exported transaction with the collected signatures
+    Then The second account holds 90 HTT tokens
+    And The first account holds 10 HTT tokens
+
+  Scenario: Schedule a multi party transfer that runs once every sender approved
+    Given A token named Test Token (HTT) with 1000 tokens
+    And A first hedera account with more than 10 hbar and 100 HTT tokens
+    And A second Hedera account with 0 hbar and 100 HTT tokens
+    And A third Hedera account with 0 hbar and 100 HTT tokens
+    And A fourth Hedera account with 0 hbar and 100 HTT tokens
+    When The first account schedules the following transfers
+      | account | asset | amount |
+      | second  | HTT   | -10    |
+      | third   | HTT   | -10    |
+      | fourth  | HTT   | 20     |
+    Then The schedule is waiting for the approval of the second and third accounts
+    When The second account approves the schedule
+    Then The schedule is waiting for the approval of the third account
+    And The fourth account holds 100 HTT tokens
+    When The third account approves the schedule
+    Then The schedule has executed
+    And The second account holds 90 HTT tokens
+    And The third account holds 90 HTT tokens
+    And The fourth account holds 120 HTT tokens
+    And The third account can no longer approve the schedule
+
+  Scenario: A deleted schedule never runs
+    Given A token named Test Token (HTT) with 1000 tokens
+    And A first hedera account with more than 10 hbar and 100 HTT tokens
+    And A second Hedera account with 0 hbar and 100 HTT tokens
+    And A third Hedera account with 0 hbar and 100 HTT tokens
+    When The first account schedules the following transfers
+      | account | asset | amount |
+      | second  | HTT   | -10    |
+      | third   | HTT   | 10     |
+    And The first account deletes the schedule
+    Then The schedule has been deleted
+    And The second account can no longer approve the schedule
+    And The third account holds 100 HTT tokens
+
+  Scenario: A schedule that is not approved in time expires
+    Given A token named Test Token (HTT) with 1000 tokens
+    And A first hedera account with more than 10 hbar and 100 HTT tokens
+    And A second Hedera account with 0 hbar and 100 HTT tokens
+    And A third Hedera account with 0 hbar and 100 HTT tokens
+    When The first account schedules the following transfers, expiring in 3 seconds
+      | account | asset | amount |
+      | second  | HTT   | -10    |
+      | third   | HTT   | 10     |
+    Then The schedule is waiting for the approval of the second account
+    And The schedule expired
+    And The second account can no longer approve the schedule
+    And The third account holds 100 HTT tokens
+
+  Scenario: Transfer a token with a fractional fee
+    Given A first hedera account with more than 10 hbar
+    And A second Hedera account
+    And A third Hedera account with 0 hbar
+    And A token named Test Token (HTT) with 1000 tokens and the following custom fees
+      | fee        | collector | amount | minimum | maximum |
+      | fractional | third     | 1/10   | 1       | 5       |
+    And The first account holds 100 HTT tokens
+    And The second account holds 0 HTT tokens
+    When The first account creates a transaction to transfer 10 HTT tokens to the second account
+    And The first account submits the transaction
+    Then The second account holds 9 HTT tokens
+    And The first account holds 90 HTT tokens
+    And The third account holds 1 HTT tokens
+    And The third account collected 1 HTT in custom fees from the second account
+
+  Scenario: Fee collectors can be exempt from custom fees
+    Given A first hedera account with more than 10 hbar
+    And A second Hedera account
+    And A third Hedera account with 0 hbar
+    And A fourth Hedera account with 0 hbar
+    And A token named Test Token (HTT) with 1000 tokens and the following custom fees
+      | fee   | collector | amount | exempt |
+      | fixed | third     | 1 HBAR | yes    |
+      | fixed | fourth    | 2 HTT  | no     |
+    And The first account holds 100 HTT tokens
+    And The second account holds 0 HTT tokens
+    And The fourth account holds 20 HTT tokens
+    When A transaction is created with the following transfers
+      | account | asset | amount |
+      | first   | HTT   | -10    |
+      | fourth  | HTT   | -10    |
+      | second  | HTT   | 20     |
+    And The first account submits the transaction
+    Then The second account holds 20 HTT tokens
+    And The first account holds 88 HTT tokens
+    And The fourth account holds 12 HTT tokens
+    And The third account collected 1 HBAR in custom fees from the first account
+    And The fourth account collected 2 HTT in custom fees from the first account
+    And The fourth account paid no custom fees
@@ -0,0 +1,108 @@
+import { AccountCreateTransaction, AccountId, Client, Hbar, PrivateKey } from "@hashgraph/sdk";
+import { Account, parsePrivateKey } from "./config";
+import { submitTransaction } from "./transaction-records";
+
+// The accounts a scenario involves, by the name it gives them. An ordinal ("first" to "tenth") takes the configured
+// account at its position; any other name, an alias like "driver" or the token "treasury", takes the last configured
+// account that nobody has claimed yet. Once the configured accounts run out, new ones are created, paid for by the
+// client's operator, so that a scenario can involve as many parties as it names. The accounts it created are deleted
+// again when the scenario is cleaned up (see src/cleanup.ts).
+
+export const ORDINALS = ["first", "second", "third", "fourth", "fifth", "sixth", "seventh", "eighth", "ninth", "tenth"];
+
+export interface RegisteredAccount {
+  name: string;
+  id: AccountId;
+  key: PrivateKey;
+  // Created for this registry rather than configured
+  provisioned: boolean;
+}
+
+export class AccountRegistryError extends Error {
+  constructor(readonly account: string, message: string) {
+    super(message);
+    this.name = "AccountRegistryError";
+  }
+}
+
+// The hbar a created account starts with, overridable with HEDERA_PROVISIONED_ACCOUNT_BALANCE
+export function defaultProvisionedBalance(): Hbar {
+  const value = process.env.HEDERA_PROVISIONED_ACCOUNT_BALANCE;
+  return value === undefined || value === "" ? new Hbar(20) : Hbar.fromString(value);
+}
+
+export class AccountRegistry {
+  private readonly byName = new Map<string, RegisteredAccount>();
+  private readonly claimed = new Set<number>();
+
+  constructor(private readonly configured: Account[], private readonly initialBalance: Hbar = defaultProvisionedBalance()) {}
+
+  get(name: string): RegisteredAccount | undefined {
+    return this.byName.get(name);
+  }
+
+  // Every account named so far, in the order they were first named
+  all(): RegisteredAccount[] {
+    return [...this.byName.values()];
+  }
+
+  // The accounts created for this registry rather than configured
+  provisioned(): RegisteredAccount[] {
+    return this.all().filter((account) => account.provisioned);
+  }
+
+  // The account with the name, claiming a configured one if it is new; throws when only a new account would do
+  claim(name: string): RegisteredAccount {
+    const known = this.byName.get(name);
+    if (known !== undefined) {
+      return known;
+    }
+    const index = this.unclaimedIndex(name);
+    if (index === undefined) {
+      throw new AccountRegistryError(name, `No configured account is left for the ${name} account (${this.configured.length} configured); it has to be created first`);
+    }
+    this.claimed.add(index);
+    const { id, privateKey } = this.configured[index];
+    return this.register({ name, id: AccountId.fromString(id), key: parsePrivateKey(privateKey), provisioned: false });
+  }
+
+  // The account with the name, claiming a configured one or, once none is left, creating one
+  async resolve(client: Client, name: string): Promise<RegisteredAccount> {
+    const known = this.byName.get(name);
+    if (known !== undefined) {
+      return known;
+    }
+    if (this.unclaimedIndex(name) !== undefined) {
+      return this.claim(name);
+    }
+    const key = PrivateKey.generateED25519();
+    const receipt = await (await submitTransaction(client, new AccountCreateTransaction()
+      .setKey(key.publicKey)
+      .setInitialBalance(this.initialBalance)
+      .setAccountMemo(`scenario account ${name}`))).getReceipt(client);
+    if (receipt.accountId == null) {
+      throw new AccountRegistryError(name, `The receipt of the creation of the ${name} account has no account ID`);
+    }
+    return this.register({ name, id: receipt.accountId, key, provisioned: true });
+  }
+
+  private register(account: RegisteredAccount): RegisteredAccount {
+    this.byName.set(account.name, account);
+    return account;
+  }
+
+  // An ordinal keeps to its own position, so that "first" is always the first configured account; other names take
+  // from the end, to leave the positions of the ordinals free as long as possible
+  private unclaimedIndex(name: string): number | undefined {
+    const position = ORDINALS.indexOf(name);
+    if (position >= 0) {
+      return position < this.configured.length && !this.claimed.has(position) ? position : undefined;
+    }
+    for (let index = this.configured.length - 1; index >= 0; index--) {
+      if (!this.claimed.has(index)) {
+        return index;
+      }
+    }
+    return undefined;
+  }
+}
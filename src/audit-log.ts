@@ -0,0 +1,130 @@
+import { appendFileSync, existsSync, mkdirSync, readdirSync, readFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+import { signaturesOf } from "./offline-signing";
+import { CapturedRecord, SubmittedTransaction } from "./transaction-records";
+
+// A durable record of what a test run sent: every transaction its clients submitted, one JSON object per line, appended
+// as soon as the outcome of the transaction is known. Each run writes its own file, `run-<start time>.jsonl`, in the
+// directory named by HEDERA_AUDIT_DIR (default "audit"); "none" writes no audit log.
+
+export interface AuditEntry {
+  // When the transaction was submitted, ISO 8601
+  timestamp: string;
+  scenario: string;
+  // The name of the transaction class, e.g. "TransferTransaction"
+  type: string;
+  transactionId: string;
+  payer: string;
+  // DER encoded public keys of every signature on the transaction, the payer's included
+  signers: string[];
+  // The receipt status, the precheck status of a transaction rejected before consensus, or "NO_RECORD"
+  status: string;
+  // The base64 encoded bytes of Transaction.toBytes(), as submitted
+  bytes: string;
+}
+
+export interface AuditFilter {
+  // Part of the scenario name
+  scenario?: string;
+  type?: string;
+  status?: string;
+  payer?: string;
+  // Only entries whose status is not SUCCESS
+  failed?: boolean;
+}
+
+export class AuditLogError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuditLogError";
+  }
+}
+
+const DEFAULT_AUDIT_DIR = "audit";
+
+export function auditEntry(submitted: SubmittedTransaction, record: CapturedRecord | undefined, scenario: string): AuditEntry {
+  const { transactionId, type, precheckStatus, submittedAt, transaction } = submitted;
+  const bytes = transaction.toBytes();
+  return {
+    timestamp: submittedAt.toISOString(),
+    scenario,
+    type,
+    transactionId: transactionId.toString(),
+    payer: (record?.payer ?? transactionId.accountId)?.toString() ?? "unknown",
+    signers: signaturesOf(bytes).map((signature) => signature.publicKey),
+    status: (precheckStatus ?? record?.status)?.toString() ?? "NO_RECORD",
+    bytes: Buffer.from(bytes).toString("base64")
+  };
+}
+
+export class AuditLog {
+  constructor(readonly path: string) {}
+
+  // The log of a run starting now in the directory of HEDERA_AUDIT_DIR, or none when it is "none"
+  static forRun(dir: string = process.env.HEDERA_AUDIT_DIR ?? DEFAULT_AUDIT_DIR, start: Date = new Date()): AuditLog | undefined {
+    if (dir === "none") {
+      return undefined;
+    }
+    return new AuditLog(resolve(dir, `run-${start.toISOString().replace(/[:.]/g, "-")}.jsonl`));
+  }
+
+  append(entries: AuditEntry[]): void {
+    if (entries.length === 0) {
+      return;
+    }
+    mkdirSync(resolve(this.path, ".."), { recursive: true });
+    appendFileSync(this.path, entries.map((entry) => JSON.stringify(entry) + "\n").join(""));
+  }
+
+  read(): AuditEntry[] {
+    return readAuditLog(this.path);
+  }
+}
+
+export function readAuditLog(path: string): AuditEntry[] {
+  if (!existsSync(path)) {
+    throw new AuditLogError(`There is no audit log ${path}`);
+  }
+  return readFileSync(path, "utf8").split("\n").filter((line) => line.trim() !== "").map((line, index) => {
+    try {
+      return JSON.parse(line) as AuditEntry;
+    } catch {
+      throw new AuditLogError(`Line ${index + 1} of ${path} is not a JSON audit entry`);
+    }
+  });
+}
+
+// The log of the latest run in the directory; the names sort by start time
+export function latestAuditLog(dir: string = process.env.HEDERA_AUDIT_DIR ?? DEFAULT_AUDIT_DIR): string {
+  const runs = existsSync(dir) ? readdirSync(dir).filter((name) => /^run-.*\.jsonl$/.test(name)).sort() : [];
+  if (runs.length === 0) {
+    throw new AuditLogError(`There is no audit log in ${resolve(dir)}`);
+  }
+  return join(dir, runs[runs.length - 1]);
+}
+
+export function filterAuditEntries(entries: AuditEntry[], filter: AuditFilter): AuditEntry[] {
+  return entries.filter((entry) =>
+    (filter.scenario === undefined || entry.scenario.includes(filter.scenario))
+    && (filter.type === undefined || entry.type === filter.type)
+    && (filter.status === undefined || entry.status === filter.status)
+    && (filter.payer === undefined || entry.payer === filter.payer)
+    && (!filter.failed || entry.status !== "SUCCESS"));
+}
+
+// The number of transactions by scenario, by type and by status, e.g. to spot the scenario that failed
+export function summarizeAuditEntries(entries: AuditEntry[]): string {
+  const count = (key: (entry: AuditEntry) => string) => {
+    const counts = new Map<string, number>();
+    entries.forEach((entry) => counts.set(key(entry), (counts.get(key(entry)) ?? 0) + 1));
+    const width = Math.max(0, ...[...counts.keys()].map((name) => name.length));
+    return [...counts].map(([name, total]) => `  ${name.padEnd(width)}  ${String(total).padStart(4)}`);
+  };
+  const failed = entries.filter((entry) => entry.status !== "SUCCESS").length;
+  return [
+    `${entries.length} transaction(s), ${failed} not successful`,
+    "By scenario:", ...count((entry) => entry.scenario),
+    "By type:", ...count((entry) => entry.type),
+    "By status:", ...count((entry) => entry.status)
+  ].join("\n");
+}
@@ -0,0 +1,62 @@
+import { config as loadDotEnv } from "dotenv"
+import { parseArgs } from "node:util"
+import { AuditFilter, filterAuditEntries, latestAuditLog, readAuditLog, summarizeAuditEntries } from "./audit-log"
+
+const USAGE = `Usage: npx ts-node src/audit.ts [options] [<file>...]
+
+Filters and summarizes the audit logs that test runs write (see src/audit-log.ts): one JSON object per transaction
+submitted. Without files, reads the latest run in HEDERA_AUDIT_DIR (default "audit").
+
+Options:
+  --scenario <text>                entries of the scenarios whose name contains <text>
+  --type <type>                    entries of one transaction type, e.g. TransferTransaction
+  --status <status>                entries with one status, e.g. INSUFFICIENT_PAYER_BALANCE
+  --payer <account id>             entries paid for by the account
+  --failed                         entries whose status is not SUCCESS
+  --summary                        count the entries by scenario, type and status instead of printing them
+  --bytes                          keep the transaction bytes in the printed entries
+  -h, --help                       show this help
+
+Exits with status 1 when no log can be read.`
+
+function main(): number {
+  loadDotEnv()
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    allowPositionals: true,
+    options: {
+      scenario: { type: "string" },
+      type: { type: "string" },
+      status: { type: "string" },
+      payer: { type: "string" },
+      failed: { type: "boolean", default: false },
+      summary: { type: "boolean", default: false },
+      bytes: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false }
+    }
+  })
+  if (values.help) {
+    console.log(USAGE)
+    return 0
+  }
+  const files = positionals.length > 0 ? positionals : [latestAuditLog()]
+  const filter: AuditFilter = {
+    scenario: values.scenario, type: values.type, status: values.status, payer: values.payer, failed: values.failed
+  }
+  const entries = filterAuditEntries(files.flatMap(readAuditLog), filter)
+  if (values.summary) {
+    console.log(summarizeAuditEntries(entries))
+    return 0
+  }
+  for (const { bytes, ...entry } of entries) {
+    console.log(JSON.stringify(values.bytes ? { ...entry, bytes } : entry))
+  }
+  return 0
+}
+
+try {
+  process.exitCode = main()
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error)
+  process.exitCode = 1
+}
@@ -0,0 +1,94 @@
+import { AccountBalanceQuery, AccountId, Client, Hbar } from "@hashgraph/sdk";
+import { BudgetConfig } from "./config";
+import { CapturedRecord, netHbarChange, SubmittedTransaction } from "./transaction-records";
+
+// Guardrails for runs that pay with real hbar. Clients cap what a single transaction or query may cost, and the
+// spend of a scenario and of the whole run is checked before every submission, so that a runaway loop stops at the
+// limit instead of draining the accounts. The spend is what the paying accounts lost: the hbar they gave in the
+// transactions' records, fees included, less what they got back, plus what their queries paid. A transaction whose
+// record has not been fetched yet counts at its maximum fee until it is.
+
+export class SpendLimitError extends Error {
+  constructor(readonly scope: "scenario" | "run", readonly spent: Hbar, readonly limit: Hbar, readonly transactions: number) {
+    super(`The ${scope} spent ${spent} in ${transactions} transaction(s) and reached its spend limit of ${limit}; no more transactions are submitted`);
+    this.name = "SpendLimitError";
+  }
+}
+
+export interface OperatorBalance {
+  account: AccountId;
+  balance: Hbar;
+}
+
+export class OperatorBalanceError extends Error {
+  constructor(readonly floor: Hbar, readonly below: OperatorBalance[]) {
+    super(`Refusing to run: ${below.map(({ account, balance }) => `${account} holds ${balance}`).join(", ")}, less than the minimum of ${floor}`);
+    this.name = "OperatorBalanceError";
+  }
+}
+
+const hbar = (tinybars: bigint) => Hbar.fromTinybars(tinybars.toString());
+
+// Caps the fee of every transaction and the payment for every query the client executes, unless one sets its own
+export function applyFeeLimits(client: Client, budget: BudgetConfig): Client {
+  if (budget.maxTransactionFee !== undefined) client.setDefaultMaxTransactionFee(budget.maxTransactionFee);
+  if (budget.maxQueryPayment !== undefined) client.setDefaultMaxQueryPayment(budget.maxQueryPayment);
+  return client;
+}
+
+// Throws OperatorBalanceError naming every account that holds less than `floor`
+export async function checkOperatorBalances(client: Client, accounts: AccountId[], floor: Hbar): Promise<OperatorBalance[]> {
+  const balances: OperatorBalance[] = [];
+  for (const account of accounts) {
+    balances.push({ account, balance: (await new AccountBalanceQuery().setAccountId(account).execute(client)).hbars });
+  }
+  const below = balances.filter(({ balance }) => balance.toTinybars().lessThan(floor.toTinybars()));
+  if (below.length > 0) {
+    throw new OperatorBalanceError(floor, below);
+  }
+  return balances;
+}
+
+// What a scenario submitted so far, from its journal (see src/transaction-records.ts)
+export interface ScenarioSpending {
+  records: CapturedRecord[];
+  // Sent, but without a record yet
+  unrecorded: SubmittedTransaction[];
+  queryPayments: bigint;
+}
+
+const maxFee = ({ transaction }: SubmittedTransaction) => BigInt((transaction.maxTransactionFee?.toTinybars() ?? 0).toString());
+
+// The spend of one run, scenario by scenario. Hbar moved between two of the paying accounts is not spent.
+export class SpendingBudget {
+  private runSpent = BigInt(0);
+  private runTransactions = 0;
+
+  constructor(readonly config: BudgetConfig, private readonly payers: AccountId[]) {}
+
+  // What the paying accounts lost in the transactions, and paid for queries
+  spent({ records, unrecorded, queryPayments }: ScenarioSpending): bigint {
+    const recorded = records.reduce((total, record) => this.payers.reduce((sum, payer) => sum - netHbarChange(record, payer), total), queryPayments);
+    return unrecorded.reduce((total, submitted) => total + maxFee(submitted), recorded);
+  }
+
+  // Throws SpendLimitError once the scenario, with what it submitted so far, or the run reached its limit.
+  // `scenarioLimit` replaces the configured limit of the scenario.
+  check(scenario: ScenarioSpending, scenarioLimit = this.config.scenarioSpendLimit): void {
+    const spent = this.spent(scenario);
+    const transactions = scenario.records.length + scenario.unrecorded.length;
+    if (scenarioLimit !== undefined && spent >= BigInt(scenarioLimit.toTinybars().toString())) {
+      throw new SpendLimitError("scenario", hbar(spent), scenarioLimit, transactions);
+    }
+    const { runSpendLimit } = this.config;
+    if (runSpendLimit !== undefined && this.runSpent + spent >= BigInt(runSpendLimit.toTinybars().toString())) {
+      throw new SpendLimitError("run", hbar(this.runSpent + spent), runSpendLimit, this.runTransactions + transactions);
+    }
+  }
+
+  // Adds what a finished scenario spent to the run
+  endScenario(scenario: ScenarioSpending): void {
+    this.runSpent += this.spent(scenario);
+    this.runTransactions += scenario.records.length + scenario.unrecorded.length;
+  }
+}
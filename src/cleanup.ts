@@ -0,0 +1,234 @@
+import {
+  AccountDeleteTransaction,
+  AccountId,
+  Client,
+  Long,
+  PrecheckStatusError,
+  PrivateKey,
+  ReceiptStatusError,
+  Status,
+  TokenAssociateTransaction,
+  TokenDeleteTransaction,
+  TokenDissociateTransaction,
+  TokenId,
+  TokenInfo,
+  TokenInfoQuery,
+  TokenType,
+  TokenUnpauseTransaction,
+  TopicId,
+  Transaction,
+  TransferTransaction
+} from "@hashgraph/sdk";
+import { selectSigners } from "./key-structure";
+import { tokenStanding } from "./token-admin";
+import { deleteTopic, getTopicInfo } from "./topic-admin";
+import { CapturedRecord, executeQuery, SubmittedTransaction, submitTransaction } from "./transaction-records";
+
+// Teardown of what a scenario created on the network, so that long-lived accounts do not pile up associations and dust
+// balances. A token that its admin key allows to delete is deleted first, unpaused if need be, after which every
+// account can dissociate from it whatever it holds. From any other token, the accounts return their balances to the
+// treasury before they dissociate. Topics with an admin key are deleted, and so are the accounts created for the
+// scenario, once they hold no more tokens. What cannot be cleaned is reported rather than failing the run, and
+// HEDERA_KEEP_RESOURCES=true (or the @keep-resources tag) keeps everything for debugging.
+
+export const KEEP_RESOURCES_TAG = "@keep-resources";
+
+export interface Association {
+  account: AccountId;
+  token: TokenId;
+}
+
+// What a scenario created, as its transactions and their records tell
+export interface ScenarioResources {
+  tokens: TokenId[];
+  topics: TopicId[];
+  // Made by the scenario's own TokenAssociateTransactions; treasuries and fee collectors are associated on creation
+  associations: Association[];
+}
+
+// An account whose key signs for it: returning its balances and dissociating it
+export interface ResourceOwner {
+  id: AccountId;
+  key: PrivateKey;
+}
+
+export interface CleanupReport {
+  // What was done, e.g. "deleted token 0.0.1011"
+  cleaned: string[];
+  // What is still there, and why
+  leftovers: string[];
+}
+
+export function keepResources(tags: string[] = []): boolean {
+  return process.env.HEDERA_KEEP_RESOURCES === "true" || tags.includes(KEEP_RESOURCES_TAG);
+}
+
+// The tokens and topics created by successful transactions, and the associations made by them
+export function scenarioResources(submissions: SubmittedTransaction[], records: CapturedRecord[]): ScenarioResources {
+  const succeeded = new Set(records.filter((record) => record.status === Status.Success).map((record) => record.transactionId.toString()));
+  const associations = submissions
+    .filter(({ transactionId, transaction }) => succeeded.has(transactionId.toString()) && transaction instanceof TokenAssociateTransaction)
+    .flatMap(({ transaction }) => {
+      const { accountId, tokenIds } = transaction as TokenAssociateTransaction;
+      return accountId === null ? [] : (tokenIds ?? []).map((token) => ({ account: accountId, token }));
+    });
+  return {
+    tokens: records.flatMap((record) => (record.status === Status.Success && record.createdTokenId ? [record.createdTokenId] : [])),
+    topics: records.flatMap((record) => (record.status === Status.Success && record.createdTopicId ? [record.createdTopicId] : [])),
+    associations
+  };
+}
+
+// Helper: The status a transaction or query failed with, or the error message
+function failureOf(error: unknown): string {
+  if (error instanceof ReceiptStatusError || error instanceof PrecheckStatusError) {
+    return error.status.toString();
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function submit(client: Client, transaction: Transaction, signers: PrivateKey[]): Promise<void> {
+  transaction.freezeWith(client);
+  for (const signer of signers) {
+    await transaction.sign(signer);
+  }
+  await (await submitTransaction(client, transaction)).getReceipt(client);
+}
+
+// Cleans up the resources with the keys of the scenario's accounts; the client's operator pays. Running it again
+// after it cleaned everything does nothing.
+export async function cleanUpResources(client: Client, resources: ScenarioResources, accounts: ResourceOwner[]): Promise<CleanupReport> {
+  const report: CleanupReport = { cleaned: [], leftovers: [] };
+  for (const token of resources.tokens) {
+    await cleanUpToken(client, token, resources.associations, accounts, report);
+  }
+  for (const topic of resources.topics) {
+    await cleanUpTopic(client, topic, accounts.map((account) => account.key), report);
+  }
+  return report;
+}
+
+// Deletes accounts that were created for the scenario and sends their hbar to `transferTo`. Runs after the tokens are
+// cleaned up: an account that is a treasury or still holds a token cannot be deleted.
+export async function deleteAccounts(client: Client, accounts: ResourceOwner[], transferTo: AccountId): Promise<CleanupReport> {
+  const report: CleanupReport = { cleaned: [], leftovers: [] };
+  for (const account of accounts) {
+    try {
+      await submit(client, new AccountDeleteTransaction().setAccountId(account.id).setTransferAccountId(transferTo), [account.key]);
+      report.cleaned.push(`deleted account ${account.id}, its hbar went to ${transferTo}`);
+    } catch (error) {
+      // Deleted already
+      if (failureOf(error) !== Status.AccountDeleted.toString()) {
+        report.leftovers.push(`account ${account.id} is kept: deleting it failed with ${failureOf(error)}`);
+      }
+    }
+  }
+  return report;
+}
+
+async function cleanUpToken(client: Client, tokenId: TokenId, associations: Association[], accounts: ResourceOwner[], report: CleanupReport): Promise<void> {
+  let info: TokenInfo;
+  try {
+    info = await executeQuery(client, new TokenInfoQuery().setTokenId(tokenId));
+  } catch (error) {
+    report.leftovers.push(`token ${tokenId}: its info cannot be read (${failureOf(error)})`);
+    return;
+  }
+  const label = `token ${tokenId} (${info.symbol})`;
+  const keys = accounts.map((account) => account.key);
+
+  let deleted = info.isDeleted;
+  if (!deleted) {
+    const adminSigners = info.adminKey !== null ? selectSigners(info.adminKey, keys) : null;
+    const pauseSigners = info.pauseKey !== null ? selectSigners(info.pauseKey, keys) : null;
+    if (adminSigners === null) {
+      report.leftovers.push(`${label} is kept: ${info.adminKey === null ? "it has no admin key" : "no scenario account holds its admin key"}`);
+    } else if (info.pauseStatus === true && pauseSigners === null) {
+      report.leftovers.push(`${label} is kept: it is paused and no scenario account holds its pause key`);
+    } else {
+      try {
+        if (info.pauseStatus === true && pauseSigners !== null) {
+          await submit(client, new TokenUnpauseTransaction().setTokenId(tokenId), pauseSigners);
+        }
+        await submit(client, new TokenDeleteTransaction().setTokenId(tokenId), adminSigners);
+        deleted = true;
+        report.cleaned.push(`deleted ${label}`);
+      } catch (error) {
+        report.leftovers.push(`${label} is kept: deleting it failed with ${failureOf(error)}`);
+      }
+    }
+  }
+
+  // Everyone who may be associated: the accounts the scenario associated, the fee collectors and, once the token is
+  // deleted, the treasury
+  const holders = [
+    ...associations.filter((association) => association.token.toString() === tokenId.toString()).map((association) => association.account),
+    ...info.customFees.flatMap((fee) => (fee.feeCollectorAccountId !== null ? [fee.feeCollectorAccountId] : [])),
+    ...(deleted && info.treasuryAccountId !== null ? [info.treasuryAccountId] : [])
+  ].filter((holder, index, all) => all.findIndex((other) => other.equals(holder)) === index
+    && (deleted || info.treasuryAccountId === null || !holder.equals(info.treasuryAccountId)));
+
+  for (const holder of holders) {
+    let standing;
+    try {
+      standing = await tokenStanding(client, holder, tokenId);
+    } catch (error) {
+      report.leftovers.push(`account ${holder} may still be associated with ${label}: ${failureOf(error)}`);
+      continue;
+    }
+    if (standing === null) {
+      continue;
+    }
+    const owner = accounts.find((account) => account.id.equals(holder));
+    if (owner === undefined) {
+      report.leftovers.push(`account ${holder} stays associated with ${label}: its key is not available`);
+      continue;
+    }
+    if (!deleted && standing.balance > BigInt(0)) {
+      if (String(info.tokenType) === String(TokenType.NonFungibleUnique)) {
+        report.leftovers.push(`account ${holder} stays associated with ${label}: it owns ${standing.balance} serial(s)`);
+        continue;
+      }
+      try {
+        const units = Long.fromString(standing.balance.toString());
+        await submit(client, new TransferTransaction()
+          .addTokenTransfer(tokenId, holder, units.negate())
+          .addTokenTransfer(tokenId, info.treasuryAccountId as AccountId, units), [owner.key]);
+        report.cleaned.push(`returned ${standing.balance} unit(s) of ${label} from account ${holder} to the treasury`);
+      } catch (error) {
+        report.leftovers.push(`account ${holder} stays associated with ${label}: returning its balance failed with ${failureOf(error)}`);
+        continue;
+      }
+    }
+    try {
+      await submit(client, new TokenDissociateTransaction().setAccountId(holder).setTokenIds([tokenId]), [owner.key]);
+      report.cleaned.push(`dissociated account ${holder} from ${label}`);
+    } catch (error) {
+      report.leftovers.push(`account ${holder} stays associated with ${label}: dissociating failed with ${failureOf(error)}`);
+    }
+  }
+}
+
+async function cleanUpTopic(client: Client, topicId: TopicId, keys: PrivateKey[], report: CleanupReport): Promise<void> {
+  let adminKey;
+  try {
+    adminKey = (await getTopicInfo(client, topicId)).adminKey;
+  } catch (error) {
+    // Deleted already
+    if (failureOf(error) !== Status.InvalidTopicId.toString()) {
+      report.leftovers.push(`topic ${topicId}: its info cannot be read (${failureOf(error)})`);
+    }
+    return;
+  }
+  const signers = adminKey !== null ? selectSigners(adminKey, keys) : null;
+  if (signers === null) {
+    report.leftovers.push(`topic ${topicId} is kept: ${adminKey === null ? "it has no admin key" : "no scenario account holds its admin key"}`);
+    return;
+  }
+  try {
+    await deleteTopic(client, topicId, signers);
+    report.cleaned.push(`deleted topic ${topicId}`);
+  } catch (error) {
+    report.leftovers.push(`topic ${topicId} is kept: deleting it failed with ${failureOf(error)}`);
+  }
+}
@@ -0,0 +1,49 @@
+import { AccountId, Client, Hbar } from "@hashgraph/sdk";
+import { applyFeeLimits } from "./budget";
+import { Account, getConfig, HederaConfig, parsePrivateKey } from "./config";
+import { SimulatedClient, SimulatedLedger } from "./simulator";
+
+// Every configured account starts out with this much hbar on the simulated network.
+const GENESIS_BALANCE = new Hbar(10_000);
+
+let ledger: SimulatedLedger | undefined;
+
+// One ledger per process, so that clients created by different step files see the same state.
+export function simulatedLedger(): SimulatedLedger {
+  if (ledger === undefined) {
+    const { operator, accounts } = getConfig();
+    const genesis = accounts.some((account) => account.id === operator.id) ? accounts : [operator, ...accounts];
+    ledger = new SimulatedLedger(
+      genesis.map((account) => ({
+        id: account.id,
+        publicKey: parsePrivateKey(account.privateKey).publicKey,
+        balance: GENESIS_BALANCE
+      }))
+    );
+  }
+  return ledger;
+}
+
+function clientFor(config: HederaConfig): Client {
+  switch (config.network) {
+    case "simulator":
+      return new SimulatedClient(simulatedLedger());
+    case "local":
+      return Client.forNetwork({ [config.local.node]: AccountId.fromString(config.local.nodeAccountId) })
+        .setMirrorNetwork([config.local.mirror]);
+    case "testnet":
+      return Client.forTestnet();
+    case "previewnet":
+      return Client.forPreviewnet();
+    case "mainnet":
+      return Client.forMainnet();
+  }
+}
+
+// A client for the configured network (see src/config.ts), paid for by the configured operator. Unless the budget is
+// bypassed, its transaction fees and query payments are capped.
+export function createClient(operator: Account = getConfig().operator): Client {
+  const config = getConfig();
+  const client = clientFor(config).setOperator(AccountId.fromString(operator.id), parsePrivateKey(operator.privateKey));
+  return config.budget.enforced ? applyFeeLimits(client, config.budget) : client;
+}
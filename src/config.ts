@@ -1,13 +1,273 @@
+import { AccountId, Hbar, PrivateKey } from "@hashgraph/sdk";
+import { config as loadDotEnv } from "dotenv";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { loadKeystoreAccounts } from "./keystore";
+
 export interface Account {
   id: string, privateKey: string
 }
 
-export const accounts: Account[] = [
-  {id: "0.0.5838476", privateKey: "0433d1cf9beb8c495309bf481b95f7392231f3caf03919a92e312ae2bd4fa101"},
-  {id: "0.0.5838501", privateKey: "4f0bd225fd01815bbd0ff8429d6f2e82f376ead114839d92df4cdd133c696ff3"},
-  {id: "0.0.5838460", privateKey: "bb7fd45b99066bb29d7844955e1424737f53fe71eb0295a87140ec0f167c6b30"},
-  {id: "0.0.5838509", privateKey: "a632f446d2d08b4f2f7f7ae2016ca62c0da4a0dd1bc07f9b8ad3f0b1dbd63115"},
-  {id: "0.0.5840472", privateKey: "eac2f83738a38c30bbd97027ecbdc3092b65064e3b34558d1852be0e47fe397c"}
-  
-]
+export type NetworkName = "simulator" | "local" | "testnet" | "previewnet" | "mainnet";
+
+export const NETWORKS: NetworkName[] = ["simulator", "local", "testnet", "previewnet", "mainnet"];
+
+// gRPC and mirror addresses of a locally running node, e.g. hedera-local-node.
+export interface LocalNetwork {
+  node: string, nodeAccountId: string, mirror: string
+}
+
+// Limits on what a run spends in hbar (see src/budget.ts). Left out, a limit does not apply.
+export interface BudgetConfig {
+  // The simulator and a local node bypass the budget unless HEDERA_ENFORCE_BUDGET=true
+  enforced: boolean,
+  maxTransactionFee?: Hbar,
+  maxQueryPayment?: Hbar,
+  scenarioSpendLimit?: Hbar,
+  runSpendLimit?: Hbar,
+  // Every configured account pays for transactions at some point, so each needs at least this much to start a run
+  minOperatorBalance?: Hbar
+}
+
+export interface HederaConfig {
+  network: NetworkName,
+  operator: Account,
+  accounts: Account[],
+  local: LocalNetwork,
+  budget: BudgetConfig,
+  // Link to a transaction in a block explorer, with {network} and {transactionId} placeholders (see src/transaction-report.ts)
+  explorerUrl?: string,
+  configFile: string,
+  keystore?: { path: string, passphrase: string }
+}
+
+// Shape of the optional JSON config file; every field can also be set (and overridden) through the environment.
+interface ConfigFile {
+  network?: string,
+  operator?: Account,
+  accounts?: Account[],
+  local?: Partial<LocalNetwork>,
+  keystore?: string,
+  allowMainnet?: boolean,
+  explorerUrl?: string,
+  budget?: { enforce?: boolean } & { [limit in BudgetLimit]?: string | number }
+}
+
+type BudgetLimit = Exclude<keyof BudgetConfig, "enforced">;
 
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid Hedera configuration:\n${problems.map((problem) => `  - ${problem}`).join("\n")}`);
+    this.name = "ConfigError";
+  }
+}
+
+// Number of throwaway accounts the simulator starts with when no scenario accounts are configured.
+const SIMULATOR_ACCOUNTS = 10;
+
+const DEFAULT_CONFIG_FILE = "hedera.config.json";
+
+// Transactions on the public networks link to HashScan unless HEDERA_EXPLORER_URL says otherwise; "none" links nowhere
+const DEFAULT_EXPLORER_URL = "https://hashscan.io/{network}/transaction/{transactionId}";
+
+const DEFAULT_LOCAL: LocalNetwork = { node: "127.0.0.1:50211", nodeAccountId: "0.0.3", mirror: "127.0.0.1:5600" };
+
+// Environment variable and default of each budget limit, in hbar; "none" lifts a limit. The maximum transaction fee
+// and query payment default to the SDK's own.
+const BUDGET_LIMITS: Record<BudgetLimit, { variable: string, hbar?: string }> = {
+  maxTransactionFee: { variable: "HEDERA_MAX_TRANSACTION_FEE" },
+  maxQueryPayment: { variable: "HEDERA_MAX_QUERY_PAYMENT" },
+  scenarioSpendLimit: { variable: "HEDERA_SCENARIO_SPEND_LIMIT", hbar: "100" },
+  runSpendLimit: { variable: "HEDERA_RUN_SPEND_LIMIT", hbar: "1000" },
+  minOperatorBalance: { variable: "HEDERA_MIN_OPERATOR_BALANCE", hbar: "20" }
+};
+
+// DER-encoded keys carry their own type. Raw hex does not, and the Hedera portal shows ECDSA and ED25519 keys alike as
+// hex, so a raw key needs an "ed25519:" or "ecdsa:" prefix rather than a guess that fails at the first signature.
+export function parsePrivateKey(privateKey: string): PrivateKey {
+  const [, type, hex] = /^(ed25519|ecdsa):(?:0x)?([0-9a-f]+)$/i.exec(privateKey) ?? [];
+  if (type !== undefined) {
+    return type.toLowerCase() === "ecdsa" ? PrivateKey.fromStringECDSA(hex) : PrivateKey.fromStringED25519(hex);
+  }
+  if (privateKey.startsWith("30") && privateKey.length > 64) {
+    return PrivateKey.fromStringDer(privateKey);
+  }
+  throw new Error("a raw hex private key needs an \"ed25519:\" or \"ecdsa:\" prefix");
+}
+
+// The simulator accepts any key, so it does not need real accounts to run the scenarios.
+function simulatorAccounts(): Account[] {
+  return Array.from({ length: SIMULATOR_ACCOUNTS }, (_, i) => ({
+    id: `0.0.${1001 + i}`,
+    privateKey: PrivateKey.generateED25519().toStringDer()
+  }));
+}
+
+// "0.0.1001:<key>,0.0.1002:<key>"; a key may have a type prefix of its own, e.g. "0.0.1001:ecdsa:<hex>"
+function parseAccountList(value: string): Account[] {
+  return value.split(",").map((entry) => entry.trim()).filter((entry) => entry !== "").map((entry) => {
+    const [id, ...key] = entry.split(":");
+    return { id, privateKey: key.join(":") };
+  });
+}
+
+function readConfigFile(path: string, problems: string[]): ConfigFile {
+  try {
+    return JSON.parse(readFileSync(path, "utf8")) as ConfigFile;
+  } catch (e) {
+    problems.push(`cannot read config file ${path}: ${(e as Error).message}`);
+    return {};
+  }
+}
+
+function validateAccount(label: string, account: Account, problems: string[]): void {
+  try {
+    AccountId.fromString(account.id);
+  } catch {
+    problems.push(`${label} has an invalid account id "${account.id}"`);
+  }
+  try {
+    parsePrivateKey(account.privateKey);
+  } catch (e) {
+    problems.push(`${label} (${account.id}) has an invalid private key: ${(e as Error).message}`);
+  }
+}
+
+function parseBudget(env: NodeJS.ProcessEnv, network: NetworkName, file: ConfigFile, problems: string[]): BudgetConfig {
+  const enforce = env.HEDERA_ENFORCE_BUDGET !== undefined ? env.HEDERA_ENFORCE_BUDGET === "true" : file.budget?.enforce;
+  const budget: BudgetConfig = { enforced: enforce ?? (network !== "simulator" && network !== "local") };
+  for (const [limit, { variable, hbar }] of Object.entries(BUDGET_LIMITS) as [BudgetLimit, { variable: string, hbar?: string }][]) {
+    const value = String(env[variable] ?? file.budget?.[limit] ?? hbar ?? "none").trim();
+    if (value === "none") {
+      continue;
+    }
+    try {
+      const amount = Hbar.fromString(value);
+      if (amount.isNegative()) {
+        throw new Error();
+      }
+      budget[limit] = amount;
+    } catch {
+      problems.push(`${variable} must be an amount of hbar or "none", got "${value}"`);
+    }
+  }
+  return budget;
+}
+
+function validateAddress(label: string, address: string, problems: string[]): void {
+  if (!/^[^\s:]+:\d+$/.test(address)) {
+    problems.push(`${label} must look like host:port, got "${address}"`);
+  }
+}
+
+// Reads the network, operator and scenario accounts from the environment (and .env), the encrypted keystore and the
+// config file named by HEDERA_CONFIG_FILE (hedera.config.json when present), in that order of precedence.
+// All problems are reported at once in a single ConfigError.
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): HederaConfig {
+  const problems: string[] = [];
+  const configPath = env.HEDERA_CONFIG_FILE ?? (existsSync(DEFAULT_CONFIG_FILE) ? DEFAULT_CONFIG_FILE : undefined);
+  const file = configPath !== undefined ? readConfigFile(resolve(configPath), problems) : {};
+
+  const network = (env.HEDERA_NETWORK ?? file.network ?? "simulator") as NetworkName;
+  if (!NETWORKS.includes(network)) {
+    problems.push(`unknown network "${network}", expected one of ${NETWORKS.join(", ")}`);
+  }
+  const allowMainnet = env.HEDERA_ALLOW_MAINNET !== undefined ? env.HEDERA_ALLOW_MAINNET === "true" : file.allowMainnet === true;
+  if (network === "mainnet" && !allowMainnet) {
+    problems.push("mainnet costs real hbar; set HEDERA_ALLOW_MAINNET=true to use it");
+  }
+
+  // Scenario accounts: HEDERA_ACCOUNTS, then the keystore, then the config file
+  let accounts: Account[] = [];
+  const keystore = env.HEDERA_KEYSTORE ?? file.keystore;
+  if (env.HEDERA_ACCOUNTS !== undefined) {
+    accounts = parseAccountList(env.HEDERA_ACCOUNTS);
+  } else if (keystore !== undefined) {
+    if (env.HEDERA_KEYSTORE_PASSPHRASE === undefined) {
+      problems.push(`HEDERA_KEYSTORE_PASSPHRASE is needed to unlock the keystore ${keystore}`);
+    } else if (existsSync(keystore)) {
+      try {
+        accounts = loadKeystoreAccounts(resolve(keystore), env.HEDERA_KEYSTORE_PASSPHRASE);
+      } catch (e) {
+        problems.push((e as Error).message);
+      }
+    } else {
+      problems.push(`keystore ${keystore} not found`);
+    }
+  } else if (file.accounts !== undefined) {
+    accounts = file.accounts;
+  } else if (network !== "simulator") {
+    problems.push("no scenario accounts: set HEDERA_KEYSTORE, HEDERA_ACCOUNTS or \"accounts\" in the config file");
+  }
+  if (network === "simulator" && accounts.length === 0) {
+    accounts = simulatorAccounts();
+  }
+  accounts.forEach((account, index) => validateAccount(`account ${index + 1}`, account, problems));
+
+  let operator: Account | undefined;
+  if (env.MY_ACCOUNT_ID !== undefined || env.MY_PRIVATE_KEY !== undefined) {
+    if (env.MY_ACCOUNT_ID === undefined || env.MY_PRIVATE_KEY === undefined) {
+      problems.push("MY_ACCOUNT_ID and MY_PRIVATE_KEY must be set together");
+    } else {
+      operator = { id: env.MY_ACCOUNT_ID, privateKey: env.MY_PRIVATE_KEY };
+    }
+  } else {
+    operator = file.operator ?? accounts[0];
+  }
+  if (operator === undefined) {
+    problems.push("no operator: set MY_ACCOUNT_ID and MY_PRIVATE_KEY or list at least one account");
+  } else {
+    validateAccount("operator", operator, problems);
+  }
+
+  const local: LocalNetwork = {
+    node: env.HEDERA_LOCAL_NODE ?? file.local?.node ?? DEFAULT_LOCAL.node,
+    nodeAccountId: env.HEDERA_LOCAL_NODE_ACCOUNT_ID ?? file.local?.nodeAccountId ?? DEFAULT_LOCAL.nodeAccountId,
+    mirror: env.HEDERA_LOCAL_MIRROR ?? file.local?.mirror ?? DEFAULT_LOCAL.mirror
+  };
+  if (network === "local") {
+    validateAddress("HEDERA_LOCAL_NODE", local.node, problems);
+    validateAddress("HEDERA_LOCAL_MIRROR", local.mirror, problems);
+    try {
+      AccountId.fromString(local.nodeAccountId);
+    } catch {
+      problems.push(`HEDERA_LOCAL_NODE_ACCOUNT_ID is not an account id: "${local.nodeAccountId}"`);
+    }
+  }
+
+  const budget = parseBudget(env, network, file, problems);
+
+  const explorer = (env.HEDERA_EXPLORER_URL ?? file.explorerUrl ?? (network === "simulator" || network === "local" ? "none" : DEFAULT_EXPLORER_URL)).trim();
+  if (explorer !== "none" && !explorer.includes("{transactionId}")) {
+    problems.push(`HEDERA_EXPLORER_URL must contain {transactionId} or be "none", got "${explorer}"`);
+  }
+
+  if (problems.length > 0 || operator === undefined) {
+    throw new ConfigError(problems);
+  }
+  const passphrase = env.HEDERA_KEYSTORE_PASSPHRASE;
+  return {
+    network, operator, accounts, local, budget,
+    explorerUrl: explorer !== "none" ? explorer : undefined,
+    configFile: resolve(configPath ?? DEFAULT_CONFIG_FILE),
+    keystore: keystore !== undefined && passphrase !== undefined ? { path: resolve(keystore), passphrase } : undefined
+  };
+}
+
+// Adds accounts to the "accounts" list of a JSON config file, creating the file if needed.
+export function appendAccountsToConfigFile(path: string, added: Account[]): void {
+  const file: ConfigFile = existsSync(path) ? JSON.parse(readFileSync(path, "utf8")) : {};
+  file.accounts = [...(file.accounts ?? []), ...added];
+  writeFileSync(path, JSON.stringify(file, null, 2) + "\n", { mode: 0o600 });
+}
+
+let loaded: HederaConfig | undefined;
+
+// The process-wide configuration, loaded and validated on first use.
+export function getConfig(): HederaConfig {
+  if (loaded === undefined) {
+    loadDotEnv();
+    loaded = loadConfig();
+  }
+  return loaded;
+}
@@ -1,20 +1,260 @@
-import { accounts } from "./config";
-import { AccountCreateTransaction, AccountId, AccountInfoQuery, Client, PrivateKey } from "@hashgraph/sdk";
+import { appendAccountsToConfigFile, getConfig } from "./config";
+import { createClient } from "./client";
+import { Keystore } from "./keystore";
+import {
+  AccountBalanceQuery,
+  AccountCreateTransaction,
+  AccountId,
+  AccountInfoQuery,
+  Client,
+  Hbar,
+  PrivateKey,
+  TransactionResponse
+} from "@hashgraph/sdk";
+import { parseArgs } from "node:util";
 
-const client = Client.forTestnet()
+const USAGE = `Usage: npx ts-node src/create-accounts.ts [options]
 
-async function main() {
-  const account = accounts[0]
-  const MY_ACCOUNT_ID = AccountId.fromString(account.id);
-  const MY_PRIVATE_KEY = PrivateKey.fromStringED25519(account.privateKey);
-  client.setOperator(MY_ACCOUNT_ID, MY_PRIVATE_KEY);
+Creates accounts on the configured network (see src/config.ts), paid for by the configured operator.
 
-  for (let i = 0; i < 1; i++) {
-    const newPrivateKey = PrivateKey.generate()
-    const receipt = await (await new AccountCreateTransaction().setInitialBalance(10).setKey(newPrivateKey)
-        .execute(client)).getReceipt(client)
-    console.log(`{id: "${receipt.accountId}", privateKey: "${newPrivateKey}"},`)
+Options:
+  -n, --count <n>                  number of accounts to create (default 1)
+      --key-type <ed25519|ecdsa>   key type of the new accounts (default ed25519)
+      --balance <hbar>             initial balance of every account (default 10)
+      --max-auto-associations <n>  automatic token association slots (default 0); pass
+                                   --max-auto-associations=-1 for unlimited
+      --memo <text>                account memo
+      --max-fee <hbar>             maximum fee per account creation (default 2)
+      --output <json|keystore|config>
+                                   print the accounts as JSON lines, or add them to the keystore or the config file
+                                   (default: keystore when HEDERA_KEYSTORE is set, json otherwise)
+      --dry-run                    only estimate the cost and check the operator balance
+  -h, --help                       show this help
+
+The key of every account is printed to stderr with the ID of the creating transaction before the transaction is sent,
+and the account is saved as soon as its ID is known, before it is verified, so that its key is never lost. Exits with
+status 1 when any account could not be created or verified.`
+
+type Output = "json" | "keystore" | "config"
+type KeyType = "ed25519" | "ecdsa"
+
+interface Options {
+  count: number, keyType: KeyType, balance: Hbar, maxAutoAssociations: number, memo: string, maxFee: Hbar,
+  output: Output, dryRun: boolean
+}
+
+interface CreatedAccount {
+  id: string, keyType: KeyType, privateKey: string
+}
+
+// Every problem with the arguments is reported before anything is spent
+function parseOptions(args: string[]): Options | undefined {
+  const { values } = parseArgs({
+    args,
+    options: {
+      count: { type: "string", short: "n", default: "1" },
+      "key-type": { type: "string", default: "ed25519" },
+      balance: { type: "string", default: "10" },
+      "max-auto-associations": { type: "string", default: "0" },
+      memo: { type: "string", default: "" },
+      "max-fee": { type: "string", default: "2" },
+      output: { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false }
+    }
+  })
+  if (values.help) {
+    console.log(USAGE)
+    return undefined
+  }
+
+  const problems: string[] = []
+  const integer = (name: string, value: string, min: number) => {
+    const n = Number(value)
+    if (!Number.isInteger(n) || n < min) {
+      problems.push(`--${name} must be an integer >= ${min}, got "${value}"`)
+    }
+    return n
+  }
+  const hbar = (name: string, value: string) => {
+    try {
+      const amount = Hbar.fromString(value)
+      if (!amount.isNegative()) {
+        return amount
+      }
+    } catch {
+      // reported below
+    }
+    problems.push(`--${name} must be a non-negative hbar amount, got "${value}"`)
+    return new Hbar(0)
+  }
+
+  const keyType = values["key-type"] as KeyType
+  if (keyType !== "ed25519" && keyType !== "ecdsa") {
+    problems.push(`--key-type must be ed25519 or ecdsa, got "${keyType}"`)
+  }
+  const output = (values.output ?? (getConfig().keystore ? "keystore" : "json")) as Output
+  if (!["json", "keystore", "config"].includes(output)) {
+    problems.push(`--output must be json, keystore or config, got "${output}"`)
+  }
+  if (output === "keystore" && !getConfig().keystore) {
+    problems.push("--output keystore needs HEDERA_KEYSTORE and HEDERA_KEYSTORE_PASSPHRASE")
+  }
+  const options: Options = {
+    count: integer("count", values.count, 1),
+    keyType,
+    balance: hbar("balance", values.balance),
+    maxAutoAssociations: integer("max-auto-associations", values["max-auto-associations"], -1),
+    memo: values.memo,
+    maxFee: hbar("max-fee", values["max-fee"]),
+    output,
+    dryRun: values["dry-run"]
+  }
+  if (problems.length > 0) {
+    throw new Error(`Invalid arguments:\n${problems.map(problem => `  - ${problem}`).join("\n")}\n\n${USAGE}`)
+  }
+  return options
+}
+
+// Upper bound of what creating the accounts costs the operator: the initial balances plus the maximum fee of every
+// creation. The fee actually charged is usually far lower.
+async function estimateCost(client: Client, options: Options): Promise<boolean> {
+  const perAccount = options.balance.toTinybars().add(options.maxFee.toTinybars())
+  const total = Hbar.fromTinybars(perAccount.multiply(options.count))
+  const balance = (await new AccountBalanceQuery().setAccountId(client.operatorAccountId!).execute(client)).hbars
+  const affordable = balance.toTinybars().greaterThanOrEqual(total.toTinybars())
+  console.error(`Creating ${options.count} account(s) with ${options.balance} each costs at most ${total} ` +
+    `(max fee ${options.maxFee} per account); operator ${client.operatorAccountId} holds ${balance}` +
+    (affordable ? "" : " which is NOT enough"))
+  return affordable
+}
+
+function generateKey(keyType: KeyType): PrivateKey {
+  return keyType === "ecdsa" ? PrivateKey.generateECDSA() : PrivateKey.generateED25519()
+}
+
+// Reads the account back and checks that it has exactly the requested properties
+async function verifyAccount(client: Client, account: CreatedAccount, options: Options) {
+  const accountId = AccountId.fromString(account.id)
+  const privateKey = PrivateKey.fromStringDer(account.privateKey)
+  const info = await new AccountInfoQuery().setAccountId(accountId).execute(client)
+  const problems: string[] = []
+  if (info.key.toString() !== privateKey.publicKey.toString()) problems.push("key does not match")
+  if (!info.balance.toTinybars().equals(options.balance.toTinybars())) problems.push(`balance is ${info.balance}`)
+  if (info.maxAutomaticTokenAssociations.toNumber() !== options.maxAutoAssociations) {
+    problems.push(`max automatic token associations is ${info.maxAutomaticTokenAssociations}`)
+  }
+  if (info.accountMemo !== options.memo) problems.push(`memo is "${info.accountMemo}"`)
+  if (problems.length > 0) {
+    throw new Error(`Account ${accountId} was created but does not match the request: ${problems.join(", ")}`)
+  }
+}
+
+// From the receipt, or from the record when the receipt query fails after the account may have been created
+async function createdAccountId(client: Client, response: TransactionResponse): Promise<AccountId> {
+  let accountId: AccountId | null
+  try {
+    accountId = (await response.getReceipt(client)).accountId
+  } catch (error) {
+    console.error(`Could not get the receipt of ${response.transactionId} (${(error as Error).message}), reading its record`)
+    accountId = (await response.getRecord(client)).receipt.accountId
+  }
+  if (accountId == null) {
+    throw new Error(`The receipt of ${response.transactionId} names no account`)
+  }
+  return accountId
+}
+
+// Prints the key with the transaction ID before sending, so that an account whose ID never comes back can still be
+// found and used. Returns as soon as the ID is known; the caller saves the account before verifying it.
+async function createAccount(client: Client, options: Options, privateKey: PrivateKey): Promise<CreatedAccount> {
+  const transaction = new AccountCreateTransaction()
+    .setKey(privateKey.publicKey)
+    .setInitialBalance(options.balance)
+    .setMaxAutomaticTokenAssociations(options.maxAutoAssociations)
+    .setAccountMemo(options.memo)
+    .setMaxTransactionFee(options.maxFee)
+    .freezeWith(client)
+  const transactionId = transaction.transactionId!.toString()
+  console.error(`Creating an account in transaction ${transactionId} with the ${options.keyType} key ${privateKey.toStringDer()}`)
+  const response = await transaction.execute(client)
+  try {
+    const accountId = await createdAccountId(client, response)
+    return { id: accountId.toString(), keyType: options.keyType, privateKey: privateKey.toStringDer() }
+  } catch (error) {
+    throw new Error(`${(error as Error).message}; the account may exist all the same: look up transaction ${transactionId}, ` +
+      "its key is printed above")
+  }
+}
+
+// Accounts are saved one by one, so that the ones that were created are kept even if a later one fails
+function saver(options: Options): (account: CreatedAccount) => void {
+  const { keystore: keystoreConfig, configFile } = getConfig()
+  if (options.output === "keystore" && keystoreConfig) {
+    const keystore = Keystore.openOrCreate(keystoreConfig.path, keystoreConfig.passphrase)
+    return account => {
+      keystore.add(account.id, PrivateKey.fromStringDer(account.privateKey))
+      keystore.save(keystoreConfig.path)
+      console.error(`Added account ${account.id} to ${keystoreConfig.path}`)
+    }
+  }
+  if (options.output === "config") {
+    return account => {
+      appendAccountsToConfigFile(configFile, [{ id: account.id, privateKey: account.privateKey }])
+      console.error(`Added account ${account.id} to ${configFile}`)
+    }
+  }
+  // One JSON line per account, printed right away
+  return account => console.log(JSON.stringify(account))
+}
+
+async function main(): Promise<number> {
+  const options = parseOptions(process.argv.slice(2))
+  if (!options) {
+    return 0
+  }
+  const client = createClient()
+  try {
+    console.error(`Network ${getConfig().network}, operator ${client.operatorAccountId}`)
+    const affordable = await estimateCost(client, options)
+    if (options.dryRun || !affordable) {
+      return affordable ? 0 : 1
+    }
+
+    const save = saver(options)
+    const created: CreatedAccount[] = []
+    const unverified: string[] = []
+    let failed = 0
+    for (let i = 0; i < options.count; i++) {
+      let account: CreatedAccount
+      try {
+        account = await createAccount(client, options, generateKey(options.keyType))
+      } catch (error) {
+        failed++
+        console.error(`Failed to create account ${i + 1}/${options.count}: ${(error as Error).message}`)
+        continue
+      }
+      // Funded already: its key is saved before anything else can fail
+      save(account)
+      created.push(account)
+      try {
+        await verifyAccount(client, account, options)
+        console.error(`Created account ${i + 1}/${options.count}: ${account.id}`)
+      } catch (error) {
+        unverified.push(account.id)
+        console.error(`Created account ${i + 1}/${options.count}: ${account.id}, UNVERIFIED: ${(error as Error).message}`)
+      }
+    }
+
+    console.error(`${created.length} of ${options.count} account(s) created` +
+      (unverified.length > 0 ? `, ${unverified.length} unverified: ${unverified.join(", ")}` : ""))
+    return failed + unverified.length > 0 ? 1 : 0
+  } finally {
+    client.close()
   }
 }
 
-main().then(console.log).catch(console.error)
+main().then(code => { process.exitCode = code }).catch(error => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exitCode = 1
+})
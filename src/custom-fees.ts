@@ -0,0 +1,117 @@
+import {
+  AccountId,
+  AssessedCustomFee,
+  CustomFee,
+  CustomFixedFee,
+  CustomFractionalFee,
+  CustomRoyaltyFee,
+  FeeAssessmentMethod,
+  Hbar,
+  Long
+} from "@hashgraph/sdk";
+import { HBAR, TransferAsset } from "./transfer-planner";
+
+// Custom fees are set on a token when it is created and charged by the network whenever the token changes hands, on
+// top of the transaction fee. Amounts are in the smallest unit: tinybars for hbar, the token's units otherwise.
+
+// Denominates a fixed fee in the token that charges it, which has no ID yet while it is being created
+export const SAME_TOKEN = "SAME_TOKEN";
+
+export type FeeDenomination = TransferAsset | typeof SAME_TOKEN;
+
+interface FeeSpecBase {
+  collector: AccountId;
+  // Exempts every collector of the token's fees from this fee; a collector never pays its own fee either way
+  allCollectorsExempt?: boolean;
+}
+
+// Paid by each sender of the token (of a serial, for NFTs)
+export interface FixedFeeSpec extends FeeSpecBase {
+  type: "fixed";
+  amount: bigint;
+  denomination: FeeDenomination;
+}
+
+// A share of the units sent, taken from what the receivers get, or charged to the sender on top with netOfTransfers
+export interface FractionalFeeSpec extends FeeSpecBase {
+  type: "fractional";
+  numerator: number;
+  denominator: number;
+  min?: bigint;
+  // No upper bound when left out
+  max?: bigint;
+  netOfTransfers?: boolean;
+}
+
+// A share of the hbar and fungible tokens the sender of an NFT receives in exchange. When the serial is given away,
+// the receiver pays the fallback fee instead, if there is one.
+export interface RoyaltyFeeSpec extends FeeSpecBase {
+  type: "royalty";
+  numerator: number;
+  denominator: number;
+  fallback?: { amount: bigint; denomination: FeeDenomination };
+}
+
+export type CustomFeeSpec = FixedFeeSpec | FractionalFeeSpec | RoyaltyFeeSpec;
+
+// A fee the network charged, as listed in the transaction record
+export interface AssessedFee {
+  collector: AccountId;
+  asset: TransferAsset;
+  amount: bigint;
+  // Whose balance the fee came out of
+  payers: AccountId[];
+}
+
+const toLong = (value: bigint) => Long.fromString(value.toString());
+
+function fixedFee(amount: bigint, denomination: FeeDenomination): CustomFixedFee {
+  if (denomination === HBAR) {
+    return new CustomFixedFee().setHbarAmount(Hbar.fromTinybars(toLong(amount)));
+  }
+  const fee = new CustomFixedFee().setAmount(toLong(amount));
+  return denomination === SAME_TOKEN ? fee.setDenominatingTokenToSameToken() : fee.setDenominatingTokenId(denomination);
+}
+
+export function toCustomFee(spec: CustomFeeSpec): CustomFee {
+  let fee: CustomFee;
+  switch (spec.type) {
+    case "fixed":
+      fee = fixedFee(spec.amount, spec.denomination);
+      break;
+    case "fractional": {
+      const fractional = new CustomFractionalFee()
+        .setNumerator(spec.numerator)
+        .setDenominator(spec.denominator)
+        .setMin(toLong(spec.min ?? BigInt(0)))
+        .setMax(toLong(spec.max ?? BigInt(0)))
+        .setAssessmentMethod(spec.netOfTransfers ? FeeAssessmentMethod.Exclusive : FeeAssessmentMethod.Inclusive);
+      fee = fractional;
+      break;
+    }
+    case "royalty": {
+      const royalty = new CustomRoyaltyFee().setNumerator(spec.numerator).setDenominator(spec.denominator);
+      if (spec.fallback !== undefined) royalty.setFallbackFee(fixedFee(spec.fallback.amount, spec.fallback.denomination));
+      fee = royalty;
+      break;
+    }
+  }
+  return fee.setFeeCollectorAccountId(spec.collector).setAllCollectorsAreExempt(spec.allCollectorsExempt ?? false);
+}
+
+// From a TransactionRecord, or the record the journal captured (see src/transaction-records.ts)
+export function assessedFeesOf(record: { assessedCustomFees: AssessedCustomFee[] }): AssessedFee[] {
+  return record.assessedCustomFees.map((fee) => ({
+    collector: fee.feeCollectorAccountId as AccountId,
+    asset: fee.tokenId ?? HBAR,
+    amount: BigInt((fee.amount ?? Long.ZERO).toString()),
+    payers: fee.payerAccountIds ?? []
+  }));
+}
+
+// The total the collector received in the asset
+export function collectedBy(fees: AssessedFee[], collector: AccountId, asset: TransferAsset): bigint {
+  return fees
+    .filter((fee) => fee.collector.equals(collector) && fee.asset.toString() === asset.toString())
+    .reduce((total, fee) => total + fee.amount, BigInt(0));
+}
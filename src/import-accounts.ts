@@ -0,0 +1,26 @@
+import { config as loadDotEnv } from "dotenv";
+import { readFileSync } from "node:fs";
+import { parsePrivateKey } from "./config";
+import { Keystore } from "./keystore";
+
+// Moves plaintext keys into the configured keystore. Reads one "<account id>:<private key>" pair per line from stdin,
+// so the keys end up neither in the shell history nor in a file:
+//   HEDERA_KEYSTORE=... HEDERA_KEYSTORE_PASSPHRASE=... npx ts-node src/import-accounts.ts < accounts.txt
+function main() {
+  // Not getConfig(): the keystore may not hold any account yet, so there can be no operator to validate
+  loadDotEnv()
+  const { HEDERA_KEYSTORE: path, HEDERA_KEYSTORE_PASSPHRASE: passphrase } = process.env
+  if (!path || !passphrase) {
+    throw new Error("Set HEDERA_KEYSTORE and HEDERA_KEYSTORE_PASSPHRASE to choose the keystore to import into")
+  }
+  const keystore = Keystore.openOrCreate(path, passphrase)
+  const lines = readFileSync(0, "utf8").split("\n").map(line => line.trim()).filter(line => line !== "")
+  for (const line of lines) {
+    const [id, ...key] = line.split(":")
+    keystore.add(id, parsePrivateKey(key.join(":")))
+    console.log(`Imported account ${id}`)
+  }
+  keystore.save(path)
+}
+
+main()
@@ -0,0 +1,190 @@
+import { Key, KeyList, PrivateKey, PublicKey } from "@hashgraph/sdk";
+
+// The shape of a (possibly nested) key before it is bound to actual public keys. Members name accounts, or earlier
+// rows when built from a data table; a missing threshold means all members have to sign.
+export type KeySpec = { name: string } | { threshold: number | null; members: KeySpec[] };
+
+// JSON form of a key: a public key as its DER hex string, or a key list with an optional threshold
+export type SerializedKey = string | { threshold?: number; keys: SerializedKey[] };
+
+export class KeySpecError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "KeySpecError";
+  }
+}
+
+function list(threshold: number | null, members: KeySpec[], where: string): KeySpec {
+  if (members.length === 0) {
+    throw new KeySpecError(`${where} has no members`);
+  }
+  if (threshold !== null && (!Number.isInteger(threshold) || threshold < 1 || threshold > members.length)) {
+    throw new KeySpecError(`${where} needs a threshold between 1 and ${members.length}, got ${threshold}`);
+  }
+  return { threshold, members };
+}
+
+// Parses the compact notation, e.g. "2 of [first, second, third]" or "1 of [first, 2 of [second, third, fourth]]".
+// "all of [...]" requires every member, and parentheses may be used instead of brackets.
+export function parseKeyNotation(text: string): KeySpec {
+  const tokens = text.match(/\[|\]|\(|\)|,|[^\s,[\]()]+/g) ?? [];
+  let position = 0;
+  const peek = () => tokens[position];
+  const next = (expected?: string) => {
+    const token = tokens[position++];
+    if (token === undefined || (expected !== undefined && token.toLowerCase() !== expected)) {
+      throw new KeySpecError(`Expected ${expected === undefined ? "a key" : `"${expected}"`} at ${token === undefined ? "the end" : `"${token}"`} in "${text}"`);
+    }
+    return token;
+  };
+
+  const parseKey = (): KeySpec => {
+    const first = next();
+    if (peek()?.toLowerCase() !== "of") {
+      if (/^[[\](),]$/.test(first)) {
+        throw new KeySpecError(`Expected a key at "${first}" in "${text}"`);
+      }
+      return { name: first };
+    }
+    next("of");
+    const threshold = first.toLowerCase() === "all" ? null : Number(first);
+    const open = next();
+    if (open !== "[" && open !== "(") {
+      throw new KeySpecError(`Expected "[" after "${first} of" in "${text}"`);
+    }
+    const close = open === "(" ? ")" : "]";
+    const members = [parseKey()];
+    while (peek() === ",") {
+      next(",");
+      members.push(parseKey());
+    }
+    next(close);
+    return list(threshold, members, `"${first} of [...]"`);
+  };
+
+  const spec = parseKey();
+  if (position < tokens.length) {
+    throw new KeySpecError(`Unexpected "${tokens[position]}" in "${text}"`);
+  }
+  return spec;
+}
+
+// Builds a key from data table rows with the columns name, threshold and members (comma separated). Members name
+// accounts or rows above them, and the last row is the resulting key:
+//   | name    | threshold | members               |
+//   | council | 2         | second, third, fourth |
+//   | root    | 1         | first, council        |
+export function keySpecFromTable(rows: Record<string, string>[]): KeySpec {
+  const defined = new Map<string, KeySpec>();
+  let last: KeySpec | undefined;
+  for (const [index, row] of rows.entries()) {
+    const name = row.name?.trim();
+    const where = `Row ${index + 1}${name ? ` (${name})` : ""}`;
+    if (!name || row.members === undefined) {
+      throw new KeySpecError(`${where} needs a name and members`);
+    }
+    if (defined.has(name)) {
+      throw new KeySpecError(`${where} defines "${name}" a second time`);
+    }
+    const threshold = !row.threshold?.trim() || row.threshold.trim().toLowerCase() === "all" ? null : Number(row.threshold);
+    const members = row.members.split(",").map((member) => member.trim()).filter((member) => member !== "")
+      .map((member) => defined.get(member) ?? { name: member });
+    last = list(threshold, members, where);
+    defined.set(name, last);
+  }
+  if (last === undefined) {
+    throw new KeySpecError("The key table has no rows");
+  }
+  return last;
+}
+
+export function formatKeySpec(spec: KeySpec): string {
+  if ("name" in spec) {
+    return spec.name;
+  }
+  return `${spec.threshold ?? "all"} of [${spec.members.map(formatKeySpec).join(", ")}]`;
+}
+
+// Binds the names in the spec to keys, e.g. to the public keys of the scenario's accounts
+export function buildKey(spec: KeySpec, resolve: (name: string) => Key): Key {
+  if ("name" in spec) {
+    return resolve(spec.name);
+  }
+  return new KeyList(spec.members.map((member) => buildKey(member, resolve)), spec.threshold);
+}
+
+export function keyToJson(key: Key): SerializedKey {
+  if (key instanceof PublicKey) {
+    return key.toStringDer();
+  }
+  if (key instanceof KeyList) {
+    const keys = key.toArray().map(keyToJson);
+    return key.threshold === null ? { keys } : { threshold: key.threshold, keys };
+  }
+  throw new KeySpecError(`Cannot serialize a ${key.constructor.name}; only public keys and key lists are supported`);
+}
+
+export function keyFromJson(json: SerializedKey): Key {
+  if (typeof json === "string") {
+    try {
+      return PublicKey.fromString(json);
+    } catch (e) {
+      throw new KeySpecError(`Invalid public key "${json}": ${(e as Error).message}`);
+    }
+  }
+  if (json === null || typeof json !== "object" || !Array.isArray(json.keys)) {
+    throw new KeySpecError(`Expected a public key or {"threshold", "keys"}, got ${JSON.stringify(json)}`);
+  }
+  const keys = json.keys.map(keyFromJson);
+  if (keys.length === 0 || (json.threshold !== undefined && (!Number.isInteger(json.threshold) || json.threshold < 1 || json.threshold > keys.length))) {
+    throw new KeySpecError(`Invalid key list with ${keys.length} keys and threshold ${json.threshold}`);
+  }
+  return new KeyList(keys, json.threshold ?? null);
+}
+
+export const serializeKey = (key: Key): string => JSON.stringify(keyToJson(key));
+
+export function parseKey(text: string): Key {
+  let json: SerializedKey;
+  try {
+    json = JSON.parse(text) as SerializedKey;
+  } catch (e) {
+    throw new KeySpecError(`Invalid key JSON: ${(e as Error).message}`);
+  }
+  return keyFromJson(json);
+}
+
+// A set of the available private keys whose signatures satisfy `key`, or null when they cannot. Within a threshold
+// list the members that need the fewest signatures are picked first.
+export function selectSigners(key: Key, available: PrivateKey[]): PrivateKey[] | null {
+  if (key instanceof PublicKey) {
+    const signer = available.find((privateKey) => privateKey.publicKey.equals(key));
+    return signer ? [signer] : null;
+  }
+  if (key instanceof KeyList) {
+    const members = key.toArray();
+    const satisfied = members.map((member) => selectSigners(member, available)).filter((signers): signers is PrivateKey[] => signers !== null);
+    const needed = key.threshold ?? members.length;
+    if (members.length === 0 || satisfied.length < needed) {
+      return null;
+    }
+    const chosen = satisfied.sort((a, b) => a.length - b.length).slice(0, needed).flat();
+    return chosen.filter((signer, index) => chosen.findIndex((other) => other.publicKey.equals(signer.publicKey)) === index);
+  }
+  return null;
+}
+
+export const isKeySatisfiedBy = (key: Key, available: PrivateKey[]): boolean => selectSigners(key, available) !== null;
+
+// Whether signatures by `signers` satisfy `key`, e.g. the signatures already collected on a transaction
+export function isSignedBy(key: Key, signers: PublicKey[]): boolean {
+  if (key instanceof PublicKey) {
+    return signers.some((signer) => signer.equals(key));
+  }
+  if (key instanceof KeyList) {
+    const members = key.toArray();
+    const signed = members.filter((member) => isSignedBy(member, signers)).length;
+    return members.length > 0 && signed >= (key.threshold ?? members.length);
+  }
+  return false;
+}
@@ -0,0 +1,112 @@
+import { PrivateKey } from "@hashgraph/sdk";
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "node:crypto";
+import { existsSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import type { Account } from "./config";
+
+export type KeyType = "ED25519" | "ECDSA";
+
+// On-disk format. Account ids and key types stay readable; every private key is encrypted with AES-256-GCM under a
+// key derived from the passphrase with scrypt, and the id and key type are authenticated along with it.
+export interface KeystoreFile {
+  version: 1,
+  kdf: { name: "scrypt", salt: string, N: number, r: number, p: number },
+  cipher: "aes-256-gcm",
+  entries: KeystoreEntry[]
+}
+
+export interface KeystoreEntry {
+  id: string, keyType: KeyType, iv: string, ciphertext: string, tag: string
+}
+
+export class KeystoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "KeystoreError";
+  }
+}
+
+const KDF_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+const KEY_LENGTH = 32;
+
+function deriveKey(passphrase: string, kdf: KeystoreFile["kdf"]): Buffer {
+  if (kdf.name !== "scrypt") {
+    throw new KeystoreError(`Unsupported keystore KDF "${kdf.name}"`);
+  }
+  return scryptSync(passphrase, Buffer.from(kdf.salt, "hex"), KEY_LENGTH, {
+    N: kdf.N, r: kdf.r, p: kdf.p, maxmem: 256 * kdf.N * kdf.r
+  });
+}
+
+const additionalData = (id: string, keyType: KeyType) => Buffer.from(`${id}/${keyType}`);
+
+// An unlocked keystore: the derived key is kept so that accounts can be added without running the KDF again.
+export class Keystore {
+  private constructor(private readonly file: KeystoreFile, private readonly key: Buffer) {}
+
+  static create(passphrase: string): Keystore {
+    const kdf = { name: "scrypt" as const, salt: randomBytes(16).toString("hex"), ...KDF_PARAMS };
+    return new Keystore({ version: 1, kdf, cipher: "aes-256-gcm", entries: [] }, deriveKey(passphrase, kdf));
+  }
+
+  // Unlocks the keystore at `path`, or starts a new one there when the file does not exist yet.
+  static openOrCreate(path: string, passphrase: string): Keystore {
+    return existsSync(path) ? Keystore.open(path, passphrase) : Keystore.create(passphrase);
+  }
+
+  static open(path: string, passphrase: string): Keystore {
+    let file: KeystoreFile;
+    try {
+      file = JSON.parse(readFileSync(path, "utf8")) as KeystoreFile;
+    } catch (e) {
+      throw new KeystoreError(`Cannot read keystore ${path}: ${(e as Error).message}`);
+    }
+    if (file.version !== 1 || file.cipher !== "aes-256-gcm" || !Array.isArray(file.entries)) {
+      throw new KeystoreError(`${path} is not a version 1 keystore`);
+    }
+    const keystore = new Keystore(file, deriveKey(passphrase, file.kdf));
+    keystore.accounts(); // fails fast on a wrong passphrase
+    return keystore;
+  }
+
+  get ids(): string[] {
+    return this.file.entries.map((entry) => entry.id);
+  }
+
+  add(id: string, privateKey: PrivateKey): void {
+    if (this.ids.includes(id)) {
+      throw new KeystoreError(`Account ${id} is already in the keystore`);
+    }
+    const keyType: KeyType = privateKey.type === "secp256k1" ? "ECDSA" : "ED25519";
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", this.key, iv).setAAD(additionalData(id, keyType));
+    const ciphertext = Buffer.concat([cipher.update(privateKey.toStringDer(), "utf8"), cipher.final()]);
+    this.file.entries.push({
+      id, keyType, iv: iv.toString("hex"), ciphertext: ciphertext.toString("hex"), tag: cipher.getAuthTag().toString("hex")
+    });
+  }
+
+  // Decrypts every entry into the Account shape used by the rest of the code; keys come back DER encoded.
+  accounts(): Account[] {
+    return this.file.entries.map((entry) => {
+      try {
+        const decipher = createDecipheriv("aes-256-gcm", this.key, Buffer.from(entry.iv, "hex"))
+          .setAAD(additionalData(entry.id, entry.keyType));
+        decipher.setAuthTag(Buffer.from(entry.tag, "hex"));
+        const privateKey = Buffer.concat([decipher.update(Buffer.from(entry.ciphertext, "hex")), decipher.final()]);
+        return { id: entry.id, privateKey: privateKey.toString("utf8") };
+      } catch {
+        throw new KeystoreError(`Cannot decrypt account ${entry.id}: wrong passphrase or tampered keystore`);
+      }
+    });
+  }
+
+  // Writes through a temporary file so that an interrupted write never leaves a truncated keystore behind.
+  save(path: string): void {
+    writeFileSync(`${path}.tmp`, JSON.stringify(this.file, null, 2) + "\n", { mode: 0o600 });
+    renameSync(`${path}.tmp`, path);
+  }
+}
+
+export function loadKeystoreAccounts(path: string, passphrase: string): Account[] {
+  return Keystore.open(path, passphrase).accounts();
+}
@@ -0,0 +1,109 @@
+import {
+  AccountId,
+  Client,
+  CustomFee,
+  Key,
+  NftId,
+  PrivateKey,
+  ReceiptStatusError,
+  Status,
+  TokenId,
+  TokenMintTransaction,
+  TokenNftInfo,
+  TokenNftInfoQuery
+} from "@hashgraph/sdk";
+import { TokenAmount } from "./token-amount";
+import { createToken, tokenSpec } from "./token-spec";
+import { executeQuery, submitTransaction } from "./transaction-records";
+import { waitFor, WaitOptions } from "./wait";
+
+// Limits of the network: serials minted by one TokenMintTransaction, and bytes of metadata per serial
+export const MAX_MINT_BATCH = 10;
+export const MAX_NFT_METADATA_BYTES = 100;
+
+export interface NftCollectionOptions {
+  name: string;
+  symbol: string;
+  treasury: AccountId;
+  // Signs every mint
+  supplyKey: Key;
+  adminKey?: Key;
+  // A finite collection can never hold more serials than this; without it the supply is infinite
+  maxSupply?: number;
+  memo?: string;
+  // Fixed and royalty fees, see src/custom-fees.ts
+  customFees?: CustomFee[];
+}
+
+export class NftMintError extends Error {
+  // `status` is the one of the rejected batch, e.g. TOKEN_MAX_SUPPLY_REACHED once a finite collection is full
+  constructor(message: string, readonly minted: bigint[] = [], readonly status?: Status) {
+    super(message);
+    this.name = "NftMintError";
+  }
+}
+
+// Creates a NonFungibleUnique token from its spec (see src/token-spec.ts), which is checked before anything is
+// submitted. `signers` are the keys the creation needs besides the operator's: the treasury's and the admin key's.
+export function createNftCollection(client: Client, options: NftCollectionOptions, signers: PrivateKey[] = []): Promise<TokenId> {
+  const denomination = { decimals: 0, symbol: options.symbol };
+  return createToken(client, tokenSpec({
+    name: options.name,
+    symbol: options.symbol,
+    type: "non-fungible",
+    treasury: options.treasury,
+    maxSupply: options.maxSupply !== undefined ? TokenAmount.fromUnits(options.maxSupply, denomination) : undefined,
+    keys: { supplyKey: options.supplyKey, adminKey: options.adminKey },
+    memo: options.memo,
+    customFees: options.customFees
+  }), signers);
+}
+
+// Mints one serial per metadata entry, in as many transactions as the batch limit requires, and returns the serials
+// in the order of the metadata. Fails before minting anything when an entry is empty or too long, and with the serials
+// minted so far when a batch is rejected.
+export async function mintNfts(client: Client, tokenId: TokenId, metadata: (string | Uint8Array)[], supplyKey: PrivateKey): Promise<bigint[]> {
+  const entries = metadata.map((entry) => (typeof entry === "string" ? Buffer.from(entry, "utf8") : entry));
+  if (entries.length === 0) {
+    throw new NftMintError(`Nothing to mint for ${tokenId}`);
+  }
+  const invalid = entries.findIndex((entry) => entry.length === 0 || entry.length > MAX_NFT_METADATA_BYTES);
+  if (invalid >= 0) {
+    throw new NftMintError(`The metadata of NFT #${invalid + 1} has ${entries[invalid].length} bytes; it needs 1 to ${MAX_NFT_METADATA_BYTES}`);
+  }
+
+  const minted: bigint[] = [];
+  for (let start = 0; start < entries.length; start += MAX_MINT_BATCH) {
+    const batch = entries.slice(start, start + MAX_MINT_BATCH);
+    const mint = await new TokenMintTransaction().setTokenId(tokenId).setMetadata(batch).freezeWith(client).sign(supplyKey);
+    try {
+      const receipt = await (await submitTransaction(client, mint)).getReceipt(client);
+      minted.push(...receipt.serials.map((serial) => BigInt(serial.toString())));
+    } catch (error) {
+      const status = error instanceof ReceiptStatusError ? error.status : undefined;
+      throw new NftMintError(
+        `Minting NFTs ${start + 1} to ${start + batch.length} of ${tokenId} failed: ${status ?? (error as Error).message}` +
+          (minted.length > 0 ? `; serials ${minted.join(", ")} were minted before` : ""),
+        minted,
+        status
+      );
+    }
+  }
+  return minted;
+}
+
+export async function getNft(client: Client, nft: NftId): Promise<TokenNftInfo> {
+  const [info] = await executeQuery(client, new TokenNftInfoQuery().setNftId(nft));
+  return info;
+}
+
+export async function nftOwner(client: Client, nft: NftId): Promise<AccountId> {
+  return (await getNft(client, nft)).accountId;
+}
+
+// Until the serial is seen with the expected owner
+export function waitForNftOwner(client: Client, nft: NftId, owner: AccountId, options: WaitOptions = {}): Promise<TokenNftInfo> {
+  return waitFor(() => getNft(client, nft), (info) => info.accountId.equals(owner),
+    { description: `NFT ${nft} to be owned by ${owner}`, ...options }, (info) => `owned by ${info.accountId}`);
+}
+
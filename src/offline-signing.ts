@@ -0,0 +1,262 @@
+import { proto } from "@hashgraph/proto";
+import {
+  AccountId,
+  Client,
+  Key,
+  PrivateKey,
+  PublicKey,
+  Transaction,
+  TransactionResponse,
+  TransferTransaction
+} from "@hashgraph/sdk";
+import { readFileSync, writeFileSync } from "node:fs";
+import { isSignedBy } from "./key-structure";
+import { submitTransaction } from "./transaction-records";
+import { resolveRequiredSignatures, transferLegsOf } from "./transfer-planner";
+
+// A frozen transaction travels between the parties as the bytes of `Transaction.toBytes()`: one signed copy of the
+// body per node it may be submitted to. Every party signs all copies, and the signatures of the parties are merged
+// copy by copy before the transaction is submitted.
+
+export class OfflineSigningError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OfflineSigningError";
+  }
+}
+
+export interface SignatureSummary {
+  publicKey: string;
+  // False when the signature does not verify against every copy of the body
+  valid: boolean;
+}
+
+export interface TransferSummary {
+  token?: string;
+  account: string;
+  amount: string;
+}
+
+export interface TransactionSummary {
+  type: string;
+  transactionId: string;
+  payer: string;
+  validStart: string;
+  validUntil: string;
+  expired: boolean;
+  memo: string;
+  maxTransactionFee: string | null;
+  nodes: string[];
+  transfers: TransferSummary[];
+  signatures: SignatureSummary[];
+}
+
+export interface RequiredSigner {
+  accountId: AccountId;
+  key: Key;
+  signed: boolean;
+}
+
+// Files hold the bytes base64 encoded, so that they can also be pasted into a chat or an e-mail
+export function writeTransactionFile(path: string, bytes: Uint8Array): void {
+  writeFileSync(path, Buffer.from(bytes).toString("base64") + "\n");
+}
+
+export function readTransactionFile(path: string): Uint8Array {
+  const text = readFileSync(path, "utf8").trim();
+  if (!/^[A-Za-z0-9+/=\s]+$/.test(text)) {
+    throw new OfflineSigningError(`${path} does not contain a base64 encoded transaction`);
+  }
+  return Buffer.from(text, "base64");
+}
+
+export function exportTransaction(transaction: Transaction): Uint8Array {
+  if (!transaction.isFrozen()) {
+    throw new OfflineSigningError("Only a frozen transaction can be exported; call freezeWith() first");
+  }
+  return transaction.toBytes();
+}
+
+export function importTransaction(bytes: Uint8Array): Transaction {
+  try {
+    return Transaction.fromBytes(bytes);
+  } catch (e) {
+    throw new OfflineSigningError(`Not a serialized transaction: ${(e as Error).message}`);
+  }
+}
+
+// Adds the key's signature to every copy of the body and returns the signed bytes
+export async function signTransactionBytes(bytes: Uint8Array, key: PrivateKey): Promise<Uint8Array> {
+  const transaction = importTransaction(bytes);
+  await transaction.sign(key);
+  return transaction.toBytes();
+}
+
+function decode(bytes: Uint8Array): proto.ISignedTransaction[] {
+  const copies = proto.TransactionList.decode(bytes).transactionList.map((transaction) => {
+    if (transaction.signedTransactionBytes == null || transaction.signedTransactionBytes.length === 0) {
+      throw new OfflineSigningError("The transaction uses the deprecated unsigned body format");
+    }
+    return proto.SignedTransaction.decode(transaction.signedTransactionBytes);
+  });
+  if (copies.length === 0) {
+    throw new OfflineSigningError("The bytes do not contain a transaction");
+  }
+  return copies;
+}
+
+function encode(copies: proto.ISignedTransaction[]): Uint8Array {
+  return proto.TransactionList.encode({
+    transactionList: copies.map((copy) => ({ signedTransactionBytes: proto.SignedTransaction.encode(copy).finish() }))
+  }).finish();
+}
+
+const hex = (bytes: Uint8Array | null | undefined) => Buffer.from(bytes ?? []).toString("hex");
+
+function verify(pair: proto.ISignaturePair, body: Uint8Array): boolean {
+  const prefix = pair.pubKeyPrefix ?? new Uint8Array();
+  try {
+    if (pair.ed25519?.length) {
+      return PublicKey.fromBytesED25519(prefix).verify(body, pair.ed25519);
+    }
+    if (pair.ECDSASecp256k1?.length) {
+      return PublicKey.fromBytesECDSA(prefix).verify(body, pair.ECDSASecp256k1);
+    }
+  } catch {
+    // a prefix that is not a full public key cannot be verified offline
+  }
+  return false;
+}
+
+function publicKeyOf(pair: proto.ISignaturePair): PublicKey | null {
+  try {
+    const prefix = pair.pubKeyPrefix ?? new Uint8Array();
+    return pair.ECDSASecp256k1?.length ? PublicKey.fromBytesECDSA(prefix) : PublicKey.fromBytesED25519(prefix);
+  } catch {
+    return null;
+  }
+}
+
+// Combines copies of the same transaction that were signed by different parties. Fails when a copy is of another
+// transaction, or carries a signature that does not verify.
+export function mergeSignatures(copies: Uint8Array[]): Uint8Array {
+  if (copies.length === 0) {
+    throw new OfflineSigningError("Nothing to merge");
+  }
+  const [base, ...others] = copies.map(decode);
+  const merged = base.map((copy) => ({ bodyBytes: copy.bodyBytes, sigMap: { sigPair: [] as proto.ISignaturePair[] } }));
+  for (const [index, signed] of [base, ...others].entries()) {
+    const bodies = signed.map((copy) => hex(copy.bodyBytes));
+    if (bodies.length !== base.length || bodies.some((body, i) => body !== hex(base[i].bodyBytes))) {
+      throw new OfflineSigningError(`Copy ${index + 1} is not the same transaction as copy 1 (different body or nodes)`);
+    }
+    signed.forEach((copy, i) => {
+      for (const pair of copy.sigMap?.sigPair ?? []) {
+        const body = copy.bodyBytes ?? new Uint8Array();
+        if (!verify(pair, body)) {
+          throw new OfflineSigningError(`Copy ${index + 1} carries an invalid signature of ${hex(pair.pubKeyPrefix)}`);
+        }
+        if (!merged[i].sigMap.sigPair.some((existing) => hex(existing.pubKeyPrefix) === hex(pair.pubKeyPrefix))) {
+          merged[i].sigMap.sigPair.push(pair);
+        }
+      }
+    });
+  }
+  return encode(merged);
+}
+
+// Every key that signed any copy; a signature only counts as valid when it verifies on all copies
+export function signaturesOf(bytes: Uint8Array): SignatureSummary[] {
+  const copies = decode(bytes);
+  const signers = new Map<string, { publicKey: PublicKey | null; valid: number }>();
+  for (const copy of copies) {
+    for (const pair of copy.sigMap?.sigPair ?? []) {
+      const prefix = hex(pair.pubKeyPrefix);
+      const entry = signers.get(prefix) ?? { publicKey: publicKeyOf(pair), valid: 0 };
+      entry.valid += verify(pair, copy.bodyBytes ?? new Uint8Array()) ? 1 : 0;
+      signers.set(prefix, entry);
+    }
+  }
+  return [...signers].map(([prefix, entry]) => ({
+    publicKey: entry.publicKey?.toStringDer() ?? prefix,
+    valid: entry.valid === copies.length
+  }));
+}
+
+// Public keys with a valid signature on every copy
+function validSigners(bytes: Uint8Array): PublicKey[] {
+  return signaturesOf(bytes).filter((signature) => signature.valid).map((signature) => PublicKey.fromString(signature.publicKey));
+}
+
+export function inspectTransaction(bytes: Uint8Array): TransactionSummary {
+  const transaction = importTransaction(bytes);
+  const transactionId = transaction.transactionId;
+  if (transactionId?.accountId == null || transactionId.validStart == null) {
+    throw new OfflineSigningError("The transaction has no transaction ID");
+  }
+  const validStart = transactionId.validStart.toDate();
+  const validUntil = new Date(validStart.getTime() + transaction.transactionValidDuration * 1000);
+  return {
+    type: transaction.constructor.name,
+    transactionId: transactionId.toString(),
+    payer: transactionId.accountId.toString(),
+    validStart: validStart.toISOString(),
+    validUntil: validUntil.toISOString(),
+    expired: validUntil.getTime() < Date.now(),
+    memo: transaction.transactionMemo,
+    maxTransactionFee: transaction.maxTransactionFee?.toString() ?? null,
+    nodes: (transaction.nodeAccountIds ?? []).map((node) => node.toString()),
+    transfers: transfersOf(transaction),
+    signatures: signaturesOf(bytes)
+  };
+}
+
+function transfersOf(transaction: Transaction): TransferSummary[] {
+  if (!(transaction instanceof TransferTransaction)) {
+    return [];
+  }
+  const transfers: TransferSummary[] = [];
+  for (const [account, amount] of transaction.hbarTransfers) {
+    transfers.push({ account: account.toString(), amount: amount.toString() });
+  }
+  for (const [token, accounts] of transaction.tokenTransfers) {
+    for (const [account, amount] of accounts) {
+      transfers.push({ token: token.toString(), account: account.toString(), amount: amount.toString() });
+    }
+  }
+  for (const [token, nfts] of transaction.nftTransfers) {
+    for (const nft of nfts) {
+      transfers.push({ token: `${token}/${nft.serial}`, account: nft.sender.toString(), amount: "-1" });
+      transfers.push({ token: `${token}/${nft.serial}`, account: nft.recipient.toString(), amount: "1" });
+    }
+  }
+  return transfers;
+}
+
+// Looks up the keys of the required signers (see resolveRequiredSignatures) and checks them against the signatures
+// collected so far. Only transfers are understood in detail; for other transactions only the payer is checked.
+export async function checkRequiredSigners(client: Client, bytes: Uint8Array): Promise<RequiredSigner[]> {
+  const transaction = importTransaction(bytes);
+  const payer = transaction.transactionId?.accountId;
+  if (payer == null) {
+    throw new OfflineSigningError("The transaction has no transaction ID");
+  }
+  const legs = transaction instanceof TransferTransaction ? transferLegsOf(transaction) : [];
+  const signers = validSigners(bytes);
+  return (await resolveRequiredSignatures(client, payer, legs))
+    .map(({ accountId, key }) => ({ accountId, key, signed: isSignedBy(key, signers) }));
+}
+
+// Merges the signed copies, adds the signature of the client's operator (as executing the transaction would), makes
+// sure every required signer has signed and submits the result
+export async function submitSignedTransaction(client: Client, copies: Uint8Array[]): Promise<TransactionResponse> {
+  const transaction = importTransaction(mergeSignatures(copies));
+  if (client.operatorAccountId !== null) {
+    await transaction.signWithOperator(client);
+  }
+  const missing = (await checkRequiredSigners(client, transaction.toBytes())).filter((signer) => !signer.signed);
+  if (missing.length > 0) {
+    throw new OfflineSigningError(`The transaction still needs the signature of ${missing.map((signer) => signer.accountId.toString()).join(", ")}`);
+  }
+  return submitTransaction(client, transaction);
+}
@@ -0,0 +1,175 @@
+import {
+  Client,
+  MaxAttemptsOrTimeoutError,
+  PrecheckStatusError,
+  ReceiptStatusError,
+  Status,
+  Transaction,
+  TransactionId,
+  TransactionReceipt,
+  TransactionReceiptQuery
+} from "@hashgraph/sdk";
+import { submitTransaction } from "./transaction-records";
+
+// Submits a transaction until it reaches consensus, retrying transient failures: the network being busy, a node that
+// cannot be reached, or the SDK giving up on its own retries (e.g. of a receipt). Every attempt submits the same signed
+// transaction, so it keeps its TransactionId, and the network runs it at most once. Before submitting again, the
+// receipt is checked, in case the previous attempt reached consensus even though its response got lost.
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  // Delay before the second attempt; it grows by `backoffFactor` up to `maxDelayMs`
+  initialDelayMs: number;
+  maxDelayMs: number;
+  backoffFactor: number;
+  // Failures to retry: precheck statuses (BUSY), gRPC statuses (UNAVAILABLE), and TIMEOUT for the SDK giving up
+  retryOn: string[];
+}
+
+const DEFAULT_RETRY_ON = ["BUSY", "PLATFORM_TRANSACTION_NOT_CREATED", "PLATFORM_NOT_ACTIVE", "UNAVAILABLE", "TIMEOUT"];
+
+// Defaults, overridable with HEDERA_RETRY_MAX_ATTEMPTS, HEDERA_RETRY_INITIAL_DELAY_MS, HEDERA_RETRY_MAX_DELAY_MS and
+// HEDERA_RETRY_ON (comma separated)
+export function defaultRetryPolicy(): RetryPolicy {
+  const fromEnv = (name: string, fallback: number) => {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+  const retryOn = process.env.HEDERA_RETRY_ON?.split(",").map((name) => name.trim()).filter((name) => name !== "");
+  return {
+    maxAttempts: fromEnv("HEDERA_RETRY_MAX_ATTEMPTS", 3),
+    initialDelayMs: fromEnv("HEDERA_RETRY_INITIAL_DELAY_MS", 500),
+    maxDelayMs: fromEnv("HEDERA_RETRY_MAX_DELAY_MS", 8_000),
+    backoffFactor: 2,
+    retryOn: retryOn ?? DEFAULT_RETRY_ON
+  };
+}
+
+// One attempt to submit a transaction, as logged
+export interface SubmissionAttempt {
+  transactionId: string;
+  attempt: number;
+  maxAttempts: number;
+  // "already executed": an earlier attempt reached consensus, so this one was not submitted
+  outcome: "executed" | "already executed" | "retrying" | "failed";
+  status?: string;
+  failure?: string;
+  delayMs?: number;
+  elapsedMs: number;
+}
+
+export type AttemptLogger = (attempt: SubmissionAttempt) => void;
+
+export const logAttempt: AttemptLogger = (attempt) => console.log(JSON.stringify({ event: "submission-attempt", ...attempt }));
+
+export class RetriesExhaustedError extends Error {
+  constructor(readonly transactionId: TransactionId, readonly attempts: number, readonly lastError: unknown) {
+    super(`Transaction ${transactionId} failed after ${attempts} attempt(s); last error: ${lastError instanceof Error ? lastError.message : String(lastError)}`);
+    this.name = "RetriesExhaustedError";
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// The name the policy knows a failure by, or undefined when it is not worth retrying
+function failureName(error: unknown): string | undefined {
+  if (error instanceof PrecheckStatusError) {
+    return error.status.toString();
+  }
+  // The SDK does not export GrpcServiceError; its status is a GrpcStatus, e.g. UNAVAILABLE
+  if (error instanceof Error && error.name === "GrpcServiceError") {
+    return String((error as Error & { status: unknown }).status);
+  }
+  if (error instanceof MaxAttemptsOrTimeoutError) {
+    return "TIMEOUT";
+  }
+  // What the SDK throws when the gRPC errors of every node made it set them all aside
+  if (error instanceof Error && error.message.startsWith("Network connectivity issue")) {
+    return "UNAVAILABLE";
+  }
+  return undefined;
+}
+
+// The receipt of a transaction that reached consensus; undefined when the network does not know it (yet). The network
+// is asked once: the SDK would keep retrying RECEIPT_NOT_FOUND and UNKNOWN, and the policy already paces the attempts.
+// A transaction still on its way to consensus is resubmitted, which the network rejects as DUPLICATE_TRANSACTION.
+async function existingReceipt(client: Client, transactionId: TransactionId): Promise<TransactionReceipt | undefined> {
+  try {
+    const receipt = await new TransactionReceiptQuery()
+      .setTransactionId(transactionId)
+      .setValidateStatus(false)
+      .setMaxAttempts(1)
+      .execute(client);
+    return receipt.status === Status.Unknown ? undefined : receipt;
+  } catch (error) {
+    if (failureName(error) !== undefined || (error instanceof PrecheckStatusError && error.status === Status.ReceiptNotFound)) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+// A receipt with a failure status throws ReceiptStatusError, like TransactionResponse.getReceipt
+function validated(receipt: TransactionReceipt, transactionId: TransactionId): TransactionReceipt {
+  if (receipt.status !== Status.Success) {
+    throw new ReceiptStatusError({ status: receipt.status, transactionId, transactionReceipt: receipt });
+  }
+  return receipt;
+}
+
+// Submits the transaction (frozen and signed, or frozen with the client here) and returns its receipt. Throws
+// RetriesExhaustedError when every attempt failed transiently, and the error itself for any other failure.
+export async function executeWithRetry(
+  client: Client,
+  transaction: Transaction,
+  policy: Partial<RetryPolicy> = {},
+  log: AttemptLogger = logAttempt
+): Promise<TransactionReceipt> {
+  const { maxAttempts, initialDelayMs, maxDelayMs, backoffFactor, retryOn } = { ...defaultRetryPolicy(), ...policy };
+  if (!transaction.isFrozen()) {
+    transaction.freezeWith(client);
+  }
+  const transactionId = transaction.transactionId;
+  if (transactionId == null) {
+    throw new Error("A frozen transaction has no transaction ID");
+  }
+  const started = Date.now();
+  const logged = (attempt: number, outcome: SubmissionAttempt["outcome"], details: Partial<SubmissionAttempt> = {}) =>
+    log({ transactionId: transactionId.toString(), attempt, maxAttempts, outcome, ...details, elapsedMs: Date.now() - started });
+
+  let delayMs = initialDelayMs;
+  for (let attempt = 1; ; attempt++) {
+    if (attempt > 1) {
+      const receipt = await existingReceipt(client, transactionId);
+      if (receipt !== undefined) {
+        logged(attempt, "already executed", { status: receipt.status.toString() });
+        return validated(receipt, transactionId);
+      }
+    }
+    try {
+      const receipt = await (await submitTransaction(client, transaction)).getReceipt(client);
+      logged(attempt, "executed", { status: receipt.status.toString() });
+      return receipt;
+    } catch (error) {
+      // The network already has it: an earlier attempt (or the SDK's own retry on another node) got through, so its
+      // receipt is what counts
+      if (error instanceof PrecheckStatusError && error.status === Status.DuplicateTransaction) {
+        const receipt = await new TransactionReceiptQuery().setTransactionId(transactionId).setValidateStatus(false).execute(client);
+        logged(attempt, "already executed", { status: receipt.status.toString() });
+        return validated(receipt, transactionId);
+      }
+      const failure = failureName(error);
+      if (failure === undefined || !retryOn.includes(failure)) {
+        logged(attempt, "failed", { status: (error as { status?: unknown }).status?.toString() });
+        throw error;
+      }
+      if (attempt >= maxAttempts) {
+        logged(attempt, "failed", { failure });
+        throw new RetriesExhaustedError(transactionId, attempt, error);
+      }
+      logged(attempt, "retrying", { failure, delayMs });
+      await sleep(delayMs);
+      delayMs = Math.min(delayMs * backoffFactor, maxDelayMs);
+    }
+  }
+}
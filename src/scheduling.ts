@@ -0,0 +1,155 @@
+import {
+  AccountId,
+  Client,
+  Key,
+  PrecheckStatusError,
+  PrivateKey,
+  PublicKey,
+  ScheduleCreateTransaction,
+  ScheduleDeleteTransaction,
+  ScheduleId,
+  ScheduleInfo,
+  ScheduleInfoQuery,
+  ScheduleSignTransaction,
+  Status,
+  Timestamp,
+  Transaction,
+  TransactionId,
+  TransactionReceipt,
+  TransactionReceiptQuery
+} from "@hashgraph/sdk";
+import { isSignedBy } from "./key-structure";
+import { executeQuery, submitTransaction } from "./transaction-records";
+import { balanceLegs, RequiredSignature, resolveRequiredSignatures, TransferLeg, transferTransactionOf } from "./transfer-planner";
+import { waitFor, WaitOptions } from "./wait";
+
+// A scheduled transaction waits on the network until everyone it needs has signed the schedule, and then runs on its
+// own. The parties can approve at different times without handing a frozen transaction around, as long as they do so
+// before the schedule expires.
+
+export type ScheduleState = "pending" | "executed" | "expired" | "deleted";
+
+export interface ScheduleOptions {
+  // Pays for the scheduled transaction when it runs; defaults to the operator, who pays for creating the schedule
+  payer?: AccountId;
+  // Allows deleting the schedule before it runs
+  adminKey?: Key;
+  memo?: string;
+  // When the schedule lapses if it is still missing signatures; the network's default is 30 minutes after creation
+  expiresAt?: Date;
+  // Approvals given right away; the operator's signature always counts as one
+  signers?: PrivateKey[];
+}
+
+export interface CreatedSchedule {
+  scheduleId: ScheduleId;
+  // Receipt and record of the scheduled transaction are found under this ID once it ran
+  scheduledTransactionId: TransactionId;
+  payer: AccountId;
+}
+
+export interface ScheduledTransfer extends CreatedSchedule {
+  legs: TransferLeg[];
+  // Who has to approve before the transfer runs, as worked out by the transfer planner
+  requiredSignatures: RequiredSignature[];
+}
+
+export interface ScheduleStatus {
+  scheduleId: ScheduleId;
+  state: ScheduleState;
+  // Null once the network forgot the schedule after it expired
+  info: ScheduleInfo | null;
+  // The keys that signed the schedule so far
+  signers: PublicKey[];
+}
+
+export class ScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScheduleError";
+  }
+}
+
+// Wraps the (unfrozen) transaction in a ScheduleCreateTransaction, paid for by the client's operator
+export async function scheduleTransaction(client: Client, transaction: Transaction, options: ScheduleOptions = {}): Promise<CreatedSchedule> {
+  const payer = options.payer ?? client.operatorAccountId;
+  if (payer == null) {
+    throw new ScheduleError("No payer given and the client has no operator");
+  }
+  const create = new ScheduleCreateTransaction().setScheduledTransaction(transaction).setPayerAccountId(payer);
+  if (options.adminKey !== undefined) create.setAdminKey(options.adminKey);
+  if (options.memo !== undefined) create.setScheduleMemo(options.memo);
+  if (options.expiresAt !== undefined) create.setExpirationTime(Timestamp.fromDate(options.expiresAt));
+
+  create.freezeWith(client);
+  for (const signer of options.signers ?? []) {
+    await create.sign(signer);
+  }
+  const receipt = await (await submitTransaction(client, create)).getReceipt(client);
+  if (receipt.scheduleId == null || receipt.scheduledTransactionId == null) {
+    throw new ScheduleError(`The receipt of ${create.transactionId} has no schedule ID`);
+  }
+  return { scheduleId: receipt.scheduleId, scheduledTransactionId: receipt.scheduledTransactionId, payer };
+}
+
+// Schedules a transfer of the legs, which have to net to zero per asset like for planTransfer
+export async function scheduleTransfer(client: Client, legs: TransferLeg[], options: ScheduleOptions = {}): Promise<ScheduledTransfer> {
+  const balanced = balanceLegs(legs);
+  const created = await scheduleTransaction(client, transferTransactionOf(balanced), options);
+  return { ...created, legs: balanced, requiredSignatures: await resolveRequiredSignatures(client, created.payer, balanced) };
+}
+
+// Adds the keys' signatures to the schedule; the client's operator pays. The scheduled transaction runs as part of the
+// approval that completes its signatures.
+export async function approveSchedule(client: Client, scheduleId: ScheduleId, keys: PrivateKey[]): Promise<TransactionReceipt> {
+  const sign = new ScheduleSignTransaction().setScheduleId(scheduleId).freezeWith(client);
+  for (const key of keys) {
+    await sign.sign(key);
+  }
+  return (await submitTransaction(client, sign)).getReceipt(client);
+}
+
+export async function deleteSchedule(client: Client, scheduleId: ScheduleId, adminKey: PrivateKey): Promise<TransactionReceipt> {
+  const deletion = await new ScheduleDeleteTransaction().setScheduleId(scheduleId).freezeWith(client).sign(adminKey);
+  return (await submitTransaction(client, deletion)).getReceipt(client);
+}
+
+function stateOf(info: ScheduleInfo): ScheduleState {
+  if (info.deleted != null) return "deleted";
+  if (info.executed != null) return "executed";
+  if (info.expirationTime != null && info.expirationTime.toDate().getTime() <= Date.now()) return "expired";
+  return "pending";
+}
+
+// The network forgets a schedule when it expires, after which it answers with INVALID_SCHEDULE_ID like for an ID that
+// never existed. Only use this with IDs taken from a receipt, so that an unknown schedule means an expired one.
+export async function getScheduleStatus(client: Client, scheduleId: ScheduleId): Promise<ScheduleStatus> {
+  let info: ScheduleInfo;
+  try {
+    info = await executeQuery(client, new ScheduleInfoQuery().setScheduleId(scheduleId));
+  } catch (error) {
+    if (error instanceof PrecheckStatusError && error.status === Status.InvalidScheduleId) {
+      return { scheduleId, state: "expired", info: null, signers: [] };
+    }
+    throw error;
+  }
+  const signers = (info.signers?.toArray() ?? []).filter((key): key is PublicKey => key instanceof PublicKey);
+  return { scheduleId, state: stateOf(info), info, signers };
+}
+
+// The required signatures that the schedule does not have yet
+export function missingApprovals(transfer: ScheduledTransfer, status: ScheduleStatus): RequiredSignature[] {
+  return transfer.requiredSignatures.filter((required) => !isSignedBy(required.key, status.signers));
+}
+
+const describeStatus = (status: ScheduleStatus) => `${status.scheduleId} is ${status.state} (signed by ${status.signers.length} keys)`;
+
+export function waitForScheduleState(client: Client, scheduleId: ScheduleId, state: ScheduleState, options: WaitOptions = {}): Promise<ScheduleStatus> {
+  return waitFor(() => getScheduleStatus(client, scheduleId), (status) => status.state === state,
+    { description: `schedule ${scheduleId} to be ${state}`, ...options }, describeStatus);
+}
+
+// The receipt of the scheduled transaction itself, which can fail even though the schedule executed
+export function scheduledReceipt(client: Client, schedule: CreatedSchedule): Promise<TransactionReceipt> {
+  return new TransactionReceiptQuery().setTransactionId(schedule.scheduledTransactionId).setValidateStatus(false).execute(client);
+}
@@ -0,0 +1,197 @@
+import { com, proto } from "@hashgraph/proto";
+import { LedgerStatusError } from "./errors";
+import { nanosToTimestamp, timestampToNanos, toBigInt, toLong, topicIdToString } from "./ids";
+import type { SimulatedLedger } from "./ledger";
+import { SimulatedTopicMessage } from "./state";
+
+type RpcCallback = (error: Error | null, response?: Uint8Array) => void;
+type RpcMethod = { name: string };
+
+// gRPC UNAVAILABLE, what a client sees when the connection to a node fails
+const GRPC_UNAVAILABLE = 14;
+
+// Every gRPC method that takes a `Query`; all the others take a `Transaction`.
+const QUERY_METHODS = new Set([
+  "contractCallLocalMethod",
+  "contractGetBytecode",
+  "cryptoGetBalance",
+  "getAccountDetails",
+  "getAccountInfo",
+  "getAccountRecords",
+  "getBySolidityID",
+  "getContractInfo",
+  "getExecutionTime",
+  "getFileContent",
+  "getFileInfo",
+  "getLiveHash",
+  "getScheduleInfo",
+  "getTokenInfo",
+  "getTokenNftInfo",
+  "getTopicInfo",
+  "getTransactionReceipts",
+  "getTxRecordByContractID",
+  "getTxRecordByTxID",
+  "getVersionInfo"
+]);
+
+// Replaces the SDK's gRPC NodeChannel. Requests still go through protobuf encoding in both
+// directions so the SDK sees byte-for-byte what it would get from a real node.
+export class SimulatedChannel {
+  private readonly services = new Map<string, unknown>();
+
+  constructor(private readonly ledger: SimulatedLedger) {}
+
+  get crypto() {
+    return this.service("crypto", proto.CryptoService);
+  }
+
+  get smartContract() {
+    return this.service("smartContract", proto.SmartContractService);
+  }
+
+  get file() {
+    return this.service("file", proto.FileService);
+  }
+
+  get consensus() {
+    return this.service("consensus", proto.ConsensusService);
+  }
+
+  get freeze() {
+    return this.service("freeze", proto.FreezeService);
+  }
+
+  get network() {
+    return this.service("network", proto.NetworkService);
+  }
+
+  get token() {
+    return this.service("token", proto.TokenService);
+  }
+
+  get schedule() {
+    return this.service("schedule", proto.ScheduleService);
+  }
+
+  get util() {
+    return this.service("util", proto.UtilService);
+  }
+
+  close(): void {
+    this.services.clear();
+  }
+
+  private service<T>(name: string, service: { create(rpcImpl: (method: RpcMethod, data: Uint8Array, callback: RpcCallback) => void): T }): T {
+    if (!this.services.has(name)) {
+      this.services.set(name, service.create((method, data, callback) => this.call(method, data, callback)));
+    }
+    return this.services.get(name) as T;
+  }
+
+  private call(method: RpcMethod, data: Uint8Array, callback: RpcCallback): void {
+    // Answer asynchronously, like a network round trip would.
+    setImmediate(() => {
+      try {
+        if (QUERY_METHODS.has(method.name)) {
+          return callback(null, proto.Response.encode(this.ledger.answerQuery(proto.Query.decode(data))).finish());
+        }
+        const fault = this.ledger.takeFault();
+        const response = fault !== "request lost" ? this.ledger.submitTransaction(proto.Transaction.decode(data)) : undefined;
+        if (fault !== undefined) {
+          return callback(Object.assign(new Error(fault), { code: GRPC_UNAVAILABLE, details: `simulated connection failure: ${fault}` }));
+        }
+        callback(null, proto.TransactionResponse.encode(response ?? {}).finish());
+      } catch (error) {
+        callback(error as Error);
+      }
+    });
+  }
+}
+
+// gRPC NOT_FOUND, which the SDK's TopicMessageQuery retries like it does for a lagging mirror node.
+const GRPC_NOT_FOUND = 5;
+
+// Replaces the SDK's NodeMirrorChannel and streams topic messages straight from the ledger.
+export class SimulatedMirrorChannel {
+  constructor(private readonly ledger: SimulatedLedger) {}
+
+  close(): void {}
+
+  makeServerStreamRequest(
+    serviceName: string,
+    methodName: string,
+    requestData: Uint8Array,
+    callback: (data: Uint8Array) => void,
+    error: (error: Error | { code: number; details: string }) => void,
+    end?: () => void
+  ): () => void {
+    if (serviceName !== "ConsensusService" || methodName !== "subscribeTopic") {
+      setImmediate(() => error(new Error(`${serviceName}.${methodName} is not supported by the simulated mirror node`)));
+      return () => {};
+    }
+
+    const request = com.hedera.mirror.api.proto.ConsensusTopicQuery.decode(requestData);
+    const topicId = topicIdToString(request.topicID);
+    const start = timestampToNanos(request.consensusStartTime);
+    const endTime = request.consensusEndTime != null ? timestampToNanos(request.consensusEndTime) : undefined;
+    let remaining = toBigInt(request.limit) > BigInt(0) ? toBigInt(request.limit) : undefined;
+    let cancelled = false;
+    let unsubscribe = () => {};
+    let endTimer: NodeJS.Timeout | undefined;
+
+    const finish = () => {
+      cancelled = true;
+      clearTimeout(endTimer);
+      unsubscribe();
+      end?.();
+    };
+    const deliver = (message: SimulatedTopicMessage) => {
+      if (cancelled || message.consensusNanos < start) {
+        return;
+      }
+      if (endTime !== undefined && message.consensusNanos >= endTime) {
+        return finish();
+      }
+      callback(
+        com.hedera.mirror.api.proto.ConsensusTopicResponse.encode({
+          consensusTimestamp: nanosToTimestamp(message.consensusNanos),
+          message: message.message,
+          runningHash: message.runningHash,
+          sequenceNumber: toLong(message.sequenceNumber),
+          runningHashVersion: toLong(BigInt(3)),
+          chunkInfo: message.chunkInfo
+        }).finish()
+      );
+      if (remaining !== undefined && --remaining === BigInt(0)) {
+        finish();
+      }
+    };
+
+    setImmediate(() => {
+      if (cancelled) {
+        return;
+      }
+      let history: SimulatedTopicMessage[];
+      try {
+        history = this.ledger.topicMessages(topicId);
+      } catch (e) {
+        if (e instanceof LedgerStatusError) {
+          return error({ code: GRPC_NOT_FOUND, details: `topic ${topicId} does not exist` });
+        }
+        throw e;
+      }
+      unsubscribe = this.ledger.onTopicMessage(topicId, deliver);
+      history.forEach(deliver);
+      // Like the mirror node, complete the stream once the end time has passed even when no later message arrives
+      if (endTime !== undefined && !cancelled) {
+        endTimer = setTimeout(finish, Math.max(0, Number((endTime - BigInt(Date.now()) * BigInt(1_000_000)) / BigInt(1_000_000))));
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      clearTimeout(endTimer);
+      unsubscribe();
+    };
+  }
+}
@@ -0,0 +1,51 @@
+import { AccountId, Client } from "@hashgraph/sdk";
+import { SimulatedChannel, SimulatedMirrorChannel } from "./channel";
+import { NODE_ACCOUNT_ID, SimulatedLedger } from "./ledger";
+
+const NODE_ADDRESS = "simulator.local:50211";
+const MIRROR_ADDRESS = "simulator.local:5600";
+const NODE_BACKOFF_MS = 250;
+
+// Ledger used by channels created while the Client constructor is still running.
+let constructing: SimulatedLedger | undefined;
+
+// A regular SDK Client whose node and mirror channels talk to an in-process SimulatedLedger
+// instead of opening gRPC connections. Several clients can share one ledger.
+export class SimulatedClient extends Client {
+  readonly ledger: SimulatedLedger;
+
+  constructor(ledger: SimulatedLedger) {
+    constructing = ledger;
+    try {
+      super({
+        network: { [NODE_ADDRESS]: AccountId.fromString(NODE_ACCOUNT_ID) },
+        mirrorNetwork: [MIRROR_ADDRESS],
+        scheduleNetworkUpdate: false
+      });
+    } finally {
+      constructing = undefined;
+    }
+    this.ledger = ledger;
+    // The node is in-process, so one that failed is set aside for a moment rather than for seconds
+    this.setNodeMinBackoff(NODE_BACKOFF_MS).setNodeMaxBackoff(NODE_BACKOFF_MS);
+    this.setNodeMinReadmitPeriod(NODE_BACKOFF_MS).setNodeMaxReadmitPeriod(NODE_BACKOFF_MS);
+  }
+
+  override _createNetworkChannel(): ReturnType<Client["_createNetworkChannel"]> {
+    const ledger = this.ledgerOrConstructing();
+    return (() => new SimulatedChannel(ledger)) as unknown as ReturnType<Client["_createNetworkChannel"]>;
+  }
+
+  override _createMirrorNetworkChannel(): ReturnType<Client["_createMirrorNetworkChannel"]> {
+    const ledger = this.ledgerOrConstructing();
+    return (() => new SimulatedMirrorChannel(ledger)) as unknown as ReturnType<Client["_createMirrorNetworkChannel"]>;
+  }
+
+  private ledgerOrConstructing(): SimulatedLedger {
+    const ledger = this.ledger ?? constructing;
+    if (ledger === undefined) {
+      throw new Error("SimulatedClient channels requested without a ledger");
+    }
+    return ledger;
+  }
+}
@@ -0,0 +1,82 @@
+import { proto } from "@hashgraph/proto";
+import { check } from "./errors";
+import { isKeySatisfied, SignerSet } from "./keys";
+import type { SimulatedLedger } from "./ledger";
+
+const Code = proto.ResponseCodeEnum;
+
+// Sender of newly minted serials in transaction records
+export const MINT_ACCOUNT_ID = "0.0.0";
+
+// Everything a transaction handler needs while it runs: the decoded body, who signed it and
+// the consensus time it was assigned. Balance changes go through the context so that the
+// transaction record can list them afterwards.
+export class TransactionContext {
+  readonly receipt: proto.ITransactionReceipt = {};
+  readonly hbarTransfers = new Map<string, bigint>();
+  readonly tokenTransfers = new Map<string, Map<string, bigint>>();
+  readonly nftTransfers = new Map<string, { sender: string; receiver: string; serial: bigint }[]>();
+  readonly assessedCustomFees: proto.IAssessedCustomFee[] = [];
+
+  constructor(
+    readonly ledger: SimulatedLedger,
+    readonly body: proto.TransactionBody,
+    readonly payer: string,
+    readonly signers: SignerSet,
+    readonly consensusNanos: bigint
+  ) {}
+
+  get consensusSeconds(): bigint {
+    return this.consensusNanos / BigInt(1_000_000_000);
+  }
+
+  isSignedBy(key: proto.IKey | null | undefined): boolean {
+    return isKeySatisfied(key, this.signers);
+  }
+
+  requireKey(key: proto.IKey | null | undefined, detail?: string): void {
+    check(this.isSignedBy(key), Code.INVALID_SIGNATURE, detail);
+  }
+
+  requireAccountSignature(accountId: string): void {
+    const account = this.ledger.getAccount(accountId);
+    this.requireKey(account.key, `missing signature of account ${accountId}`);
+  }
+
+  adjustHbar(accountId: string, delta: bigint): void {
+    const account = this.ledger.getAccount(accountId);
+    account.balance += delta;
+    this.hbarTransfers.set(accountId, (this.hbarTransfers.get(accountId) ?? BigInt(0)) + delta);
+  }
+
+  adjustToken(tokenId: string, accountId: string, delta: bigint): void {
+    const relationship = this.ledger.getAccount(accountId).tokens.get(tokenId);
+    check(relationship, Code.TOKEN_NOT_ASSOCIATED_TO_ACCOUNT, `${accountId} / ${tokenId}`);
+    relationship.balance += delta;
+    const transfers = this.tokenTransfers.get(tokenId) ?? new Map<string, bigint>();
+    transfers.set(accountId, (transfers.get(accountId) ?? BigInt(0)) + delta);
+    this.tokenTransfers.set(tokenId, transfers);
+  }
+
+  // Hands a serial to the receiver and updates the balances that count it. Minted serials come from MINT_ACCOUNT_ID,
+  // and burnt or wiped serials go to it and cease to exist.
+  moveNft(tokenId: string, serial: bigint, sender: string, receiver: string): void {
+    const token = this.ledger.getToken(tokenId);
+    const nft = token.nfts.get(serial);
+    check(nft, Code.INVALID_NFT_ID, `${tokenId}/${serial}`);
+    if (sender !== MINT_ACCOUNT_ID) {
+      const from = this.ledger.getAccount(sender).tokens.get(tokenId);
+      check(from, Code.TOKEN_NOT_ASSOCIATED_TO_ACCOUNT, `${sender} / ${tokenId}`);
+      from.balance -= BigInt(1);
+    }
+    if (receiver === MINT_ACCOUNT_ID) {
+      token.nfts.delete(serial);
+    } else {
+      const to = this.ledger.getAccount(receiver).tokens.get(tokenId);
+      check(to, Code.TOKEN_NOT_ASSOCIATED_TO_ACCOUNT, `${receiver} / ${tokenId}`);
+      to.balance += BigInt(1);
+      nft.owner = receiver;
+    }
+    this.nftTransfers.set(tokenId, [...(this.nftTransfers.get(tokenId) ?? []), { sender, receiver, serial }]);
+  }
+}
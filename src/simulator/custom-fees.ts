@@ -0,0 +1,217 @@
+import { proto } from "@hashgraph/proto";
+import type { TransactionContext } from "./context";
+import { check } from "./errors";
+import { accountIdToProto, accountIdToString, toBigInt, toLong, tokenIdToProto, tokenIdToString } from "./ids";
+import type { SimulatedToken } from "./state";
+
+const Code = proto.ResponseCodeEnum;
+
+const ZERO = BigInt(0);
+const MAX_CUSTOM_FEES = 10;
+
+// Fixed fees without a denominating token are paid in hbar
+export const HBAR_DENOMINATION = "";
+// A fixed fee denominated in 0.0.0 is paid in the token that charges it
+const SAME_TOKEN = "0.0.0";
+
+// The balance changes a transfer makes before custom fees, as validated by cryptoTransfer
+export interface TransferChanges {
+  hbar: Map<string, bigint>;
+  tokens: Map<string, Map<string, bigint>>;
+  nfts: { tokenId: string; sender: string; receiver: string }[];
+}
+
+// One custom fee charged by a transfer: `amount` of the denomination moves from each payer to the collector
+export interface CustomFeeCharge {
+  denomination: string;
+  collector: string;
+  payers: { accountId: string; amount: bigint }[];
+}
+
+const fixedDenomination = (fee: proto.IFixedFee, tokenId: string): string => {
+  if (fee.denominatingTokenId == null) return HBAR_DENOMINATION;
+  const denomination = tokenIdToString(fee.denominatingTokenId);
+  return denomination === SAME_TOKEN ? tokenId : denomination;
+};
+
+function checkFraction(fraction: proto.IFraction | null | undefined): void {
+  check(fraction != null, Code.CUSTOM_FEE_NOT_FULLY_SPECIFIED);
+  const numerator = toBigInt(fraction.numerator);
+  const denominator = toBigInt(fraction.denominator);
+  check(denominator !== ZERO, Code.FRACTION_DIVIDES_BY_ZERO);
+  check(numerator > ZERO && denominator > ZERO, Code.CUSTOM_FEE_MUST_BE_POSITIVE);
+}
+
+function checkFixedFee(ctx: TransactionContext, fee: proto.IFixedFee, token: SimulatedToken, collector: string): void {
+  check(toBigInt(fee.amount) > ZERO, Code.CUSTOM_FEE_MUST_BE_POSITIVE);
+  const denomination = fixedDenomination(fee, token.id);
+  if (denomination === HBAR_DENOMINATION || denomination === token.id) {
+    // A fee in the new token itself is collected through the association made at creation
+    check(denomination === HBAR_DENOMINATION || token.tokenType === proto.TokenType.FUNGIBLE_COMMON, Code.CUSTOM_FEE_DENOMINATION_MUST_BE_FUNGIBLE_COMMON);
+    return;
+  }
+  const denominating = ctx.ledger.tokens.get(denomination);
+  check(denominating && !denominating.deleted, Code.INVALID_TOKEN_ID_IN_CUSTOM_FEES, denomination);
+  check(denominating.tokenType === proto.TokenType.FUNGIBLE_COMMON, Code.CUSTOM_FEE_DENOMINATION_MUST_BE_FUNGIBLE_COMMON, denomination);
+  check(ctx.ledger.getAccount(collector).tokens.has(denomination), Code.TOKEN_NOT_ASSOCIATED_TO_FEE_COLLECTOR, `${collector} / ${denomination}`);
+}
+
+// Validates the custom fees of a token that is being created. Returns the collectors that must be associated with the
+// new token: those of fractional fees and of fixed fees paid in the token itself.
+export function checkCustomFees(ctx: TransactionContext, token: SimulatedToken): string[] {
+  check(token.customFees.length <= MAX_CUSTOM_FEES, Code.CUSTOM_FEES_LIST_TOO_LONG);
+  const collectors = new Set<string>();
+  for (const fee of token.customFees) {
+    const collector = accountIdToString(fee.feeCollectorAccountId);
+    check(fee.feeCollectorAccountId != null && ctx.ledger.accounts.has(collector), Code.INVALID_CUSTOM_FEE_COLLECTOR, collector);
+    if (fee.fixedFee != null) {
+      checkFixedFee(ctx, fee.fixedFee, token, collector);
+      if (fixedDenomination(fee.fixedFee, token.id) === token.id) collectors.add(collector);
+    } else if (fee.fractionalFee != null) {
+      check(token.tokenType === proto.TokenType.FUNGIBLE_COMMON, Code.CUSTOM_FRACTIONAL_FEE_ONLY_ALLOWED_FOR_FUNGIBLE_COMMON);
+      checkFraction(fee.fractionalFee.fractionalAmount);
+      const min = toBigInt(fee.fractionalFee.minimumAmount);
+      const max = toBigInt(fee.fractionalFee.maximumAmount);
+      check(min >= ZERO && max >= ZERO, Code.CUSTOM_FEE_MUST_BE_POSITIVE);
+      check(max === ZERO || max >= min, Code.FRACTIONAL_FEE_MAX_AMOUNT_LESS_THAN_MIN_AMOUNT);
+      collectors.add(collector);
+    } else if (fee.royaltyFee != null) {
+      check(token.tokenType === proto.TokenType.NON_FUNGIBLE_UNIQUE, Code.CUSTOM_ROYALTY_FEE_ONLY_ALLOWED_FOR_NON_FUNGIBLE_UNIQUE);
+      const fraction = fee.royaltyFee.exchangeValueFraction;
+      checkFraction(fraction);
+      check(toBigInt(fraction?.numerator) <= toBigInt(fraction?.denominator), Code.ROYALTY_FRACTION_CANNOT_EXCEED_ONE);
+      if (fee.royaltyFee.fallbackFee != null) checkFixedFee(ctx, fee.royaltyFee.fallbackFee, token, collector);
+    } else {
+      check(false, Code.CUSTOM_FEE_NOT_FULLY_SPECIFIED);
+    }
+  }
+  return [...collectors];
+}
+
+// The treasury never pays the fees of its token, and neither does a collector pay its own fee or, when the fee says
+// so, the fee of any other collector of the token
+function isExempt(token: SimulatedToken, fee: proto.ICustomFee, accountId: string): boolean {
+  const collector = accountIdToString(fee.feeCollectorAccountId);
+  return accountId === token.treasury || accountId === collector ||
+    (fee.allCollectorsAreExempt === true && token.customFees.some((other) => accountIdToString(other.feeCollectorAccountId) === accountId));
+}
+
+const fraction = (amount: bigint, value: proto.IFraction | null | undefined) =>
+  (amount * toBigInt(value?.numerator)) / toBigInt(value?.denominator);
+
+// Splits `total` over the credits in proportion to them; the last credit takes the rounding remainder
+function splitOverCredits(total: bigint, credits: [string, bigint][]): { accountId: string; amount: bigint }[] {
+  const sum = credits.reduce((acc, [, amount]) => acc + amount, ZERO);
+  let left = total;
+  return credits.map(([accountId, amount], index) => {
+    const share = index === credits.length - 1 ? left : (total * amount) / sum;
+    left -= share;
+    return { accountId, amount: share };
+  }).filter((share) => share.amount > ZERO);
+}
+
+// Works out the custom fees of every token that changes hands. Fees are charged once per sender and token, and fees
+// paid in another token do not trigger that token's own custom fees (the network goes one level deeper).
+export function assessCustomFees(ctx: TransactionContext, changes: TransferChanges): CustomFeeCharge[] {
+  const charges: CustomFeeCharge[] = [];
+  const charge = (denomination: string, collector: string, accountId: string, amount: bigint) =>
+    charges.push({ denomination, collector, payers: [{ accountId, amount }] });
+
+  for (const [tokenId, transfers] of changes.tokens) {
+    const token = ctx.ledger.getToken(tokenId);
+    const credits = [...transfers].filter(([, amount]) => amount > ZERO);
+    for (const [sender, amount] of transfers) {
+      if (amount >= ZERO) continue;
+      for (const fee of token.customFees) {
+        if (isExempt(token, fee, sender)) continue;
+        const collector = accountIdToString(fee.feeCollectorAccountId);
+        if (fee.fixedFee != null) {
+          charge(fixedDenomination(fee.fixedFee, tokenId), collector, sender, toBigInt(fee.fixedFee.amount));
+        } else if (fee.fractionalFee != null) {
+          const { minimumAmount, maximumAmount, fractionalAmount, netOfTransfers } = fee.fractionalFee;
+          let due = fraction(-amount, fractionalAmount);
+          if (due < toBigInt(minimumAmount)) due = toBigInt(minimumAmount);
+          if (toBigInt(maximumAmount) > ZERO && due > toBigInt(maximumAmount)) due = toBigInt(maximumAmount);
+          if (due === ZERO) continue;
+          // By default the receivers get the amount less the fee; "net of transfers" charges the sender on top
+          charges.push({ denomination: tokenId, collector, payers: netOfTransfers ? [{ accountId: sender, amount: due }] : splitOverCredits(due, credits) });
+        }
+      }
+    }
+  }
+
+  for (const move of changes.nfts) {
+    const token = ctx.ledger.getToken(move.tokenId);
+    for (const fee of token.customFees) {
+      if (isExempt(token, fee, move.sender)) continue;
+      const collector = accountIdToString(fee.feeCollectorAccountId);
+      if (fee.fixedFee != null) {
+        charge(fixedDenomination(fee.fixedFee, token.id), collector, move.sender, toBigInt(fee.fixedFee.amount));
+      } else if (fee.royaltyFee != null) {
+        // A share of whatever the sender receives in exchange, or the fallback fee charged to the receiver for free
+        const received: [string, bigint][] = [[HBAR_DENOMINATION, changes.hbar.get(move.sender) ?? ZERO]];
+        for (const [tokenId, transfers] of changes.tokens) received.push([tokenId, transfers.get(move.sender) ?? ZERO]);
+        const exchanged = received.filter(([, amount]) => amount > ZERO);
+        for (const [denomination, amount] of exchanged) {
+          const due = fraction(amount, fee.royaltyFee.exchangeValueFraction);
+          if (due > ZERO) charge(denomination, collector, move.sender, due);
+        }
+        const fallback = fee.royaltyFee.fallbackFee;
+        if (exchanged.length === 0 && fallback != null && !isExempt(token, fee, move.receiver)) {
+          // Like on the network, the receiver has to agree to paying it
+          ctx.requireAccountSignature(move.receiver);
+          charge(fixedDenomination(fallback, token.id), collector, move.receiver, toBigInt(fallback.amount));
+        }
+      }
+    }
+  }
+
+  checkChargesAffordable(ctx, changes, charges);
+  return charges;
+}
+
+function checkChargesAffordable(ctx: TransactionContext, changes: TransferChanges, charges: CustomFeeCharge[]): void {
+  const { ledger } = ctx;
+  const hbar = new Map(changes.hbar);
+  const tokens = new Map([...changes.tokens].map(([tokenId, transfers]) => [tokenId, new Map(transfers)]));
+  for (const { denomination, collector, payers } of charges) {
+    if (denomination !== HBAR_DENOMINATION) {
+      check(ledger.getAccount(collector).tokens.has(denomination), Code.TOKEN_NOT_ASSOCIATED_TO_FEE_COLLECTOR, `${collector} / ${denomination}`);
+    }
+    for (const { accountId, amount } of payers) {
+      if (denomination === HBAR_DENOMINATION) {
+        hbar.set(accountId, (hbar.get(accountId) ?? ZERO) - amount);
+        check(ledger.getAccount(accountId).balance + (hbar.get(accountId) ?? ZERO) >= ZERO,
+          Code.INSUFFICIENT_SENDER_ACCOUNT_BALANCE_FOR_CUSTOM_FEE, accountId);
+        continue;
+      }
+      const relationship = ledger.getAccount(accountId).tokens.get(denomination);
+      check(relationship, Code.TOKEN_NOT_ASSOCIATED_TO_ACCOUNT, `${accountId} / ${denomination}`);
+      const transfers = tokens.get(denomination) ?? new Map<string, bigint>();
+      transfers.set(accountId, (transfers.get(accountId) ?? ZERO) - amount);
+      tokens.set(denomination, transfers);
+      check(relationship.balance + (transfers.get(accountId) ?? ZERO) >= ZERO,
+        Code.INSUFFICIENT_SENDER_ACCOUNT_BALANCE_FOR_CUSTOM_FEE, `${accountId} / ${denomination}`);
+    }
+  }
+}
+
+// Moves the fees to their collectors and lists them in the record as assessed custom fees
+export function chargeCustomFees(ctx: TransactionContext, charges: CustomFeeCharge[]): void {
+  for (const { denomination, collector, payers } of charges) {
+    let total = ZERO;
+    for (const { accountId, amount } of payers) {
+      if (denomination === HBAR_DENOMINATION) ctx.adjustHbar(accountId, -amount);
+      else ctx.adjustToken(denomination, accountId, -amount);
+      total += amount;
+    }
+    if (denomination === HBAR_DENOMINATION) ctx.adjustHbar(collector, total);
+    else ctx.adjustToken(denomination, collector, total);
+    ctx.assessedCustomFees.push({
+      amount: toLong(total),
+      tokenId: denomination === HBAR_DENOMINATION ? undefined : tokenIdToProto(denomination),
+      feeCollectorAccountId: accountIdToProto(collector),
+      effectivePayerAccountId: payers.map((payer) => accountIdToProto(payer.accountId))
+    });
+  }
+}
@@ -0,0 +1,20 @@
+import { proto } from "@hashgraph/proto";
+
+// Thrown by transaction and query handlers to end processing with a Hedera response code.
+// The ledger turns it into a precheck code or a receipt status, exactly like a node would.
+export class LedgerStatusError extends Error {
+  constructor(readonly status: proto.ResponseCodeEnum, detail?: string) {
+    super(`${proto.ResponseCodeEnum[status]}${detail ? `: ${detail}` : ""}`);
+    this.name = "LedgerStatusError";
+  }
+}
+
+export function fail(status: proto.ResponseCodeEnum, detail?: string): never {
+  throw new LedgerStatusError(status, detail);
+}
+
+export function check(condition: unknown, status: proto.ResponseCodeEnum, detail?: string): asserts condition {
+  if (!condition) {
+    fail(status, detail);
+  }
+}
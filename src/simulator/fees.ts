@@ -0,0 +1,50 @@
+// Flat fee schedule of the simulated network, in tinybars.
+// The amounts are rounded approximations of the public fee estimator, which is enough for
+// scenarios that check who paid and that balances went down by a plausible amount.
+const HBAR = 100_000_000;
+
+export const TRANSACTION_FEES: Record<string, number> = {
+  cryptoCreateAccount: 0.05 * HBAR,
+  cryptoDelete: 0.005 * HBAR,
+  cryptoTransfer: 0.001 * HBAR,
+  tokenCreation: 20 * HBAR,
+  tokenMint: 0.02 * HBAR,
+  tokenAssociate: 1 * HBAR,
+  tokenDissociate: 1 * HBAR,
+  tokenFreeze: 0.001 * HBAR,
+  tokenUnfreeze: 0.001 * HBAR,
+  tokenGrantKyc: 0.001 * HBAR,
+  tokenRevokeKyc: 0.001 * HBAR,
+  tokenPause: 0.001 * HBAR,
+  tokenUnpause: 0.001 * HBAR,
+  tokenWipe: 0.001 * HBAR,
+  tokenBurn: 0.001 * HBAR,
+  tokenUpdate: 0.001 * HBAR,
+  tokenDeletion: 0.001 * HBAR,
+  consensusCreateTopic: 0.2 * HBAR,
+  consensusSubmitMessage: 0.002 * HBAR,
+  consensusUpdateTopic: 0.004 * HBAR,
+  consensusDeleteTopic: 0.1 * HBAR,
+  scheduleCreate: 0.01 * HBAR,
+  scheduleSign: 0.001 * HBAR,
+  scheduleDelete: 0.001 * HBAR,
+};
+
+// Queries that are not listed here are free, like balance and receipt queries on the real network.
+export const QUERY_COSTS: Record<string, number> = {
+  cryptoGetInfo: 0.001 * HBAR,
+  transactionGetRecord: 0.0001 * HBAR,
+  tokenGetInfo: 0.001 * HBAR,
+  consensusGetTopicInfo: 0.001 * HBAR,
+  tokenGetNftInfo: 0.001 * HBAR,
+  scheduleGetInfo: 0.001 * HBAR,
+};
+
+export function transactionFee(bodyCase: string): bigint | undefined {
+  const fee = TRANSACTION_FEES[bodyCase];
+  return fee === undefined ? undefined : BigInt(Math.round(fee));
+}
+
+export function queryCost(queryCase: string): bigint {
+  return BigInt(Math.round(QUERY_COSTS[queryCase] ?? 0));
+}
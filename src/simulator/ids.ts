@@ -0,0 +1,71 @@
+import { proto } from "@hashgraph/proto";
+import { Long } from "@hashgraph/sdk";
+
+type LongLike = Long | number | string | null | undefined;
+
+export const toBigInt = (value: LongLike): bigint => BigInt(value == null ? 0 : value.toString());
+
+export const toLong = (value: bigint): Long => Long.fromString(value.toString());
+
+function entityToString(shard: LongLike, realm: LongLike, num: LongLike): string {
+  return `${toBigInt(shard)}.${toBigInt(realm)}.${toBigInt(num)}`;
+}
+
+function parseEntity(id: string): { shard: Long; realm: Long; num: Long } {
+  const [shard, realm, num] = id.split(".");
+  return { shard: Long.fromString(shard), realm: Long.fromString(realm), num: Long.fromString(num) };
+}
+
+export const accountIdToString = (id: proto.IAccountID | null | undefined): string =>
+  id == null ? "" : entityToString(id.shardNum, id.realmNum, id.accountNum);
+
+export const tokenIdToString = (id: proto.ITokenID | null | undefined): string =>
+  id == null ? "" : entityToString(id.shardNum, id.realmNum, id.tokenNum);
+
+export const topicIdToString = (id: proto.ITopicID | null | undefined): string =>
+  id == null ? "" : entityToString(id.shardNum, id.realmNum, id.topicNum);
+
+export const scheduleIdToString = (id: proto.IScheduleID | null | undefined): string =>
+  id == null ? "" : entityToString(id.shardNum, id.realmNum, id.scheduleNum);
+
+export function accountIdToProto(id: string): proto.IAccountID {
+  const { shard, realm, num } = parseEntity(id);
+  return { shardNum: shard, realmNum: realm, accountNum: num };
+}
+
+export function tokenIdToProto(id: string): proto.ITokenID {
+  const { shard, realm, num } = parseEntity(id);
+  return { shardNum: shard, realmNum: realm, tokenNum: num };
+}
+
+export function topicIdToProto(id: string): proto.ITopicID {
+  const { shard, realm, num } = parseEntity(id);
+  return { shardNum: shard, realmNum: realm, topicNum: num };
+}
+
+export function scheduleIdToProto(id: string): proto.IScheduleID {
+  const { shard, realm, num } = parseEntity(id);
+  return { shardNum: shard, realmNum: realm, scheduleNum: num };
+}
+
+// Nanoseconds since the epoch, the unit the simulated ledger keeps its clock in.
+export const timestampToNanos = (ts: proto.ITimestamp | null | undefined): bigint =>
+  ts == null ? BigInt(0) : toBigInt(ts.seconds) * BigInt(1_000_000_000) + BigInt(ts.nanos ?? 0);
+
+export function nanosToTimestamp(nanos: bigint): proto.ITimestamp {
+  const billion = BigInt(1_000_000_000);
+  return { seconds: toLong(nanos / billion), nanos: Number(nanos % billion) };
+}
+
+// Same textual form as the SDK's TransactionId#toString, so receipts can be keyed by it.
+export function transactionIdToString(id: proto.ITransactionID | null | undefined): string {
+  if (id == null) {
+    return "";
+  }
+  const validStart = timestampToNanos(id.transactionValidStart);
+  const billion = BigInt(1_000_000_000);
+  const nanos = (validStart % billion).toString().padStart(9, "0");
+  const nonce = id.nonce ? `/${id.nonce}` : "";
+  const scheduled = id.scheduled ? "?scheduled" : "";
+  return `${accountIdToString(id.accountID)}@${validStart / billion}.${nanos}${scheduled}${nonce}`;
+}
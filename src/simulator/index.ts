@@ -0,0 +1,3 @@
+export { SimulatedClient } from "./client";
+export { GenesisAccount, NODE_ACCOUNT_ID, SimulatedLedger, SubmissionFault } from "./ledger";
+export { LedgerStatusError } from "./errors";
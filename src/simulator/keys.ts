@@ -0,0 +1,102 @@
+import { proto } from "@hashgraph/proto";
+import { PublicKey } from "@hashgraph/sdk";
+
+// Signers are tracked as "<algorithm>:<raw public key hex>" so that an ED25519 and an
+// ECDSA key can never be confused even if their raw bytes happened to collide.
+export type SignerSet = Set<string>;
+
+const hex = (bytes: Uint8Array): string => Buffer.from(bytes).toString("hex");
+
+function fingerprint(algorithm: "ed25519" | "secp256k1", rawPublicKey: Uint8Array): string {
+  return `${algorithm}:${hex(rawPublicKey)}`;
+}
+
+// Verifies every signature pair against the body bytes and returns the signers.
+// Returns null when any signature does not verify, which the node reports as INVALID_SIGNATURE.
+export function verifySignatures(bodyBytes: Uint8Array, sigMap: proto.ISignatureMap | null | undefined): SignerSet | null {
+  const signers: SignerSet = new Set();
+  for (const pair of sigMap?.sigPair ?? []) {
+    const prefix = pair.pubKeyPrefix ?? new Uint8Array();
+    let publicKey: PublicKey;
+    let signature: Uint8Array;
+    let algorithm: "ed25519" | "secp256k1";
+    try {
+      if (pair.ed25519 != null && pair.ed25519.length > 0) {
+        publicKey = PublicKey.fromBytesED25519(prefix);
+        signature = pair.ed25519;
+        algorithm = "ed25519";
+      } else if (pair.ECDSASecp256k1 != null && pair.ECDSASecp256k1.length > 0) {
+        publicKey = PublicKey.fromBytesECDSA(prefix);
+        signature = pair.ECDSASecp256k1;
+        algorithm = "secp256k1";
+      } else {
+        return null;
+      }
+      if (!publicKey.verify(bodyBytes, signature)) {
+        return null;
+      }
+    } catch {
+      return null;
+    }
+    signers.add(fingerprint(algorithm, publicKey.toBytesRaw()));
+  }
+  return signers;
+}
+
+// The signers as protobuf keys, e.g. to report who signed a schedule.
+export function signerKeys(signers: SignerSet): proto.IKey[] {
+  return [...signers].map((signer) => {
+    const [algorithm, rawPublicKey] = signer.split(":");
+    const bytes = Buffer.from(rawPublicKey, "hex");
+    return algorithm === "ed25519" ? { ed25519: bytes } : { ECDSASecp256k1: bytes };
+  });
+}
+
+// Evaluates a (possibly nested) Hedera key against the set of public keys that signed.
+export function isKeySatisfied(key: proto.IKey | null | undefined, signers: SignerSet): boolean {
+  if (key == null) {
+    return false;
+  }
+  if (key.ed25519 != null && key.ed25519.length > 0) {
+    return signers.has(fingerprint("ed25519", key.ed25519));
+  }
+  if (key.ECDSASecp256k1 != null && key.ECDSASecp256k1.length > 0) {
+    return signers.has(fingerprint("secp256k1", key.ECDSASecp256k1));
+  }
+  if (key.keyList != null) {
+    const keys = key.keyList.keys ?? [];
+    return keys.length > 0 && keys.every((k) => isKeySatisfied(k, signers));
+  }
+  if (key.thresholdKey != null) {
+    const keys = key.thresholdKey.keys?.keys ?? [];
+    const threshold = key.thresholdKey.threshold ?? 0;
+    if (threshold < 1 || threshold > keys.length) {
+      return false;
+    }
+    return keys.filter((k) => isKeySatisfied(k, signers)).length >= threshold;
+  }
+  // Contract IDs, RSA and ECDSA-384 keys cannot be satisfied by a transaction signature here.
+  return false;
+}
+
+// A key is structurally valid when every leaf is a supported public key and thresholds are in range.
+export function isKeyValid(key: proto.IKey | null | undefined): boolean {
+  if (key == null) {
+    return false;
+  }
+  if (key.ed25519 != null && key.ed25519.length > 0) {
+    return key.ed25519.length === 32;
+  }
+  if (key.ECDSASecp256k1 != null && key.ECDSASecp256k1.length > 0) {
+    return key.ECDSASecp256k1.length === 33;
+  }
+  if (key.keyList != null) {
+    return (key.keyList.keys ?? []).every(isKeyValid);
+  }
+  if (key.thresholdKey != null) {
+    const keys = key.thresholdKey.keys?.keys ?? [];
+    const threshold = key.thresholdKey.threshold ?? 0;
+    return threshold >= 1 && threshold <= keys.length && keys.every(isKeyValid);
+  }
+  return false;
+}
@@ -0,0 +1,428 @@
+import { createHash } from "node:crypto";
+import { proto } from "@hashgraph/proto";
+import { Hbar, PublicKey } from "@hashgraph/sdk";
+import { TransactionContext } from "./context";
+import { check, LedgerStatusError } from "./errors";
+import { queryCost, transactionFee } from "./fees";
+import {
+  accountIdToProto,
+  accountIdToString,
+  nanosToTimestamp,
+  scheduleIdToProto,
+  timestampToNanos,
+  toBigInt,
+  toLong,
+  tokenIdToProto,
+  transactionIdToString
+} from "./ids";
+import { isKeySatisfied, SignerSet, verifySignatures } from "./keys";
+import { QUERY_HANDLERS } from "./queries";
+import {
+  DEFAULT_AUTO_RENEW_SECONDS,
+  SimulatedAccount,
+  SimulatedSchedule,
+  SimulatedToken,
+  SimulatedTopic,
+  SimulatedTopicMessage
+} from "./state";
+import { TRANSACTION_HANDLERS } from "./transactions";
+
+const Code = proto.ResponseCodeEnum;
+
+export const NODE_ACCOUNT_ID = "0.0.3";
+
+const BILLION = BigInt(1_000_000_000);
+const MAX_MEMO_BYTES = 100;
+const MIN_VALID_DURATION_SECONDS = 15;
+const MAX_VALID_DURATION_SECONDS = 180;
+
+export interface GenesisAccount {
+  id: string;
+  publicKey: PublicKey;
+  balance: Hbar;
+}
+
+export type TopicMessageListener = (message: SimulatedTopicMessage) => void;
+
+// Connection failures to simulate, one per transaction submitted next: the request is lost before it reaches the node,
+// or the node handles the transaction and its response is lost. The client sees gRPC UNAVAILABLE either way.
+export type SubmissionFault = "request lost" | "response lost";
+
+interface Prechecked {
+  transactionId: string;
+  payer: string;
+  fee: bigint;
+  signers: SignerSet;
+}
+
+// An in-process stand-in for a single Hedera consensus node plus its mirror node.
+// Requests arrive as decoded protobufs (see SimulatedChannel) and are answered with the same
+// response codes the real network would produce, so SDK code runs against it unchanged.
+export class SimulatedLedger {
+  readonly accounts = new Map<string, SimulatedAccount>();
+  readonly tokens = new Map<string, SimulatedToken>();
+  readonly topics = new Map<string, SimulatedTopic>();
+  readonly schedules = new Map<string, SimulatedSchedule>();
+
+  private readonly receipts = new Map<string, proto.ITransactionReceipt>();
+  private readonly records = new Map<string, proto.ITransactionRecord>();
+  private readonly topicListeners = new Map<string, Set<TopicMessageListener>>();
+  private faults: SubmissionFault[] = [];
+  private nextEntityNum = 1001;
+  private lastConsensusNanos = BigInt(0);
+
+  constructor(genesis: GenesisAccount[] = []) {
+    this.createAccount(NODE_ACCOUNT_ID, { keyList: { keys: [] } }, BigInt(0));
+    for (const account of genesis) {
+      this.createAccount(account.id, account.publicKey._toProtobufKey(), toBigInt(account.balance.toTinybars()));
+    }
+  }
+
+  // --- entity helpers used by the handlers ---
+
+  nextEntityId(): string {
+    while (this.isEntityTaken(`0.0.${this.nextEntityNum}`)) {
+      this.nextEntityNum++;
+    }
+    return `0.0.${this.nextEntityNum++}`;
+  }
+
+  createAccount(id: string, key: proto.IKey, balance: bigint): SimulatedAccount {
+    const account: SimulatedAccount = {
+      id,
+      key,
+      balance,
+      receiverSigRequired: false,
+      memo: "",
+      maxAutomaticTokenAssociations: 0,
+      autoRenewPeriodSeconds: DEFAULT_AUTO_RENEW_SECONDS,
+      expirySeconds: BigInt(Math.floor(Date.now() / 1000)) + DEFAULT_AUTO_RENEW_SECONDS,
+      deleted: false,
+      tokens: new Map()
+    };
+    this.accounts.set(id, account);
+    return account;
+  }
+
+  getAccount(id: string, status: proto.ResponseCodeEnum = Code.INVALID_ACCOUNT_ID): SimulatedAccount {
+    const account = this.accounts.get(id);
+    check(account, status, id);
+    check(!account.deleted, Code.ACCOUNT_DELETED, id);
+    return account;
+  }
+
+  getToken(id: string): SimulatedToken {
+    const token = this.tokens.get(id);
+    check(token, Code.INVALID_TOKEN_ID, id);
+    check(!token.deleted, Code.TOKEN_WAS_DELETED, id);
+    return token;
+  }
+
+  getTopic(id: string): SimulatedTopic {
+    const topic = this.topics.get(id);
+    check(topic && !topic.deleted, Code.INVALID_TOPIC_ID, id);
+    return topic;
+  }
+
+  // Schedules are forgotten once they expire, whether they ran or not, like on the network.
+  getSchedule(id: string, nowSeconds = BigInt(Math.floor(Date.now() / 1000))): SimulatedSchedule {
+    const schedule = this.schedules.get(id);
+    check(schedule && schedule.expirySeconds > nowSeconds, Code.INVALID_SCHEDULE_ID, id);
+    return schedule;
+  }
+
+  // Runs the scheduled transaction if its payer and every key it needs have signed the schedule, as a transaction of
+  // its own with a receipt and record under the scheduled transaction ID. Returns false while signatures are missing.
+  // A scheduled transaction that fails for any other reason has run, with the failure as its status.
+  runScheduled(schedule: SimulatedSchedule): boolean {
+    const bodyCase = schedule.body.data as string;
+    const body = proto.TransactionBody.create({
+      transactionID: schedule.scheduledTransactionId,
+      nodeAccountID: accountIdToProto(NODE_ACCOUNT_ID),
+      transactionFee: schedule.body.transactionFee,
+      memo: schedule.body.memo,
+      [bodyCase]: schedule.body[bodyCase as keyof proto.ISchedulableTransactionBody]
+    });
+    const prechecked: Prechecked = {
+      transactionId: transactionIdToString(schedule.scheduledTransactionId),
+      payer: schedule.payer,
+      fee: transactionFee(bodyCase) ?? BigInt(0),
+      signers: schedule.signatories
+    };
+    const consensusNanos = this.handle(body, prechecked, proto.TransactionBody.encode(body).finish(), schedule.id);
+    if (consensusNanos === undefined) {
+      return false;
+    }
+    schedule.executedNanos = consensusNanos;
+    return true;
+  }
+
+  // --- consensus node ---
+
+  injectFaults(...faults: SubmissionFault[]): void {
+    this.faults.push(...faults);
+  }
+
+  clearFaults(): void {
+    this.faults = [];
+  }
+
+  // The fault of the submission at hand, if one is due
+  takeFault(): SubmissionFault | undefined {
+    return this.faults.shift();
+  }
+
+  submitTransaction(request: proto.ITransaction): proto.ITransactionResponse {
+    try {
+      const { bodyBytes, sigMap, transactionBytes } = this.unwrap(request);
+      const body = proto.TransactionBody.decode(bodyBytes);
+      const prechecked = this.precheck(body, bodyBytes, sigMap);
+      this.handle(body, prechecked, transactionBytes);
+      return { nodeTransactionPrecheckCode: Code.OK };
+    } catch (error) {
+      if (error instanceof LedgerStatusError) {
+        return { nodeTransactionPrecheckCode: error.status };
+      }
+      throw error;
+    }
+  }
+
+  answerQuery(query: proto.Query): proto.IResponse {
+    const queryCase = query.query;
+    if (queryCase == null) {
+      return {};
+    }
+    const inner = query[queryCase] as { header?: proto.IQueryHeader | null };
+    const responseType = inner.header?.responseType ?? proto.ResponseType.ANSWER_ONLY;
+    const header = (code: proto.ResponseCodeEnum, cost = BigInt(0)): proto.IResponseHeader => ({
+      nodeTransactionPrecheckCode: code,
+      responseType,
+      cost: toLong(cost)
+    });
+
+    const handler = QUERY_HANDLERS[queryCase];
+    if (handler === undefined) {
+      return { [queryCase]: { header: header(Code.NOT_SUPPORTED) } };
+    }
+    const cost = queryCost(queryCase);
+    if (responseType === proto.ResponseType.COST_ANSWER) {
+      return { [queryCase]: { header: header(Code.OK, cost) } };
+    }
+    try {
+      if (cost > BigInt(0)) {
+        this.chargeQueryPayment(inner.header?.payment, cost);
+      }
+      const answer = handler(this, inner);
+      return { [queryCase]: { header: header(Code.OK, cost), ...answer } };
+    } catch (error) {
+      if (error instanceof LedgerStatusError) {
+        return { [queryCase]: { header: header(error.status, cost) } };
+      }
+      throw error;
+    }
+  }
+
+  getReceipt(transactionId: proto.ITransactionID | null | undefined): proto.ITransactionReceipt | undefined {
+    return this.receipts.get(transactionIdToString(transactionId));
+  }
+
+  getRecord(transactionId: proto.ITransactionID | null | undefined): proto.ITransactionRecord | undefined {
+    return this.records.get(transactionIdToString(transactionId));
+  }
+
+  // --- mirror node ---
+
+  topicMessages(topicId: string): SimulatedTopicMessage[] {
+    const topic = this.topics.get(topicId);
+    check(topic, Code.INVALID_TOPIC_ID, topicId);
+    return [...topic.messages];
+  }
+
+  onTopicMessage(topicId: string, listener: TopicMessageListener): () => void {
+    const listeners = this.topicListeners.get(topicId) ?? new Set<TopicMessageListener>();
+    listeners.add(listener);
+    this.topicListeners.set(topicId, listeners);
+    return () => listeners.delete(listener);
+  }
+
+  appendTopicMessage(ctx: TransactionContext, topic: SimulatedTopic, message: Uint8Array, chunkInfo?: proto.IConsensusMessageChunkInfo): SimulatedTopicMessage {
+    const sequenceNumber = topic.sequenceNumber + BigInt(1);
+    const runningHash = this.nextRunningHash(ctx, topic, sequenceNumber, message);
+    const entry: SimulatedTopicMessage = { consensusNanos: ctx.consensusNanos, message, runningHash, sequenceNumber, chunkInfo };
+    topic.sequenceNumber = sequenceNumber;
+    topic.runningHash = runningHash;
+    topic.messages.push(entry);
+    for (const listener of this.topicListeners.get(topic.id) ?? []) {
+      setImmediate(() => listener(entry));
+    }
+    return entry;
+  }
+
+  // --- internals ---
+
+  private isEntityTaken(id: string): boolean {
+    return this.accounts.has(id) || this.tokens.has(id) || this.topics.has(id) || this.schedules.has(id);
+  }
+
+  private nextConsensusTime(): bigint {
+    const now = BigInt(Date.now()) * BigInt(1_000_000);
+    this.lastConsensusNanos = now > this.lastConsensusNanos ? now : this.lastConsensusNanos + BigInt(1000);
+    return this.lastConsensusNanos;
+  }
+
+  private unwrap(request: proto.ITransaction): { bodyBytes: Uint8Array; sigMap: proto.ISignatureMap | null | undefined; transactionBytes: Uint8Array } {
+    if (request.signedTransactionBytes != null && request.signedTransactionBytes.length > 0) {
+      const signed = proto.SignedTransaction.decode(request.signedTransactionBytes);
+      return { bodyBytes: signed.bodyBytes, sigMap: signed.sigMap, transactionBytes: request.signedTransactionBytes };
+    }
+    check(request.bodyBytes != null && request.bodyBytes.length > 0, Code.INVALID_TRANSACTION_BODY);
+    return { bodyBytes: request.bodyBytes, sigMap: request.sigMap, transactionBytes: request.bodyBytes };
+  }
+
+  private precheck(body: proto.TransactionBody, bodyBytes: Uint8Array, sigMap: proto.ISignatureMap | null | undefined): Prechecked {
+    check(body.transactionID?.accountID != null, Code.INVALID_TRANSACTION_ID);
+    check(accountIdToString(body.nodeAccountID) === NODE_ACCOUNT_ID, Code.INVALID_NODE_ACCOUNT);
+
+    const transactionId = transactionIdToString(body.transactionID);
+    check(!this.receipts.has(transactionId), Code.DUPLICATE_TRANSACTION, transactionId);
+
+    const now = BigInt(Date.now()) * BigInt(1_000_000);
+    const validStart = timestampToNanos(body.transactionID.transactionValidStart);
+    const validDuration = Number(toBigInt(body.transactionValidDuration?.seconds));
+    check(
+      validDuration >= MIN_VALID_DURATION_SECONDS && validDuration <= MAX_VALID_DURATION_SECONDS,
+      Code.INVALID_TRANSACTION_DURATION
+    );
+    check(validStart <= now, Code.INVALID_TRANSACTION_START);
+    check(validStart + BigInt(validDuration) * BILLION >= now, Code.TRANSACTION_EXPIRED);
+    check(Buffer.byteLength(body.memo ?? "") <= MAX_MEMO_BYTES, Code.MEMO_TOO_LONG);
+
+    const bodyCase = body.data;
+    check(bodyCase != null, Code.INVALID_TRANSACTION_BODY);
+    const fee = transactionFee(bodyCase);
+    check(fee !== undefined && TRANSACTION_HANDLERS[bodyCase] !== undefined, Code.NOT_SUPPORTED, bodyCase);
+
+    const payer = accountIdToString(body.transactionID.accountID);
+    const payerAccount = this.accounts.get(payer);
+    check(payerAccount, Code.PAYER_ACCOUNT_NOT_FOUND, payer);
+    check(!payerAccount.deleted, Code.PAYER_ACCOUNT_DELETED, payer);
+
+    const signers = verifySignatures(bodyBytes, sigMap);
+    check(signers !== null, Code.INVALID_SIGNATURE, "a signature does not match the transaction body");
+    check(isKeySatisfied(payerAccount.key, signers), Code.INVALID_SIGNATURE, `missing signature of payer ${payer}`);
+
+    check(toBigInt(body.transactionFee) >= fee, Code.INSUFFICIENT_TX_FEE, `fee is ${fee} tinybars`);
+    check(payerAccount.balance >= fee, Code.INSUFFICIENT_PAYER_BALANCE, payer);
+
+    return { transactionId, payer, fee, signers };
+  }
+
+  // Returns the consensus time the transaction was handled at. A scheduled transaction (one with a `scheduleId`) that
+  // still lacks signatures is not handled at all: nothing is charged or stored and undefined is returned.
+  private handle(body: proto.TransactionBody, prechecked: Prechecked, transactionBytes: Uint8Array, scheduleId?: string): bigint | undefined {
+    const ctx = new TransactionContext(this, body, prechecked.payer, prechecked.signers, this.nextConsensusTime());
+
+    let status: proto.ResponseCodeEnum = Code.SUCCESS;
+    try {
+      if (scheduleId !== undefined) {
+        // Checked at precheck for everything else
+        const payer = this.getAccount(prechecked.payer);
+        check(isKeySatisfied(payer.key, prechecked.signers), Code.INVALID_SIGNATURE, `missing signature of payer ${payer.id}`);
+        check(payer.balance >= prechecked.fee, Code.INSUFFICIENT_PAYER_BALANCE, payer.id);
+      }
+      ctx.adjustHbar(prechecked.payer, -prechecked.fee);
+      ctx.adjustHbar(NODE_ACCOUNT_ID, prechecked.fee);
+      // Handlers validate everything before changing state, so a failure only costs the fee.
+      TRANSACTION_HANDLERS[body.data as string](ctx);
+    } catch (error) {
+      if (!(error instanceof LedgerStatusError)) {
+        throw error;
+      }
+      status = error.status;
+    }
+    if (scheduleId !== undefined && status === Code.INVALID_SIGNATURE) {
+      for (const [accountId, delta] of ctx.hbarTransfers) {
+        this.getAccount(accountId).balance -= delta;
+      }
+      return undefined;
+    }
+
+    const receipt: proto.ITransactionReceipt = status === Code.SUCCESS ? { ...ctx.receipt, status } : { status };
+    this.receipts.set(prechecked.transactionId, receipt);
+    this.records.set(prechecked.transactionId, {
+      receipt,
+      transactionHash: createHash("sha384").update(transactionBytes).digest(),
+      consensusTimestamp: nanosToTimestamp(ctx.consensusNanos),
+      transactionID: body.transactionID,
+      scheduleRef: scheduleId !== undefined ? scheduleIdToProto(scheduleId) : undefined,
+      memo: body.memo,
+      transactionFee: toLong(prechecked.fee),
+      transferList: {
+        accountAmounts: [...ctx.hbarTransfers].map(([accountId, amount]) => ({
+          accountID: accountIdToProto(accountId),
+          amount: toLong(amount)
+        }))
+      },
+      tokenTransferLists: [...new Set([...ctx.tokenTransfers.keys(), ...ctx.nftTransfers.keys()])].map((tokenId) => ({
+        token: tokenIdToProto(tokenId),
+        transfers: [...(ctx.tokenTransfers.get(tokenId) ?? [])].map(([accountId, amount]) => ({
+          accountID: accountIdToProto(accountId),
+          amount: toLong(amount)
+        })),
+        nftTransfers: (ctx.nftTransfers.get(tokenId) ?? []).map((transfer) => ({
+          senderAccountID: accountIdToProto(transfer.sender),
+          receiverAccountID: accountIdToProto(transfer.receiver),
+          serialNumber: toLong(transfer.serial)
+        }))
+      })),
+      assessedCustomFees: ctx.assessedCustomFees
+    });
+    return ctx.consensusNanos;
+  }
+
+  private chargeQueryPayment(payment: proto.ITransaction | null | undefined, cost: bigint): void {
+    check(payment != null, Code.INSUFFICIENT_TX_FEE, "query requires a payment");
+    const { bodyBytes, sigMap } = this.unwrap(payment);
+    const body = proto.TransactionBody.decode(bodyBytes);
+    const payer = accountIdToString(body.transactionID?.accountID);
+    const payerAccount = this.accounts.get(payer);
+    check(payerAccount, Code.PAYER_ACCOUNT_NOT_FOUND, payer);
+
+    const signers = verifySignatures(bodyBytes, sigMap);
+    check(signers !== null && isKeySatisfied(payerAccount.key, signers), Code.INVALID_SIGNATURE, `query payment by ${payer}`);
+
+    const nodeCredit = (body.cryptoTransfer?.transfers?.accountAmounts ?? [])
+      .filter((amount) => accountIdToString(amount.accountID) === NODE_ACCOUNT_ID)
+      .reduce((sum, amount) => sum + toBigInt(amount.amount), BigInt(0));
+    check(nodeCredit >= cost, Code.INSUFFICIENT_TX_FEE, `query costs ${cost} tinybars`);
+    check(payerAccount.balance >= nodeCredit, Code.INSUFFICIENT_PAYER_BALANCE, payer);
+
+    payerAccount.balance -= nodeCredit;
+    this.getAccount(NODE_ACCOUNT_ID).balance += nodeCredit;
+  }
+
+  // Running hash version 3, as specified for HCS topic messages.
+  private nextRunningHash(ctx: TransactionContext, topic: SimulatedTopic, sequenceNumber: bigint, message: Uint8Array): Uint8Array {
+    const long = (value: bigint) => {
+      const buffer = Buffer.alloc(8);
+      buffer.writeBigInt64BE(value);
+      return buffer;
+    };
+    const int = (value: number) => {
+      const buffer = Buffer.alloc(4);
+      buffer.writeInt32BE(value);
+      return buffer;
+    };
+    const entity = (id: string) => Buffer.concat(id.split(".").map((part) => long(BigInt(part))));
+    return createHash("sha384")
+      .update(topic.runningHash)
+      .update(long(BigInt(3)))
+      .update(entity(ctx.payer))
+      .update(entity(topic.id))
+      .update(long(ctx.consensusSeconds))
+      .update(int(Number(ctx.consensusNanos % BILLION)))
+      .update(long(sequenceNumber))
+      .update(createHash("sha384").update(message).digest())
+      .digest();
+  }
+}
@@ -0,0 +1,185 @@
+import { proto } from "@hashgraph/proto";
+import { check } from "./errors";
+import {
+  accountIdToProto,
+  accountIdToString,
+  nanosToTimestamp,
+  scheduleIdToProto,
+  scheduleIdToString,
+  toBigInt,
+  toLong,
+  tokenIdToProto,
+  tokenIdToString,
+  topicIdToProto,
+  topicIdToString
+} from "./ids";
+import { signerKeys } from "./keys";
+import type { SimulatedLedger } from "./ledger";
+
+const Code = proto.ResponseCodeEnum;
+
+// Returns the body of the response case, without the header; the ledger adds the header.
+export type QueryHandler = (ledger: SimulatedLedger, query: { header?: proto.IQueryHeader | null }) => object;
+
+const seconds = (value: bigint): proto.ITimestamp => ({ seconds: toLong(value), nanos: 0 });
+
+function cryptogetAccountBalance(ledger: SimulatedLedger, query: proto.ICryptoGetAccountBalanceQuery): object {
+  check(query.accountID != null, Code.INVALID_ACCOUNT_ID);
+  const account = ledger.getAccount(accountIdToString(query.accountID));
+  return {
+    accountID: accountIdToProto(account.id),
+    balance: toLong(account.balance),
+    tokenBalances: [...account.tokens].map(([tokenId, relationship]) => ({
+      tokenId: tokenIdToProto(tokenId),
+      balance: toLong(relationship.balance),
+      decimals: ledger.tokens.get(tokenId)?.decimals ?? 0
+    }))
+  };
+}
+
+function cryptoGetInfo(ledger: SimulatedLedger, query: proto.ICryptoGetInfoQuery): object {
+  check(query.accountID != null, Code.INVALID_ACCOUNT_ID);
+  const account = ledger.getAccount(accountIdToString(query.accountID));
+  return {
+    accountInfo: {
+      accountID: accountIdToProto(account.id),
+      key: account.key,
+      balance: toLong(account.balance),
+      receiverSigRequired: account.receiverSigRequired,
+      memo: account.memo,
+      maxAutomaticTokenAssociations: account.maxAutomaticTokenAssociations,
+      autoRenewPeriod: { seconds: toLong(account.autoRenewPeriodSeconds) },
+      expirationTime: seconds(account.expirySeconds),
+      deleted: account.deleted,
+      tokenRelationships: [...account.tokens].map(([tokenId, relationship]) => {
+        const token = ledger.tokens.get(tokenId);
+        return {
+          tokenId: tokenIdToProto(tokenId),
+          symbol: token?.symbol,
+          balance: toLong(relationship.balance),
+          decimals: token?.decimals ?? 0,
+          // 0 = not applicable, 1 = frozen / granted, 2 = unfrozen / revoked, as in TokenInfo.
+          freezeStatus: token?.freezeKey === undefined ? 0 : relationship.frozen ? 1 : 2,
+          kycStatus: token?.kycKey === undefined ? 0 : relationship.kycGranted ? 1 : 2,
+          automaticAssociation: relationship.automaticAssociation
+        };
+      })
+    }
+  };
+}
+
+function transactionGetReceipt(ledger: SimulatedLedger, query: proto.ITransactionGetReceiptQuery): object {
+  const receipt = ledger.getReceipt(query.transactionID);
+  check(receipt, Code.RECEIPT_NOT_FOUND);
+  return { receipt };
+}
+
+function transactionGetRecord(ledger: SimulatedLedger, query: proto.ITransactionGetRecordQuery): object {
+  const transactionRecord = ledger.getRecord(query.transactionID);
+  check(transactionRecord, Code.RECORD_NOT_FOUND);
+  return { transactionRecord };
+}
+
+function tokenGetInfo(ledger: SimulatedLedger, query: proto.ITokenGetInfoQuery): object {
+  const tokenId = tokenIdToString(query.token);
+  const token = ledger.tokens.get(tokenId);
+  check(token, Code.INVALID_TOKEN_ID, tokenId);
+  const status = (key: proto.IKey | undefined, flag: boolean) => (key === undefined ? 0 : flag ? 1 : 2);
+  return {
+    tokenInfo: {
+      tokenId: tokenIdToProto(token.id),
+      name: token.name,
+      symbol: token.symbol,
+      decimals: token.decimals,
+      totalSupply: toLong(token.totalSupply),
+      treasury: accountIdToProto(token.treasury),
+      adminKey: token.adminKey,
+      kycKey: token.kycKey,
+      freezeKey: token.freezeKey,
+      wipeKey: token.wipeKey,
+      supplyKey: token.supplyKey,
+      feeScheduleKey: token.feeScheduleKey,
+      pauseKey: token.pauseKey,
+      // Freeze and KYC defaults: 0 = not applicable, 1 = frozen / granted, 2 = unfrozen / revoked.
+      defaultFreezeStatus: status(token.freezeKey, token.freezeDefault),
+      defaultKycStatus: status(token.kycKey, false),
+      pauseStatus: status(token.pauseKey, token.paused),
+      deleted: token.deleted,
+      autoRenewAccount: token.autoRenewAccount !== undefined ? accountIdToProto(token.autoRenewAccount) : undefined,
+      autoRenewPeriod: { seconds: toLong(token.autoRenewPeriodSeconds) },
+      expiry: seconds(token.expirySeconds),
+      memo: token.memo,
+      tokenType: token.tokenType,
+      supplyType: token.supplyType,
+      maxSupply: toLong(token.maxSupply),
+      customFees: token.customFees
+    }
+  };
+}
+
+function consensusGetTopicInfo(ledger: SimulatedLedger, query: proto.IConsensusGetTopicInfoQuery): object {
+  const topic = ledger.getTopic(topicIdToString(query.topicID));
+  return {
+    topicID: topicIdToProto(topic.id),
+    topicInfo: {
+      memo: topic.memo,
+      runningHash: topic.runningHash,
+      sequenceNumber: toLong(topic.sequenceNumber),
+      expirationTime: seconds(topic.expirySeconds),
+      adminKey: topic.adminKey,
+      submitKey: topic.submitKey,
+      autoRenewPeriod: { seconds: toLong(topic.autoRenewPeriodSeconds) },
+      autoRenewAccount: topic.autoRenewAccount !== undefined ? accountIdToProto(topic.autoRenewAccount) : undefined
+    }
+  };
+}
+
+function scheduleGetInfo(ledger: SimulatedLedger, query: proto.IScheduleGetInfoQuery): object {
+  const schedule = ledger.getSchedule(scheduleIdToString(query.scheduleID));
+  return {
+    scheduleInfo: {
+      scheduleID: scheduleIdToProto(schedule.id),
+      executionTime: schedule.executedNanos !== undefined ? nanosToTimestamp(schedule.executedNanos) : undefined,
+      deletionTime: schedule.deletedNanos !== undefined ? nanosToTimestamp(schedule.deletedNanos) : undefined,
+      expirationTime: seconds(schedule.expirySeconds),
+      scheduledTransactionBody: schedule.body,
+      memo: schedule.memo,
+      adminKey: schedule.adminKey,
+      signers: { keys: signerKeys(schedule.signatories) },
+      creatorAccountID: accountIdToProto(schedule.creator),
+      payerAccountID: accountIdToProto(schedule.payer),
+      scheduledTransactionID: schedule.scheduledTransactionId,
+      waitForExpiry: false
+    }
+  };
+}
+
+function tokenGetNftInfo(ledger: SimulatedLedger, query: proto.ITokenGetNftInfoQuery): object {
+  const tokenId = tokenIdToString(query.nftID?.token_ID);
+  const token = ledger.tokens.get(tokenId);
+  check(token, Code.INVALID_TOKEN_ID, tokenId);
+  const serial = toBigInt(query.nftID?.serialNumber);
+  check(serial > BigInt(0), Code.INVALID_TOKEN_NFT_SERIAL_NUMBER);
+  const nft = token.nfts.get(serial);
+  check(nft, Code.INVALID_NFT_ID, `${tokenId}/${serial}`);
+  return {
+    nft: {
+      nftID: { token_ID: tokenIdToProto(tokenId), serialNumber: toLong(serial) },
+      accountID: accountIdToProto(nft.owner),
+      creationTime: nanosToTimestamp(nft.createdNanos),
+      metadata: nft.metadata
+    }
+  };
+}
+
+// Keyed by the Query `query` case, which is also the field name of the matching Response case.
+export const QUERY_HANDLERS: Record<string, QueryHandler> = {
+  cryptoGetInfo,
+  cryptogetAccountBalance,
+  transactionGetReceipt,
+  transactionGetRecord,
+  tokenGetInfo,
+  tokenGetNftInfo,
+  consensusGetTopicInfo,
+  scheduleGetInfo
+};
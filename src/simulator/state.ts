@@ -0,0 +1,111 @@
+import { proto } from "@hashgraph/proto";
+import { SignerSet } from "./keys";
+
+// In-memory entities of the simulated ledger. Amounts are kept as bigint in the smallest unit
+// (tinybars for hbar, token units for tokens) and timestamps as nanoseconds since the epoch.
+
+// Auto-renew period of entities created without one: 90 days.
+export const DEFAULT_AUTO_RENEW_SECONDS = BigInt(7_776_000);
+// Range of auto-renew periods the network accepts: about 30 to 92 days.
+export const MIN_AUTO_RENEW_SECONDS = BigInt(2_592_000);
+export const MAX_AUTO_RENEW_SECONDS = BigInt(8_000_001);
+
+// Lifetime of a schedule created without an expiration time (30 minutes), and the longest one allowed (62 days).
+export const DEFAULT_SCHEDULE_LIFETIME_SECONDS = BigInt(1_800);
+export const MAX_SCHEDULE_LIFETIME_SECONDS = BigInt(5_356_800);
+
+export interface TokenRelationship {
+  balance: bigint;
+  frozen: boolean;
+  kycGranted: boolean;
+  automaticAssociation: boolean;
+}
+
+export interface SimulatedAccount {
+  id: string;
+  key: proto.IKey;
+  balance: bigint;
+  receiverSigRequired: boolean;
+  memo: string;
+  maxAutomaticTokenAssociations: number;
+  autoRenewPeriodSeconds: bigint;
+  expirySeconds: bigint;
+  deleted: boolean;
+  tokens: Map<string, TokenRelationship>;
+}
+
+export interface SimulatedToken {
+  id: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  memo: string;
+  tokenType: proto.TokenType;
+  supplyType: proto.TokenSupplyType;
+  totalSupply: bigint;
+  maxSupply: bigint;
+  treasury: string;
+  adminKey?: proto.IKey;
+  kycKey?: proto.IKey;
+  freezeKey?: proto.IKey;
+  wipeKey?: proto.IKey;
+  supplyKey?: proto.IKey;
+  feeScheduleKey?: proto.IKey;
+  pauseKey?: proto.IKey;
+  freezeDefault: boolean;
+  paused: boolean;
+  deleted: boolean;
+  autoRenewAccount?: string;
+  autoRenewPeriodSeconds: bigint;
+  expirySeconds: bigint;
+  customFees: proto.ICustomFee[];
+  // Serials of a non-fungible token; the total supply counts those that exist
+  nfts: Map<bigint, SimulatedNft>;
+  lastSerial: bigint;
+}
+
+export interface SimulatedNft {
+  serial: bigint;
+  owner: string;
+  metadata: Uint8Array;
+  createdNanos: bigint;
+}
+
+export interface SimulatedTopicMessage {
+  consensusNanos: bigint;
+  message: Uint8Array;
+  runningHash: Uint8Array;
+  sequenceNumber: bigint;
+  chunkInfo?: proto.IConsensusMessageChunkInfo;
+}
+
+export interface SimulatedTopic {
+  id: string;
+  memo: string;
+  adminKey?: proto.IKey;
+  submitKey?: proto.IKey;
+  autoRenewAccount?: string;
+  autoRenewPeriodSeconds: bigint;
+  expirySeconds: bigint;
+  sequenceNumber: bigint;
+  runningHash: Uint8Array;
+  deleted: boolean;
+  messages: SimulatedTopicMessage[];
+}
+
+export interface SimulatedSchedule {
+  id: string;
+  body: proto.SchedulableTransactionBody;
+  // The ID the scheduled transaction runs under: the creating transaction's ID, flagged as scheduled
+  scheduledTransactionId: proto.ITransactionID;
+  memo: string;
+  adminKey?: proto.IKey;
+  creator: string;
+  payer: string;
+  // Everyone who signed the schedule so far. The network only keeps the keys the scheduled transaction needs; the
+  // simulator keeps them all, which makes no difference to when it runs.
+  signatories: SignerSet;
+  expirySeconds: bigint;
+  executedNanos?: bigint;
+  deletedNanos?: bigint;
+}
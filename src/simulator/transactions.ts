@@ -0,0 +1,832 @@
+import { proto } from "@hashgraph/proto";
+import { MINT_ACCOUNT_ID, TransactionContext } from "./context";
+import { assessCustomFees, chargeCustomFees, checkCustomFees } from "./custom-fees";
+import { check } from "./errors";
+import { transactionFee } from "./fees";
+import {
+  accountIdToProto,
+  accountIdToString,
+  scheduleIdToProto,
+  scheduleIdToString,
+  toBigInt,
+  toLong,
+  tokenIdToProto,
+  tokenIdToString,
+  topicIdToProto,
+  topicIdToString
+} from "./ids";
+import { isKeyValid } from "./keys";
+import {
+  DEFAULT_AUTO_RENEW_SECONDS,
+  DEFAULT_SCHEDULE_LIFETIME_SECONDS,
+  MAX_AUTO_RENEW_SECONDS,
+  MAX_SCHEDULE_LIFETIME_SECONDS,
+  MIN_AUTO_RENEW_SECONDS,
+  SimulatedSchedule,
+  SimulatedToken,
+  TokenRelationship
+} from "./state";
+
+const Code = proto.ResponseCodeEnum;
+
+export type TransactionHandler = (ctx: TransactionContext) => void;
+
+const ZERO = BigInt(0);
+const INT64_MAX = BigInt("9223372036854775807");
+const MAX_MEMO_BYTES = 100;
+const MAX_TOKEN_NAME_BYTES = 100;
+const MAX_MESSAGE_BYTES = 1024;
+const MAX_AUTO_ASSOCIATIONS = 5000;
+const MAX_NFT_MINT_BATCH = 10;
+const MAX_NFT_METADATA_BYTES = 100;
+
+const optionalKey = (key: proto.IKey | null | undefined): proto.IKey | undefined => (key == null ? undefined : key);
+
+function requireValidKey(key: proto.IKey | null | undefined): void {
+  if (key != null) {
+    check(isKeyValid(key), Code.BAD_ENCODING, "invalid key structure");
+  }
+}
+
+// --- crypto service ---
+
+function cryptoCreateAccount(ctx: TransactionContext): void {
+  const body = ctx.body.cryptoCreateAccount as proto.ICryptoCreateTransactionBody;
+  const { ledger } = ctx;
+  check(body.key != null, Code.KEY_REQUIRED);
+  requireValidKey(body.key);
+  check(Buffer.byteLength(body.memo ?? "") <= MAX_MEMO_BYTES, Code.MEMO_TOO_LONG);
+  const maxAutoAssociations = body.maxAutomaticTokenAssociations ?? 0;
+  check(maxAutoAssociations >= -1 && maxAutoAssociations <= MAX_AUTO_ASSOCIATIONS, Code.INVALID_MAX_AUTO_ASSOCIATIONS);
+  const initialBalance = toBigInt(body.initialBalance);
+  check(initialBalance >= ZERO, Code.INVALID_INITIAL_BALANCE);
+  check(ledger.getAccount(ctx.payer).balance >= initialBalance, Code.INSUFFICIENT_PAYER_BALANCE);
+  if (body.receiverSigRequired) {
+    ctx.requireKey(body.key, "missing signature of the new account key");
+  }
+
+  const autoRenewPeriodSeconds = body.autoRenewPeriod != null ? toBigInt(body.autoRenewPeriod.seconds) : DEFAULT_AUTO_RENEW_SECONDS;
+  const account = ledger.createAccount(ledger.nextEntityId(), body.key, ZERO);
+  account.receiverSigRequired = body.receiverSigRequired ?? false;
+  account.memo = body.memo ?? "";
+  account.maxAutomaticTokenAssociations = maxAutoAssociations;
+  account.autoRenewPeriodSeconds = autoRenewPeriodSeconds;
+  account.expirySeconds = ctx.consensusSeconds + autoRenewPeriodSeconds;
+  ctx.adjustHbar(ctx.payer, -initialBalance);
+  ctx.adjustHbar(account.id, initialBalance);
+  ctx.receipt.accountID = accountIdToProto(account.id);
+}
+
+// The account's hbar go to the transfer account. It must not be the treasury of a token or hold any token balance.
+function cryptoDelete(ctx: TransactionContext): void {
+  const body = ctx.body.cryptoDelete as proto.ICryptoDeleteTransactionBody;
+  check(body.deleteAccountID != null, Code.INVALID_ACCOUNT_ID);
+  check(body.transferAccountID != null, Code.ACCOUNT_ID_DOES_NOT_EXIST);
+  const accountId = accountIdToString(body.deleteAccountID);
+  const transferId = accountIdToString(body.transferAccountID);
+  check(accountId !== transferId, Code.TRANSFER_ACCOUNT_SAME_AS_DELETE_ACCOUNT, accountId);
+  const account = ctx.ledger.getAccount(accountId);
+  ctx.ledger.getAccount(transferId, Code.ACCOUNT_ID_DOES_NOT_EXIST);
+  for (const [tokenId, relationship] of account.tokens) {
+    const token = ctx.ledger.tokens.get(tokenId);
+    if (token !== undefined && !token.deleted) {
+      check(token.treasury !== accountId, Code.ACCOUNT_IS_TREASURY, `${accountId} / ${tokenId}`);
+      check(relationship.balance === ZERO, Code.TRANSACTION_REQUIRES_ZERO_TOKEN_BALANCES, `${accountId} / ${tokenId}`);
+    }
+  }
+  ctx.requireKey(account.key, `missing signature of account ${accountId}`);
+
+  const balance = account.balance;
+  ctx.adjustHbar(accountId, -balance);
+  ctx.adjustHbar(transferId, balance);
+  account.deleted = true;
+}
+
+function cryptoTransfer(ctx: TransactionContext): void {
+  const body = ctx.body.cryptoTransfer as proto.ICryptoTransferTransactionBody;
+  const { ledger } = ctx;
+
+  // Validate all hbar legs first; nothing is applied until every leg and every token list passed.
+  const hbarLegs = body.transfers?.accountAmounts ?? [];
+  const hbarAccounts = new Set<string>();
+  let hbarSum = ZERO;
+  for (const leg of hbarLegs) {
+    const accountId = accountIdToString(leg.accountID);
+    check(!hbarAccounts.has(accountId), Code.ACCOUNT_REPEATED_IN_ACCOUNT_AMOUNTS, accountId);
+    hbarAccounts.add(accountId);
+    const account = ledger.getAccount(accountId);
+    const amount = toBigInt(leg.amount);
+    hbarSum += amount;
+    if (amount < ZERO || account.receiverSigRequired) {
+      ctx.requireAccountSignature(accountId);
+    }
+    check(amount >= ZERO || account.balance + amount >= ZERO, Code.INSUFFICIENT_ACCOUNT_BALANCE, accountId);
+  }
+  check(hbarSum === ZERO, Code.INVALID_ACCOUNT_AMOUNTS, "hbar transfers do not net to zero");
+
+  const tokenLegs: { tokenId: string; accountId: string; amount: bigint; autoAssociate: boolean }[] = [];
+  const nftLegs: { tokenId: string; serial: bigint; sender: string; receiver: string; autoAssociate: boolean }[] = [];
+  for (const list of body.tokenTransfers ?? []) {
+    const tokenId = tokenIdToString(list.token);
+    const token = ledger.getToken(tokenId);
+    check(!token.paused, Code.TOKEN_IS_PAUSED, tokenId);
+    if (token.tokenType === proto.TokenType.NON_FUNGIBLE_UNIQUE) {
+      check((list.transfers ?? []).length === 0, Code.ACCOUNT_AMOUNT_TRANSFERS_ONLY_ALLOWED_FOR_FUNGIBLE_COMMON, tokenId);
+      nftLegs.push(...nftTransferLegs(ctx, tokenId, list.nftTransfers ?? []));
+      continue;
+    }
+    check((list.nftTransfers ?? []).length === 0, Code.INVALID_NFT_ID, `${tokenId} is fungible`);
+    if (list.expectedDecimals != null) {
+      check(list.expectedDecimals.value === token.decimals, Code.UNEXPECTED_TOKEN_DECIMALS, tokenId);
+    }
+
+    const seen = new Set<string>();
+    let sum = ZERO;
+    for (const leg of list.transfers ?? []) {
+      const accountId = accountIdToString(leg.accountID);
+      check(!seen.has(accountId), Code.ACCOUNT_REPEATED_IN_ACCOUNT_AMOUNTS, accountId);
+      seen.add(accountId);
+      const account = ledger.getAccount(accountId);
+      const amount = toBigInt(leg.amount);
+      sum += amount;
+      if (amount < ZERO || account.receiverSigRequired) {
+        ctx.requireAccountSignature(accountId);
+      }
+
+      const autoAssociate = checkTokenRelationship(ctx, accountId, tokenId, amount > ZERO);
+      const relationship = account.tokens.get(tokenId);
+      check(!relationship || relationship.balance + amount >= ZERO, Code.INSUFFICIENT_TOKEN_BALANCE, `${accountId} / ${tokenId}`);
+      tokenLegs.push({ tokenId, accountId, amount, autoAssociate });
+    }
+    check(sum === ZERO, Code.TRANSFERS_NOT_ZERO_SUM_FOR_TOKEN, tokenId);
+  }
+  check(hbarLegs.length > 0 || tokenLegs.length > 0 || nftLegs.length > 0, Code.EMPTY_TOKEN_TRANSFER_ACCOUNT_AMOUNTS);
+
+  const tokenChanges = new Map<string, Map<string, bigint>>();
+  for (const leg of tokenLegs) {
+    tokenChanges.set(leg.tokenId, (tokenChanges.get(leg.tokenId) ?? new Map<string, bigint>()).set(leg.accountId, leg.amount));
+  }
+  const charges = assessCustomFees(ctx, {
+    hbar: new Map(hbarLegs.map((leg) => [accountIdToString(leg.accountID), toBigInt(leg.amount)])),
+    tokens: tokenChanges,
+    nfts: nftLegs
+  });
+
+  for (const leg of hbarLegs) {
+    ctx.adjustHbar(accountIdToString(leg.accountID), toBigInt(leg.amount));
+  }
+  for (const leg of tokenLegs) {
+    if (leg.autoAssociate) {
+      associate(ctx, leg.accountId, ledger.getToken(leg.tokenId), true);
+    }
+    ctx.adjustToken(leg.tokenId, leg.accountId, leg.amount);
+  }
+  for (const leg of nftLegs) {
+    if (leg.autoAssociate && !ledger.getAccount(leg.receiver).tokens.has(leg.tokenId)) {
+      associate(ctx, leg.receiver, ledger.getToken(leg.tokenId), true);
+    }
+    ctx.moveNft(leg.tokenId, leg.serial, leg.sender, leg.receiver);
+  }
+  chargeCustomFees(ctx, charges);
+}
+
+// Checks that the account may send or receive the token, and returns whether receiving it needs an automatic association
+function checkTokenRelationship(ctx: TransactionContext, accountId: string, tokenId: string, receiving: boolean): boolean {
+  const relationship = ctx.ledger.getAccount(accountId).tokens.get(tokenId);
+  const autoAssociate = relationship === undefined && receiving && hasFreeAutoAssociationSlot(ctx, accountId);
+  check(relationship || autoAssociate, Code.TOKEN_NOT_ASSOCIATED_TO_ACCOUNT, `${accountId} / ${tokenId}`);
+  if (relationship) {
+    check(!relationship.frozen, Code.ACCOUNT_FROZEN_FOR_TOKEN, `${accountId} / ${tokenId}`);
+    check(relationship.kycGranted, Code.ACCOUNT_KYC_NOT_GRANTED_FOR_TOKEN, `${accountId} / ${tokenId}`);
+  }
+  return autoAssociate;
+}
+
+function nftTransferLegs(ctx: TransactionContext, tokenId: string, transfers: proto.INftTransfer[]) {
+  const token = ctx.ledger.getToken(tokenId);
+  const serials = new Set<bigint>();
+  return transfers.map((transfer) => {
+    const serial = toBigInt(transfer.serialNumber);
+    const sender = accountIdToString(transfer.senderAccountID);
+    const receiver = accountIdToString(transfer.receiverAccountID);
+    const nft = token.nfts.get(serial);
+    check(serial > ZERO && nft, Code.INVALID_NFT_ID, `${tokenId}/${serial}`);
+    check(!serials.has(serial), Code.INVALID_ACCOUNT_AMOUNTS, `${tokenId}/${serial} is transferred twice`);
+    serials.add(serial);
+    check(sender !== receiver, Code.ACCOUNT_REPEATED_IN_ACCOUNT_AMOUNTS, sender);
+    check(nft.owner === sender, Code.SENDER_DOES_NOT_OWN_NFT_SERIAL_NO, `${tokenId}/${serial}`);
+
+    ctx.requireAccountSignature(sender);
+    if (ctx.ledger.getAccount(receiver).receiverSigRequired) {
+      ctx.requireAccountSignature(receiver);
+    }
+    checkTokenRelationship(ctx, sender, tokenId, false);
+    const autoAssociate = checkTokenRelationship(ctx, receiver, tokenId, true);
+    return { tokenId, serial, sender, receiver, autoAssociate };
+  });
+}
+
+function hasFreeAutoAssociationSlot(ctx: TransactionContext, accountId: string): boolean {
+  const account = ctx.ledger.getAccount(accountId);
+  if (account.maxAutomaticTokenAssociations === -1) {
+    return true;
+  }
+  const used = [...account.tokens.values()].filter((relationship) => relationship.automaticAssociation).length;
+  return used < account.maxAutomaticTokenAssociations;
+}
+
+// --- token service ---
+
+function associate(ctx: TransactionContext, accountId: string, token: SimulatedToken, automaticAssociation: boolean): TokenRelationship {
+  const relationship: TokenRelationship = {
+    balance: ZERO,
+    frozen: token.freezeKey !== undefined && token.freezeDefault,
+    kycGranted: token.kycKey === undefined,
+    automaticAssociation
+  };
+  ctx.ledger.getAccount(accountId).tokens.set(token.id, relationship);
+  return relationship;
+}
+
+function tokenCreation(ctx: TransactionContext): void {
+  const body = ctx.body.tokenCreation as proto.ITokenCreateTransactionBody;
+  const { ledger } = ctx;
+
+  const name = body.name ?? "";
+  const symbol = body.symbol ?? "";
+  check(name.length > 0, Code.MISSING_TOKEN_NAME);
+  check(Buffer.byteLength(name) <= MAX_TOKEN_NAME_BYTES, Code.TOKEN_NAME_TOO_LONG);
+  check(symbol.length > 0, Code.MISSING_TOKEN_SYMBOL);
+  check(Buffer.byteLength(symbol) <= MAX_TOKEN_NAME_BYTES, Code.TOKEN_SYMBOL_TOO_LONG);
+  check(Buffer.byteLength(body.memo ?? "") <= MAX_MEMO_BYTES, Code.MEMO_TOO_LONG);
+
+  const treasury = accountIdToString(body.treasury);
+  check(body.treasury != null && ledger.accounts.has(treasury), Code.INVALID_TREASURY_ACCOUNT_FOR_TOKEN);
+  ledger.getAccount(treasury);
+
+  const tokenType = body.tokenType ?? proto.TokenType.FUNGIBLE_COMMON;
+  const supplyType = body.supplyType ?? proto.TokenSupplyType.INFINITE;
+  const decimals = body.decimals ?? 0;
+  const initialSupply = toBigInt(body.initialSupply);
+  const maxSupply = toBigInt(body.maxSupply);
+  check(decimals >= 0 && decimals <= 18, Code.INVALID_TOKEN_DECIMALS);
+  check(initialSupply >= ZERO, Code.INVALID_TOKEN_INITIAL_SUPPLY);
+  if (tokenType === proto.TokenType.NON_FUNGIBLE_UNIQUE) {
+    // Serials only come into existence by minting them
+    check(decimals === 0, Code.INVALID_TOKEN_DECIMALS);
+    check(initialSupply === ZERO, Code.INVALID_TOKEN_INITIAL_SUPPLY);
+    check(body.supplyKey != null, Code.TOKEN_HAS_NO_SUPPLY_KEY);
+  }
+  if (supplyType === proto.TokenSupplyType.FINITE) {
+    check(maxSupply > ZERO, Code.INVALID_TOKEN_MAX_SUPPLY);
+    check(initialSupply <= maxSupply, Code.INVALID_TOKEN_INITIAL_SUPPLY);
+  } else {
+    check(maxSupply === ZERO, Code.INVALID_TOKEN_MAX_SUPPLY);
+  }
+
+  const keys = [body.adminKey, body.kycKey, body.freezeKey, body.wipeKey, body.supplyKey, body.feeScheduleKey, body.pauseKey];
+  keys.forEach(requireValidKey);
+  check(body.freezeKey != null || !body.freezeDefault, Code.TOKEN_HAS_NO_FREEZE_KEY);
+
+  const autoRenewAccount = body.autoRenewAccount != null ? accountIdToString(body.autoRenewAccount) : undefined;
+  if (autoRenewAccount !== undefined) {
+    check(ledger.accounts.has(autoRenewAccount), Code.INVALID_AUTORENEW_ACCOUNT, autoRenewAccount);
+  }
+
+  ctx.requireAccountSignature(treasury);
+  if (body.adminKey != null) {
+    ctx.requireKey(body.adminKey, "missing signature of the admin key");
+  }
+  if (autoRenewAccount !== undefined) {
+    ctx.requireAccountSignature(autoRenewAccount);
+  }
+
+  const autoRenewPeriodSeconds = body.autoRenewPeriod != null ? toBigInt(body.autoRenewPeriod.seconds) : DEFAULT_AUTO_RENEW_SECONDS;
+  const token: SimulatedToken = {
+    id: ledger.nextEntityId(),
+    name,
+    symbol,
+    decimals,
+    memo: body.memo ?? "",
+    tokenType,
+    supplyType,
+    totalSupply: initialSupply,
+    maxSupply,
+    treasury,
+    adminKey: optionalKey(body.adminKey),
+    kycKey: optionalKey(body.kycKey),
+    freezeKey: optionalKey(body.freezeKey),
+    wipeKey: optionalKey(body.wipeKey),
+    supplyKey: optionalKey(body.supplyKey),
+    feeScheduleKey: optionalKey(body.feeScheduleKey),
+    pauseKey: optionalKey(body.pauseKey),
+    freezeDefault: body.freezeDefault ?? false,
+    paused: false,
+    deleted: false,
+    autoRenewAccount,
+    autoRenewPeriodSeconds,
+    expirySeconds: body.expiry != null ? toBigInt(body.expiry.seconds) : ctx.consensusSeconds + autoRenewPeriodSeconds,
+    customFees: body.customFees ?? [],
+    nfts: new Map(),
+    lastSerial: ZERO
+  };
+  // Collectors of fees paid in the new token sign to be associated with it
+  const feeCollectors = checkCustomFees(ctx, token).filter((collector) => collector !== treasury);
+  feeCollectors.forEach((collector) => ctx.requireAccountSignature(collector));
+  ledger.tokens.set(token.id, token);
+
+  // The treasury is associated automatically, unfrozen and KYC granted.
+  const relationship = associate(ctx, treasury, token, false);
+  relationship.frozen = false;
+  relationship.kycGranted = true;
+  for (const collector of feeCollectors) {
+    associate(ctx, collector, token, false);
+  }
+  if (initialSupply > ZERO) {
+    ctx.adjustToken(token.id, treasury, initialSupply);
+  }
+  ctx.receipt.tokenID = tokenIdToProto(token.id);
+}
+
+function tokenMint(ctx: TransactionContext): void {
+  const body = ctx.body.tokenMint as proto.ITokenMintTransactionBody;
+  const token = ctx.ledger.getToken(tokenIdToString(body.token));
+  check(token.supplyKey !== undefined, Code.TOKEN_HAS_NO_SUPPLY_KEY, token.id);
+  check(!token.paused, Code.TOKEN_IS_PAUSED, token.id);
+  ctx.requireKey(token.supplyKey, "missing signature of the supply key");
+
+  const amount = toBigInt(body.amount);
+  const metadata = body.metadata ?? [];
+  if (token.tokenType === proto.TokenType.NON_FUNGIBLE_UNIQUE) {
+    check(amount === ZERO, Code.INVALID_TOKEN_MINT_AMOUNT, "NFTs are minted by metadata");
+    check(metadata.length > 0, Code.INVALID_TOKEN_MINT_METADATA);
+    check(metadata.length <= MAX_NFT_MINT_BATCH, Code.BATCH_SIZE_LIMIT_EXCEEDED);
+    check(metadata.every((entry) => entry.length <= MAX_NFT_METADATA_BYTES), Code.METADATA_TOO_LONG);
+  } else {
+    check(amount > ZERO, Code.INVALID_TOKEN_MINT_AMOUNT);
+    check(metadata.length === 0, Code.INVALID_TOKEN_MINT_METADATA, "fungible tokens are minted by amount");
+  }
+  const newSupply = token.totalSupply + (metadata.length > 0 ? BigInt(metadata.length) : amount);
+  check(newSupply <= INT64_MAX, Code.INVALID_TOKEN_MINT_AMOUNT);
+  if (token.supplyType === proto.TokenSupplyType.FINITE) {
+    check(newSupply <= token.maxSupply, Code.TOKEN_MAX_SUPPLY_REACHED, token.id);
+  }
+
+  token.totalSupply = newSupply;
+  if (token.tokenType === proto.TokenType.NON_FUNGIBLE_UNIQUE) {
+    const serials = metadata.map((entry) => {
+      const serial = ++token.lastSerial;
+      token.nfts.set(serial, { serial, owner: MINT_ACCOUNT_ID, metadata: entry, createdNanos: ctx.consensusNanos });
+      ctx.moveNft(token.id, serial, MINT_ACCOUNT_ID, token.treasury);
+      return serial;
+    });
+    ctx.receipt.serialNumbers = serials.map(toLong);
+  } else {
+    ctx.adjustToken(token.id, token.treasury, amount);
+  }
+  ctx.receipt.newTotalSupply = toLong(newSupply);
+}
+
+function tokenAssociate(ctx: TransactionContext): void {
+  const body = ctx.body.tokenAssociate as proto.ITokenAssociateTransactionBody;
+  const accountId = accountIdToString(body.account);
+  check(body.account != null, Code.INVALID_ACCOUNT_ID);
+  const account = ctx.ledger.getAccount(accountId);
+
+  const tokenIds = (body.tokens ?? []).map(tokenIdToString);
+  check(new Set(tokenIds).size === tokenIds.length, Code.TOKEN_ID_REPEATED_IN_TOKEN_LIST);
+  const tokens = tokenIds.map((tokenId) => ctx.ledger.getToken(tokenId));
+  for (const token of tokens) {
+    check(!account.tokens.has(token.id), Code.TOKEN_ALREADY_ASSOCIATED_TO_ACCOUNT, `${accountId} / ${token.id}`);
+  }
+  ctx.requireKey(account.key, `missing signature of account ${accountId}`);
+
+  for (const token of tokens) {
+    associate(ctx, accountId, token, false);
+  }
+}
+
+// A deleted token can be dissociated whatever the account holds. Otherwise the account must not be its treasury, be
+// frozen for it or hold any of it.
+function tokenDissociate(ctx: TransactionContext): void {
+  const body = ctx.body.tokenDissociate as proto.ITokenDissociateTransactionBody;
+  const accountId = accountIdToString(body.account);
+  check(body.account != null, Code.INVALID_ACCOUNT_ID);
+  const account = ctx.ledger.getAccount(accountId);
+
+  const tokenIds = (body.tokens ?? []).map(tokenIdToString);
+  check(new Set(tokenIds).size === tokenIds.length, Code.TOKEN_ID_REPEATED_IN_TOKEN_LIST);
+  for (const tokenId of tokenIds) {
+    const token = ctx.ledger.tokens.get(tokenId);
+    check(token, Code.INVALID_TOKEN_ID, tokenId);
+    const relationship = account.tokens.get(tokenId);
+    check(relationship, Code.TOKEN_NOT_ASSOCIATED_TO_ACCOUNT, `${accountId} / ${tokenId}`);
+    if (!token.deleted) {
+      check(token.treasury !== accountId, Code.ACCOUNT_IS_TREASURY, `${accountId} / ${tokenId}`);
+      check(!relationship.frozen, Code.ACCOUNT_FROZEN_FOR_TOKEN, `${accountId} / ${tokenId}`);
+      check(relationship.balance === ZERO, Code.TRANSACTION_REQUIRES_ZERO_TOKEN_BALANCES, `${accountId} / ${tokenId}`);
+    }
+  }
+  ctx.requireKey(account.key, `missing signature of account ${accountId}`);
+
+  tokenIds.forEach((tokenId) => account.tokens.delete(tokenId));
+}
+
+// --- token administration ---
+
+type TokenKeyRole = "adminKey" | "kycKey" | "freezeKey" | "wipeKey" | "supplyKey" | "feeScheduleKey" | "pauseKey";
+
+// What a transaction that needs a key fails with when the token was created without it
+const MISSING_TOKEN_KEY: Record<TokenKeyRole, proto.ResponseCodeEnum> = {
+  adminKey: Code.TOKEN_IS_IMMUTABLE,
+  kycKey: Code.TOKEN_HAS_NO_KYC_KEY,
+  freezeKey: Code.TOKEN_HAS_NO_FREEZE_KEY,
+  wipeKey: Code.TOKEN_HAS_NO_WIPE_KEY,
+  supplyKey: Code.TOKEN_HAS_NO_SUPPLY_KEY,
+  feeScheduleKey: Code.TOKEN_HAS_NO_FEE_SCHEDULE_KEY,
+  pauseKey: Code.TOKEN_HAS_NO_PAUSE_KEY
+};
+
+// The token an administrative transaction acts on, once the key for the action has signed. A paused token takes no
+// administrative action but pausing and unpausing.
+function administeredToken(ctx: TransactionContext, tokenId: proto.ITokenID | null | undefined, role: TokenKeyRole): SimulatedToken {
+  const token = ctx.ledger.getToken(tokenIdToString(tokenId));
+  check(token[role] !== undefined, MISSING_TOKEN_KEY[role], token.id);
+  if (role !== "pauseKey") {
+    check(!token.paused, Code.TOKEN_IS_PAUSED, token.id);
+  }
+  ctx.requireKey(token[role], `missing signature of the ${role.replace("Key", "")} key`);
+  return token;
+}
+
+function associatedRelationship(ctx: TransactionContext, token: SimulatedToken, account: proto.IAccountID | null | undefined): TokenRelationship {
+  check(account != null, Code.INVALID_ACCOUNT_ID);
+  const accountId = accountIdToString(account);
+  const relationship = ctx.ledger.getAccount(accountId).tokens.get(token.id);
+  check(relationship, Code.TOKEN_NOT_ASSOCIATED_TO_ACCOUNT, `${accountId} / ${token.id}`);
+  return relationship;
+}
+
+function tokenFreeze(ctx: TransactionContext): void {
+  const body = ctx.body.tokenFreeze as proto.ITokenFreezeAccountTransactionBody;
+  const token = administeredToken(ctx, body.token, "freezeKey");
+  associatedRelationship(ctx, token, body.account).frozen = true;
+}
+
+function tokenUnfreeze(ctx: TransactionContext): void {
+  const body = ctx.body.tokenUnfreeze as proto.ITokenUnfreezeAccountTransactionBody;
+  const token = administeredToken(ctx, body.token, "freezeKey");
+  associatedRelationship(ctx, token, body.account).frozen = false;
+}
+
+function tokenGrantKyc(ctx: TransactionContext): void {
+  const body = ctx.body.tokenGrantKyc as proto.ITokenGrantKycTransactionBody;
+  const token = administeredToken(ctx, body.token, "kycKey");
+  associatedRelationship(ctx, token, body.account).kycGranted = true;
+}
+
+function tokenRevokeKyc(ctx: TransactionContext): void {
+  const body = ctx.body.tokenRevokeKyc as proto.ITokenRevokeKycTransactionBody;
+  const token = administeredToken(ctx, body.token, "kycKey");
+  associatedRelationship(ctx, token, body.account).kycGranted = false;
+}
+
+function tokenPause(ctx: TransactionContext): void {
+  const body = ctx.body.tokenPause as proto.ITokenPauseTransactionBody;
+  administeredToken(ctx, body.token, "pauseKey").paused = true;
+}
+
+function tokenUnpause(ctx: TransactionContext): void {
+  const body = ctx.body.tokenUnpause as proto.ITokenUnpauseTransactionBody;
+  administeredToken(ctx, body.token, "pauseKey").paused = false;
+}
+
+// Checks the serials of an NFT burn or wipe: at least one, each minted, not yet burnt and owned by `owner`
+function checkRemovedSerials(token: SimulatedToken, serials: bigint[], owner: string, notOwned: proto.ResponseCodeEnum, none: proto.ResponseCodeEnum): void {
+  check(serials.length > 0, none, token.id);
+  check(serials.length <= MAX_NFT_MINT_BATCH, Code.BATCH_SIZE_LIMIT_EXCEEDED);
+  check(new Set(serials).size === serials.length, Code.INVALID_NFT_ID, "serial repeated");
+  for (const serial of serials) {
+    const nft = token.nfts.get(serial);
+    check(nft, Code.INVALID_NFT_ID, `${token.id}/${serial}`);
+    check(nft.owner === owner, notOwned, `${token.id}/${serial}`);
+  }
+}
+
+function tokenWipe(ctx: TransactionContext): void {
+  const body = ctx.body.tokenWipe as proto.ITokenWipeAccountTransactionBody;
+  const token = administeredToken(ctx, body.token, "wipeKey");
+  const relationship = associatedRelationship(ctx, token, body.account);
+  const accountId = accountIdToString(body.account);
+  check(accountId !== token.treasury, Code.CANNOT_WIPE_TOKEN_TREASURY_ACCOUNT, accountId);
+
+  if (token.tokenType === proto.TokenType.NON_FUNGIBLE_UNIQUE) {
+    check(toBigInt(body.amount) === ZERO, Code.INVALID_WIPING_AMOUNT, "NFTs are wiped by serial");
+    const serials = (body.serialNumbers ?? []).map(toBigInt);
+    checkRemovedSerials(token, serials, accountId, Code.ACCOUNT_DOES_NOT_OWN_WIPED_NFT, Code.INVALID_WIPING_AMOUNT);
+    serials.forEach((serial) => ctx.moveNft(token.id, serial, accountId, MINT_ACCOUNT_ID));
+    token.totalSupply -= BigInt(serials.length);
+  } else {
+    const amount = toBigInt(body.amount);
+    check(amount > ZERO && amount <= relationship.balance, Code.INVALID_WIPING_AMOUNT, `${accountId} / ${token.id}`);
+    ctx.adjustToken(token.id, accountId, -amount);
+    token.totalSupply -= amount;
+  }
+  ctx.receipt.newTotalSupply = toLong(token.totalSupply);
+}
+
+function tokenBurn(ctx: TransactionContext): void {
+  const body = ctx.body.tokenBurn as proto.ITokenBurnTransactionBody;
+  const token = administeredToken(ctx, body.token, "supplyKey");
+  const treasury = ctx.ledger.getAccount(token.treasury).tokens.get(token.id) as TokenRelationship;
+
+  if (token.tokenType === proto.TokenType.NON_FUNGIBLE_UNIQUE) {
+    check(toBigInt(body.amount) === ZERO, Code.INVALID_TOKEN_BURN_AMOUNT, "NFTs are burnt by serial");
+    const serials = (body.serialNumbers ?? []).map(toBigInt);
+    checkRemovedSerials(token, serials, token.treasury, Code.TREASURY_MUST_OWN_BURNED_NFT, Code.INVALID_TOKEN_BURN_METADATA);
+    serials.forEach((serial) => ctx.moveNft(token.id, serial, token.treasury, MINT_ACCOUNT_ID));
+    token.totalSupply -= BigInt(serials.length);
+  } else {
+    const amount = toBigInt(body.amount);
+    check(amount > ZERO, Code.INVALID_TOKEN_BURN_AMOUNT);
+    check(amount <= treasury.balance, Code.INSUFFICIENT_TOKEN_BALANCE, `${token.treasury} / ${token.id}`);
+    ctx.adjustToken(token.id, token.treasury, -amount);
+    token.totalSupply -= amount;
+  }
+  ctx.receipt.newTotalSupply = toLong(token.totalSupply);
+}
+
+function tokenUpdate(ctx: TransactionContext): void {
+  const body = ctx.body.tokenUpdate as proto.ITokenUpdateTransactionBody;
+  const { ledger } = ctx;
+  const token = administeredToken(ctx, body.token, "adminKey");
+
+  const name = body.name ?? "";
+  const symbol = body.symbol ?? "";
+  check(Buffer.byteLength(name) <= MAX_TOKEN_NAME_BYTES, Code.TOKEN_NAME_TOO_LONG);
+  check(Buffer.byteLength(symbol) <= MAX_TOKEN_NAME_BYTES, Code.TOKEN_SYMBOL_TOO_LONG);
+  check(Buffer.byteLength(body.memo?.value ?? "") <= MAX_MEMO_BYTES, Code.MEMO_TOO_LONG);
+
+  // Only the keys the token was created with can be replaced
+  const roles: TokenKeyRole[] = ["kycKey", "freezeKey", "wipeKey", "supplyKey", "feeScheduleKey", "pauseKey"];
+  for (const role of roles) {
+    requireValidKey(body[role]);
+    check(body[role] == null || token[role] !== undefined, MISSING_TOKEN_KEY[role], token.id);
+  }
+  requireValidKey(body.adminKey);
+  if (body.adminKey != null) {
+    ctx.requireKey(body.adminKey, "missing signature of the new admin key");
+  }
+
+  const newTreasury = body.treasury != null ? accountIdToString(body.treasury) : undefined;
+  if (newTreasury !== undefined && newTreasury !== token.treasury) {
+    check(ledger.accounts.has(newTreasury), Code.INVALID_TREASURY_ACCOUNT_FOR_TOKEN, newTreasury);
+    const relationship = ledger.getAccount(newTreasury).tokens.get(token.id);
+    if (relationship) {
+      check(!relationship.frozen, Code.ACCOUNT_FROZEN_FOR_TOKEN, `${newTreasury} / ${token.id}`);
+    }
+    if (token.tokenType === proto.TokenType.NON_FUNGIBLE_UNIQUE) {
+      const oldTreasury = ledger.getAccount(token.treasury).tokens.get(token.id);
+      check(!oldTreasury || oldTreasury.balance === ZERO, Code.CURRENT_TREASURY_STILL_OWNS_NFTS, token.treasury);
+    }
+    ctx.requireAccountSignature(newTreasury);
+  }
+
+  if (name.length > 0) token.name = name;
+  if (symbol.length > 0) token.symbol = symbol;
+  if (body.memo != null) token.memo = body.memo.value ?? "";
+  if (body.adminKey != null) token.adminKey = body.adminKey;
+  for (const role of roles) {
+    const key = body[role];
+    if (key != null) token[role] = key;
+  }
+  if (newTreasury !== undefined && newTreasury !== token.treasury) {
+    // The new treasury is associated if it was not, and takes over the old treasury's balance
+    const relationship = ledger.getAccount(newTreasury).tokens.get(token.id) ?? associate(ctx, newTreasury, token, false);
+    relationship.kycGranted = true;
+    const balance = (ledger.getAccount(token.treasury).tokens.get(token.id) as TokenRelationship).balance;
+    if (token.tokenType !== proto.TokenType.NON_FUNGIBLE_UNIQUE && balance > ZERO) {
+      ctx.adjustToken(token.id, token.treasury, -balance);
+      ctx.adjustToken(token.id, newTreasury, balance);
+    }
+    token.treasury = newTreasury;
+  }
+}
+
+function tokenDeletion(ctx: TransactionContext): void {
+  const body = ctx.body.tokenDeletion as proto.ITokenDeleteTransactionBody;
+  administeredToken(ctx, body.token, "adminKey").deleted = true;
+}
+
+// --- consensus service ---
+
+function consensusCreateTopic(ctx: TransactionContext): void {
+  const body = ctx.body.consensusCreateTopic as proto.IConsensusCreateTopicTransactionBody;
+  const { ledger } = ctx;
+  check(Buffer.byteLength(body.memo ?? "") <= MAX_MEMO_BYTES, Code.MEMO_TOO_LONG);
+  requireValidKey(body.adminKey);
+  requireValidKey(body.submitKey);
+
+  const autoRenewAccount = body.autoRenewAccount != null ? accountIdToString(body.autoRenewAccount) : undefined;
+  if (autoRenewAccount !== undefined) {
+    check(ledger.accounts.has(autoRenewAccount), Code.INVALID_AUTORENEW_ACCOUNT, autoRenewAccount);
+    ctx.requireAccountSignature(autoRenewAccount);
+  }
+  if (body.adminKey != null) {
+    ctx.requireKey(body.adminKey, "missing signature of the admin key");
+  }
+
+  const autoRenewPeriodSeconds = body.autoRenewPeriod != null ? toBigInt(body.autoRenewPeriod.seconds) : DEFAULT_AUTO_RENEW_SECONDS;
+  checkAutoRenewPeriod(autoRenewPeriodSeconds);
+  const id = ledger.nextEntityId();
+  ledger.topics.set(id, {
+    id,
+    memo: body.memo ?? "",
+    adminKey: optionalKey(body.adminKey),
+    submitKey: optionalKey(body.submitKey),
+    autoRenewAccount,
+    autoRenewPeriodSeconds,
+    expirySeconds: ctx.consensusSeconds + autoRenewPeriodSeconds,
+    sequenceNumber: ZERO,
+    runningHash: new Uint8Array(48),
+    deleted: false,
+    messages: []
+  });
+  ctx.receipt.topicID = topicIdToProto(id);
+}
+
+function consensusSubmitMessage(ctx: TransactionContext): void {
+  const body = ctx.body.consensusSubmitMessage as proto.IConsensusSubmitMessageTransactionBody;
+  const topic = ctx.ledger.getTopic(topicIdToString(body.topicID));
+  const message = body.message ?? new Uint8Array();
+  check(message.length > 0, Code.INVALID_TOPIC_MESSAGE);
+  check(message.length <= MAX_MESSAGE_BYTES, Code.MESSAGE_SIZE_TOO_LARGE);
+
+  const chunkInfo = body.chunkInfo ?? undefined;
+  if (chunkInfo != null) {
+    const number = chunkInfo.number ?? 0;
+    const total = chunkInfo.total ?? 0;
+    check(number >= 1 && number <= total, Code.INVALID_CHUNK_NUMBER);
+    const initialPayer = accountIdToString(chunkInfo.initialTransactionID?.accountID);
+    check(initialPayer === ctx.payer, Code.INVALID_CHUNK_TRANSACTION_ID);
+  }
+  if (topic.submitKey !== undefined) {
+    ctx.requireKey(topic.submitKey, "missing signature of the submit key");
+  }
+
+  const entry = ctx.ledger.appendTopicMessage(ctx, topic, message, chunkInfo);
+  ctx.receipt.topicSequenceNumber = toLong(entry.sequenceNumber);
+  ctx.receipt.topicRunningHash = entry.runningHash;
+  ctx.receipt.topicRunningHashVersion = toLong(BigInt(3));
+}
+
+// An empty key list clears the key it replaces, as in TopicUpdateTransaction.clearSubmitKey()
+const isEmptyKeyList = (key: proto.IKey): boolean => key.keyList != null && (key.keyList.keys ?? []).length === 0;
+
+function checkAutoRenewPeriod(seconds: bigint): void {
+  check(seconds >= MIN_AUTO_RENEW_SECONDS && seconds <= MAX_AUTO_RENEW_SECONDS, Code.AUTORENEW_DURATION_NOT_IN_RANGE, `${seconds}s`);
+}
+
+function consensusUpdateTopic(ctx: TransactionContext): void {
+  const body = ctx.body.consensusUpdateTopic as proto.IConsensusUpdateTopicTransactionBody;
+  const { ledger } = ctx;
+  const topic = ledger.getTopic(topicIdToString(body.topicID));
+
+  // Without an admin key, the expiration time is all that can still change
+  const changesMoreThanExpiry = body.memo != null || body.adminKey != null || body.submitKey != null || body.autoRenewPeriod != null || body.autoRenewAccount != null;
+  check(!changesMoreThanExpiry || topic.adminKey !== undefined, Code.UNAUTHORIZED, `topic ${topic.id} has no admin key`);
+  check(Buffer.byteLength(body.memo?.value ?? "") <= MAX_MEMO_BYTES, Code.MEMO_TOO_LONG);
+  requireValidKey(body.adminKey);
+  requireValidKey(body.submitKey);
+  const expirySeconds = body.expirationTime != null ? toBigInt(body.expirationTime.seconds) : topic.expirySeconds;
+  check(expirySeconds >= topic.expirySeconds, Code.EXPIRATION_REDUCTION_NOT_ALLOWED, topic.id);
+  if (body.autoRenewPeriod != null) {
+    checkAutoRenewPeriod(toBigInt(body.autoRenewPeriod.seconds));
+  }
+  // 0.0.0 removes the auto-renew account
+  const autoRenewAccount = body.autoRenewAccount != null ? accountIdToString(body.autoRenewAccount) : undefined;
+  const clearsAutoRenewAccount = autoRenewAccount === "0.0.0";
+  if (autoRenewAccount !== undefined && !clearsAutoRenewAccount) {
+    check(ledger.accounts.has(autoRenewAccount), Code.INVALID_AUTORENEW_ACCOUNT, autoRenewAccount);
+    ctx.requireAccountSignature(autoRenewAccount);
+  }
+
+  if (changesMoreThanExpiry) {
+    ctx.requireKey(topic.adminKey, "missing signature of the admin key");
+  }
+  if (body.adminKey != null && !isEmptyKeyList(body.adminKey)) {
+    ctx.requireKey(body.adminKey, "missing signature of the new admin key");
+  }
+
+  if (body.memo != null) topic.memo = body.memo.value ?? "";
+  if (body.adminKey != null) topic.adminKey = isEmptyKeyList(body.adminKey) ? undefined : body.adminKey;
+  if (body.submitKey != null) topic.submitKey = isEmptyKeyList(body.submitKey) ? undefined : body.submitKey;
+  if (body.autoRenewPeriod != null) topic.autoRenewPeriodSeconds = toBigInt(body.autoRenewPeriod.seconds);
+  if (autoRenewAccount !== undefined) topic.autoRenewAccount = clearsAutoRenewAccount ? undefined : autoRenewAccount;
+  topic.expirySeconds = expirySeconds;
+}
+
+function consensusDeleteTopic(ctx: TransactionContext): void {
+  const body = ctx.body.consensusDeleteTopic as proto.IConsensusDeleteTopicTransactionBody;
+  const topic = ctx.ledger.getTopic(topicIdToString(body.topicID));
+  check(topic.adminKey !== undefined, Code.UNAUTHORIZED, `topic ${topic.id} has no admin key`);
+  ctx.requireKey(topic.adminKey, "missing signature of the admin key");
+  topic.deleted = true;
+}
+
+// --- schedule service ---
+
+function scheduleCreate(ctx: TransactionContext): void {
+  const body = ctx.body.scheduleCreate as proto.IScheduleCreateTransactionBody;
+  const { ledger } = ctx;
+  const scheduled = body.scheduledTransactionBody as proto.SchedulableTransactionBody | null | undefined;
+  const bodyCase = scheduled?.data;
+  check(scheduled != null && bodyCase != null, Code.INVALID_TRANSACTION_BODY, "nothing to schedule");
+  check(bodyCase !== "scheduleDelete", Code.NO_SCHEDULING_ALLOWED_AFTER_SCHEDULED_RECURSION);
+  check(TRANSACTION_HANDLERS[bodyCase] !== undefined && transactionFee(bodyCase) !== undefined, Code.SCHEDULED_TRANSACTION_NOT_IN_WHITELIST, bodyCase);
+  check(Buffer.byteLength(body.memo ?? "") <= MAX_MEMO_BYTES, Code.MEMO_TOO_LONG);
+  check(!body.waitForExpiry, Code.NOT_SUPPORTED, "schedules that wait for their expiry");
+  requireValidKey(body.adminKey);
+
+  const payer = body.payerAccountID != null ? accountIdToString(body.payerAccountID) : ctx.payer;
+  check(ledger.accounts.has(payer), Code.INVALID_SCHEDULE_PAYER_ID, payer);
+  const expirySeconds = body.expirationTime != null
+    ? toBigInt(body.expirationTime.seconds)
+    : ctx.consensusSeconds + DEFAULT_SCHEDULE_LIFETIME_SECONDS;
+  check(expirySeconds > ctx.consensusSeconds, Code.SCHEDULE_EXPIRATION_TIME_MUST_BE_HIGHER_THAN_CONSENSUS_TIME);
+  check(expirySeconds <= ctx.consensusSeconds + MAX_SCHEDULE_LIFETIME_SECONDS, Code.SCHEDULE_EXPIRATION_TIME_TOO_FAR_IN_FUTURE);
+  if (body.adminKey != null) {
+    ctx.requireKey(body.adminKey, "missing signature of the admin key");
+  }
+
+  const schedule: SimulatedSchedule = {
+    id: ledger.nextEntityId(),
+    body: scheduled,
+    scheduledTransactionId: { ...ctx.body.transactionID, scheduled: true },
+    memo: body.memo ?? "",
+    adminKey: optionalKey(body.adminKey),
+    creator: ctx.payer,
+    payer,
+    // Signatures on the creating transaction count towards the schedule
+    signatories: new Set(ctx.signers),
+    expirySeconds
+  };
+  ledger.schedules.set(schedule.id, schedule);
+  ledger.runScheduled(schedule);
+  ctx.receipt.scheduleID = scheduleIdToProto(schedule.id);
+  ctx.receipt.scheduledTransactionID = schedule.scheduledTransactionId;
+}
+
+function activeSchedule(ctx: TransactionContext, scheduleId: proto.IScheduleID | null | undefined): SimulatedSchedule {
+  const schedule = ctx.ledger.getSchedule(scheduleIdToString(scheduleId), ctx.consensusSeconds);
+  check(schedule.executedNanos === undefined, Code.SCHEDULE_ALREADY_EXECUTED, schedule.id);
+  check(schedule.deletedNanos === undefined, Code.SCHEDULE_ALREADY_DELETED, schedule.id);
+  return schedule;
+}
+
+function scheduleSign(ctx: TransactionContext): void {
+  const body = ctx.body.scheduleSign as proto.IScheduleSignTransactionBody;
+  const schedule = activeSchedule(ctx, body.scheduleID);
+  const added = [...ctx.signers].filter((signer) => !schedule.signatories.has(signer));
+  check(added.length > 0, Code.NO_NEW_VALID_SIGNATURES, schedule.id);
+
+  added.forEach((signer) => schedule.signatories.add(signer));
+  ctx.ledger.runScheduled(schedule);
+  ctx.receipt.scheduledTransactionID = schedule.scheduledTransactionId;
+}
+
+function scheduleDelete(ctx: TransactionContext): void {
+  const body = ctx.body.scheduleDelete as proto.IScheduleDeleteTransactionBody;
+  const schedule = activeSchedule(ctx, body.scheduleID);
+  check(schedule.adminKey !== undefined, Code.SCHEDULE_IS_IMMUTABLE, schedule.id);
+  ctx.requireKey(schedule.adminKey, "missing signature of the admin key");
+  schedule.deletedNanos = ctx.consensusNanos;
+}
+
+// Keyed by the TransactionBody `data` case, i.e. the field name of the body in the protobuf.
+export const TRANSACTION_HANDLERS: Record<string, TransactionHandler> = {
+  cryptoCreateAccount,
+  cryptoDelete,
+  cryptoTransfer,
+  tokenCreation,
+  tokenMint,
+  tokenAssociate,
+  tokenDissociate,
+  tokenFreeze,
+  tokenUnfreeze,
+  tokenGrantKyc,
+  tokenRevokeKyc,
+  tokenPause,
+  tokenUnpause,
+  tokenWipe,
+  tokenBurn,
+  tokenUpdate,
+  tokenDeletion,
+  consensusCreateTopic,
+  consensusSubmitMessage,
+  consensusUpdateTopic,
+  consensusDeleteTopic,
+  scheduleCreate,
+  scheduleSign,
+  scheduleDelete
+};
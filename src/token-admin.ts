@@ -0,0 +1,160 @@
+import {
+  AccountId,
+  AccountInfoQuery,
+  Client,
+  Key,
+  Long,
+  PrivateKey,
+  TokenBurnTransaction,
+  TokenDeleteTransaction,
+  TokenFreezeTransaction,
+  TokenGrantKycTransaction,
+  TokenId,
+  TokenPauseTransaction,
+  TokenRevokeKycTransaction,
+  TokenUnfreezeTransaction,
+  TokenUnpauseTransaction,
+  TokenUpdateTransaction,
+  TokenWipeTransaction,
+  Transaction,
+  TransactionReceipt
+} from "@hashgraph/sdk";
+import { executeQuery, submitTransaction } from "./transaction-records";
+import { waitFor, WaitOptions } from "./wait";
+
+// Administration of a token by the holders of its keys. Every action needs the signature of one key, which has to be
+// set when the token is created: the freeze key freezes accounts, the KYC key grants KYC, the pause key pauses all
+// transfers, the wipe key removes units from an account, the supply key mints and burns, and the admin key updates and
+// deletes the token. The client's operator pays; a rejected action throws the SDK's ReceiptStatusError with the status,
+// e.g. TOKEN_HAS_NO_FREEZE_KEY or TOKEN_IS_PAUSED.
+
+// The token's settings that an update replaces; the ones left out stay as they are
+export interface TokenChanges {
+  name?: string;
+  symbol?: string;
+  memo?: string;
+  // Takes over the old treasury's balance and has to sign; a collection's treasury must not own serials at that point
+  treasury?: AccountId;
+  adminKey?: Key;
+  kycKey?: Key;
+  freezeKey?: Key;
+  wipeKey?: Key;
+  supplyKey?: Key;
+  feeScheduleKey?: Key;
+  pauseKey?: Key;
+}
+
+// An account's standing with a token. `frozen` and `kycGranted` are null when the token has no freeze or KYC key.
+export interface TokenStanding {
+  balance: bigint;
+  frozen: boolean | null;
+  kycGranted: boolean | null;
+}
+
+async function submit(client: Client, transaction: Transaction, signers: PrivateKey[]): Promise<TransactionReceipt> {
+  transaction.freezeWith(client);
+  for (const signer of signers) {
+    await transaction.sign(signer);
+  }
+  return (await submitTransaction(client, transaction)).getReceipt(client);
+}
+
+const toLong = (value: bigint) => Long.fromString(value.toString());
+
+// A frozen account can neither send nor receive the token
+export async function freezeAccount(client: Client, tokenId: TokenId, accountId: AccountId, freezeKey: PrivateKey): Promise<TransactionReceipt> {
+  return submit(client, new TokenFreezeTransaction().setTokenId(tokenId).setAccountId(accountId), [freezeKey]);
+}
+
+export async function unfreezeAccount(client: Client, tokenId: TokenId, accountId: AccountId, freezeKey: PrivateKey): Promise<TransactionReceipt> {
+  return submit(client, new TokenUnfreezeTransaction().setTokenId(tokenId).setAccountId(accountId), [freezeKey]);
+}
+
+// Only accounts granted KYC can send or receive a token with a KYC key; the treasury is granted KYC on creation
+export async function grantKyc(client: Client, tokenId: TokenId, accountId: AccountId, kycKey: PrivateKey): Promise<TransactionReceipt> {
+  return submit(client, new TokenGrantKycTransaction().setTokenId(tokenId).setAccountId(accountId), [kycKey]);
+}
+
+export async function revokeKyc(client: Client, tokenId: TokenId, accountId: AccountId, kycKey: PrivateKey): Promise<TransactionReceipt> {
+  return submit(client, new TokenRevokeKycTransaction().setTokenId(tokenId).setAccountId(accountId), [kycKey]);
+}
+
+// Nothing but unpausing goes through for a paused token: no transfer, mint, burn, wipe, freeze, KYC change or update
+export async function pauseToken(client: Client, tokenId: TokenId, pauseKey: PrivateKey): Promise<TransactionReceipt> {
+  return submit(client, new TokenPauseTransaction().setTokenId(tokenId), [pauseKey]);
+}
+
+export async function unpauseToken(client: Client, tokenId: TokenId, pauseKey: PrivateKey): Promise<TransactionReceipt> {
+  return submit(client, new TokenUnpauseTransaction().setTokenId(tokenId), [pauseKey]);
+}
+
+// Removes units (in the smallest unit) from an account other than the treasury, reducing the total supply. The
+// receipt has the new total supply.
+export async function wipeTokens(client: Client, tokenId: TokenId, accountId: AccountId, amount: bigint, wipeKey: PrivateKey): Promise<TransactionReceipt> {
+  return submit(client, new TokenWipeTransaction().setTokenId(tokenId).setAccountId(accountId).setAmount(toLong(amount)), [wipeKey]);
+}
+
+export async function wipeNfts(client: Client, tokenId: TokenId, accountId: AccountId, serials: bigint[], wipeKey: PrivateKey): Promise<TransactionReceipt> {
+  return submit(client, new TokenWipeTransaction().setTokenId(tokenId).setAccountId(accountId).setSerials(serials.map(toLong)), [wipeKey]);
+}
+
+// Removes units (in the smallest unit) from the treasury's balance and the total supply
+export async function burnTokens(client: Client, tokenId: TokenId, amount: bigint, supplyKey: PrivateKey): Promise<TransactionReceipt> {
+  return submit(client, new TokenBurnTransaction().setTokenId(tokenId).setAmount(toLong(amount)), [supplyKey]);
+}
+
+// Burns serials that the treasury owns
+export async function burnNfts(client: Client, tokenId: TokenId, serials: bigint[], supplyKey: PrivateKey): Promise<TransactionReceipt> {
+  return submit(client, new TokenBurnTransaction().setTokenId(tokenId).setSerials(serials.map(toLong)), [supplyKey]);
+}
+
+// `signers` are the admin key, plus the new admin key and the new treasury when they change. Only the keys the token
+// was created with can be replaced.
+export async function updateToken(client: Client, tokenId: TokenId, changes: TokenChanges, signers: PrivateKey[]): Promise<TransactionReceipt> {
+  const transaction = new TokenUpdateTransaction().setTokenId(tokenId);
+  if (changes.name !== undefined) transaction.setTokenName(changes.name);
+  if (changes.symbol !== undefined) transaction.setTokenSymbol(changes.symbol);
+  if (changes.memo !== undefined) transaction.setTokenMemo(changes.memo);
+  if (changes.treasury !== undefined) transaction.setTreasuryAccountId(changes.treasury);
+  if (changes.adminKey !== undefined) transaction.setAdminKey(changes.adminKey);
+  if (changes.kycKey !== undefined) transaction.setKycKey(changes.kycKey);
+  if (changes.freezeKey !== undefined) transaction.setFreezeKey(changes.freezeKey);
+  if (changes.wipeKey !== undefined) transaction.setWipeKey(changes.wipeKey);
+  if (changes.supplyKey !== undefined) transaction.setSupplyKey(changes.supplyKey);
+  if (changes.feeScheduleKey !== undefined) transaction.setFeeScheduleKey(changes.feeScheduleKey);
+  if (changes.pauseKey !== undefined) transaction.setPauseKey(changes.pauseKey);
+  return submit(client, transaction, signers);
+}
+
+// A deleted token can no longer be transferred, minted or administered
+export async function deleteToken(client: Client, tokenId: TokenId, adminKey: PrivateKey): Promise<TransactionReceipt> {
+  return submit(client, new TokenDeleteTransaction().setTokenId(tokenId), [adminKey]);
+}
+
+// Null when the account is not associated with the token
+export async function tokenStanding(client: Client, accountId: AccountId, tokenId: TokenId): Promise<TokenStanding | null> {
+  const info = await executeQuery(client, new AccountInfoQuery().setAccountId(accountId));
+  const relationship = info.tokenRelationships.get(tokenId);
+  if (relationship == null) {
+    return null;
+  }
+  return {
+    balance: BigInt(relationship.balance.toString()),
+    frozen: relationship.isFrozen,
+    kycGranted: relationship.isKycGranted
+  };
+}
+
+// Waits until the account's standing with the token satisfies `condition`, e.g. after freezing it
+export function waitForTokenStanding(
+  client: Client,
+  accountId: AccountId,
+  tokenId: TokenId,
+  condition: (standing: TokenStanding | null) => boolean,
+  options: WaitOptions = {}
+): Promise<TokenStanding | null> {
+  return waitFor(() => tokenStanding(client, accountId, tokenId), condition, {
+    description: `the standing of account ${accountId} with token ${tokenId}`,
+    ...options
+  });
+}
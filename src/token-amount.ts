@@ -0,0 +1,130 @@
+import { Long } from "@hashgraph/sdk";
+
+// Quantities of a fungible token. The network counts a token in its smallest unit, as a signed 64-bit integer: with 2
+// decimals, "10.25 HTT" is 1025 units. Amounts are kept in units as a bigint, so that the arithmetic is exact, and every
+// result is checked against the int64 range instead of silently losing precision.
+
+const INT64_MIN = BigInt("-9223372036854775808");
+const INT64_MAX = BigInt("9223372036854775807");
+// More would overflow int64 for a single whole token
+export const MAX_TOKEN_DECIMALS = 18;
+
+export interface TokenDenomination {
+  decimals: number;
+  // Amounts parsed against a denomination with a symbol may name it, e.g. "10.25 HTT"
+  symbol?: string;
+}
+
+export class TokenAmountError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TokenAmountError";
+  }
+}
+
+function scale(decimals: number): bigint {
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > MAX_TOKEN_DECIMALS) {
+    throw new TokenAmountError(`A token has between 0 and ${MAX_TOKEN_DECIMALS} decimals, got ${decimals}`);
+  }
+  let factor = BigInt(1);
+  for (let i = 0; i < decimals; i++) {
+    factor *= BigInt(10);
+  }
+  return factor;
+}
+
+export class TokenAmount {
+  private constructor(readonly units: bigint, readonly decimals: number, readonly symbol?: string) {
+    if (units < INT64_MIN || units > INT64_MAX) {
+      throw new TokenAmountError(`${units} units are out of the int64 range of a token amount`);
+    }
+  }
+
+  // An amount in the smallest unit, e.g. a balance or total supply read from the network
+  static fromUnits(units: bigint | Long | string | number, denomination: TokenDenomination): TokenAmount {
+    scale(denomination.decimals);
+    if (typeof units === "number" && !Number.isSafeInteger(units)) {
+      throw new TokenAmountError(`${units} is not a whole number of units that a number can hold exactly`);
+    }
+    let value: bigint;
+    try {
+      value = BigInt(units.toString());
+    } catch {
+      throw new TokenAmountError(`"${units}" is not a whole number of units`);
+    }
+    return new TokenAmount(value, denomination.decimals, denomination.symbol);
+  }
+
+  // An amount in tokens like "10.25", "-3" or "10.25 HTT"; it may have at most as many fraction digits as the token
+  // has decimals, and name no other symbol than the token's
+  static parse(text: string, denomination: TokenDenomination): TokenAmount {
+    const match = /^\s*([+-]?)(\d+)(?:\.(\d*))?(?:\s+(\S+))?\s*$/.exec(text);
+    if (!match) {
+      throw new TokenAmountError(`"${text}" is not a token amount like "10.25" or "10.25 ${denomination.symbol ?? "HTT"}"`);
+    }
+    const [, sign, whole, fraction = "", symbol] = match;
+    if (symbol !== undefined && symbol !== denomination.symbol) {
+      throw new TokenAmountError(`"${text}" is an amount of ${symbol}, not of ${denomination.symbol ?? "a token without a symbol"}`);
+    }
+    if (fraction.length > denomination.decimals) {
+      throw new TokenAmountError(`"${text}" has ${fraction.length} decimal(s), but the token has only ${denomination.decimals}`);
+    }
+    const units = BigInt(whole) * scale(denomination.decimals) + BigInt(fraction.padEnd(denomination.decimals, "0") || "0");
+    return new TokenAmount(sign === "-" ? -units : units, denomination.decimals, denomination.symbol);
+  }
+
+  static zero(denomination: TokenDenomination): TokenAmount {
+    return TokenAmount.fromUnits(BigInt(0), denomination);
+  }
+
+  plus(other: TokenAmount): TokenAmount {
+    return new TokenAmount(this.units + this.sameToken(other).units, this.decimals, this.symbol);
+  }
+
+  minus(other: TokenAmount): TokenAmount {
+    return new TokenAmount(this.units - this.sameToken(other).units, this.decimals, this.symbol);
+  }
+
+  negated(): TokenAmount {
+    return new TokenAmount(-this.units, this.decimals, this.symbol);
+  }
+
+  // Negative, zero or positive, like a sort comparator
+  compare(other: TokenAmount): number {
+    const difference = this.units - this.sameToken(other).units;
+    return difference < BigInt(0) ? -1 : difference > BigInt(0) ? 1 : 0;
+  }
+
+  equals(other: TokenAmount): boolean {
+    return this.compare(other) === 0;
+  }
+
+  isZero(): boolean {
+    return this.units === BigInt(0);
+  }
+
+  isNegative(): boolean {
+    return this.units < BigInt(0);
+  }
+
+  // For the SDK's setters, e.g. TransferTransaction.addTokenTransfer and TokenMintTransaction.setAmount
+  toLong(): Long {
+    return Long.fromString(this.units.toString());
+  }
+
+  // In tokens without trailing zeros, followed by the symbol when there is one, e.g. "10.25 HTT" or "-3 HTT"
+  toString(): string {
+    const magnitude = this.units < BigInt(0) ? -this.units : this.units;
+    const factor = scale(this.decimals);
+    const fraction = (magnitude % factor).toString().padStart(this.decimals, "0").replace(/0+$/, "");
+    const tokens = `${this.isNegative() ? "-" : ""}${magnitude / factor}${fraction ? `.${fraction}` : ""}`;
+    return this.symbol === undefined ? tokens : `${tokens} ${this.symbol}`;
+  }
+
+  private sameToken(other: TokenAmount): TokenAmount {
+    if (other.decimals !== this.decimals || (this.symbol !== undefined && other.symbol !== undefined && other.symbol !== this.symbol)) {
+      throw new TokenAmountError(`Cannot combine ${this} with ${other}, an amount of another token`);
+    }
+    return other;
+  }
+}
@@ -0,0 +1,189 @@
+import {
+  AccountId,
+  Client,
+  CustomFee,
+  Key,
+  PrivateKey,
+  Timestamp,
+  TokenCreateTransaction,
+  TokenId,
+  TokenInfo,
+  TokenSupplyType,
+  TokenType
+} from "@hashgraph/sdk";
+import { MAX_TOKEN_DECIMALS, TokenAmount } from "./token-amount";
+import { submitTransaction } from "./transaction-records";
+
+// Everything a token is created with. Only the name, symbol and treasury are required; `tokenSpec` fills in the
+// defaults of a fungible token with infinite supply. Every problem with a spec is reported at once, before anything is
+// submitted, rather than one INVALID_... status at a time.
+
+export type TokenKind = "fungible" | "non-fungible";
+export type SupplyType = "infinite" | "finite";
+
+export const TOKEN_KEY_ROLES = ["adminKey", "kycKey", "freezeKey", "wipeKey", "supplyKey", "feeScheduleKey", "pauseKey"] as const;
+export type TokenKeyRole = typeof TOKEN_KEY_ROLES[number];
+
+export interface TokenSpec {
+  name: string;
+  symbol: string;
+  type: TokenKind;
+  // Always 0 for a non-fungible token
+  decimals: number;
+  // Goes to the treasury; always 0 for a non-fungible token, whose serials are minted
+  initialSupply: TokenAmount;
+  supplyType: SupplyType;
+  // Required for, and only for, a finite supply
+  maxSupply?: TokenAmount;
+  // Signs the creation, as do the admin key and the auto-renew account
+  treasury: AccountId;
+  // A token without a key can never have the action it signs: e.g. no supply key, no minting
+  keys: Partial<Record<TokenKeyRole, Key>>;
+  // New associations start frozen; requires a freeze key
+  freezeDefault?: boolean;
+  memo?: string;
+  // Without one, the token expires one auto-renew period after its creation
+  expirationTime?: Date;
+  autoRenewAccount?: AccountId;
+  autoRenewPeriodSeconds?: number;
+  customFees?: CustomFee[];
+}
+
+export class TokenSpecError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid token specification:\n${problems.map((problem) => `  - ${problem}`).join("\n")}`);
+    this.name = "TokenSpecError";
+  }
+}
+
+// Limits of the network
+const MAX_NAME_BYTES = 100;
+const MAX_MEMO_BYTES = 100;
+const MIN_AUTO_RENEW_SECONDS = 2_592_000; // 30 days
+const MAX_AUTO_RENEW_SECONDS = 8_000_001; // about 92 days
+
+// A fungible token with infinite supply and nothing in circulation, changed by `options`
+export function tokenSpec(options: Pick<TokenSpec, "name" | "symbol" | "treasury"> & Partial<TokenSpec>): TokenSpec {
+  const decimals = options.decimals ?? 0;
+  return {
+    ...options,
+    type: options.type ?? "fungible",
+    decimals,
+    initialSupply: options.initialSupply ?? TokenAmount.zero({ decimals, symbol: options.symbol }),
+    supplyType: options.supplyType ?? (options.maxSupply !== undefined ? "finite" : "infinite"),
+    keys: options.keys ?? {}
+  };
+}
+
+// The problems the network would reject the spec for, or none
+export function validateTokenSpec(spec: TokenSpec): string[] {
+  const problems: string[] = [];
+  if (spec.name === "") problems.push("the name is missing");
+  if (Buffer.byteLength(spec.name) > MAX_NAME_BYTES) problems.push(`the name is longer than ${MAX_NAME_BYTES} bytes`);
+  if (spec.symbol === "") problems.push("the symbol is missing");
+  if (Buffer.byteLength(spec.symbol) > MAX_NAME_BYTES) problems.push(`the symbol is longer than ${MAX_NAME_BYTES} bytes`);
+  if (spec.memo !== undefined && Buffer.byteLength(spec.memo) > MAX_MEMO_BYTES) problems.push(`the memo is longer than ${MAX_MEMO_BYTES} bytes`);
+
+  if (!Number.isInteger(spec.decimals) || spec.decimals < 0 || spec.decimals > MAX_TOKEN_DECIMALS) {
+    problems.push(`decimals must be between 0 and ${MAX_TOKEN_DECIMALS}, got ${spec.decimals}`);
+  }
+  for (const [label, amount] of [["initial supply", spec.initialSupply], ["max supply", spec.maxSupply]] as const) {
+    if (amount !== undefined && amount.decimals !== spec.decimals) {
+      problems.push(`the ${label} ${amount} has ${amount.decimals} decimals, but the token has ${spec.decimals}`);
+    }
+  }
+  if (spec.initialSupply.isNegative()) problems.push(`the initial supply ${spec.initialSupply} is negative`);
+  if (spec.type === "non-fungible") {
+    if (spec.decimals !== 0) problems.push("a non-fungible token has no decimals");
+    if (!spec.initialSupply.isZero()) problems.push("a non-fungible token has no initial supply, its serials are minted");
+    if (spec.keys.supplyKey === undefined) problems.push("a non-fungible token needs a supply key to mint its serials");
+  }
+  if (spec.supplyType === "finite") {
+    if (spec.maxSupply === undefined || spec.maxSupply.isNegative() || spec.maxSupply.isZero()) {
+      problems.push("a finite supply needs a max supply above 0");
+    } else if (spec.initialSupply.units > spec.maxSupply.units) {
+      problems.push(`the initial supply ${spec.initialSupply} exceeds the max supply ${spec.maxSupply}`);
+    }
+  } else if (spec.maxSupply !== undefined) {
+    problems.push("only a finite supply has a max supply");
+  }
+
+  if (spec.freezeDefault && spec.keys.freezeKey === undefined) problems.push("frozen by default needs a freeze key");
+  if (spec.autoRenewPeriodSeconds !== undefined
+    && (spec.autoRenewPeriodSeconds < MIN_AUTO_RENEW_SECONDS || spec.autoRenewPeriodSeconds > MAX_AUTO_RENEW_SECONDS)) {
+    problems.push(`the auto-renew period must be between ${MIN_AUTO_RENEW_SECONDS} and ${MAX_AUTO_RENEW_SECONDS} seconds, got ${spec.autoRenewPeriodSeconds}`);
+  }
+  if (spec.expirationTime !== undefined && spec.expirationTime.getTime() <= Date.now()) {
+    problems.push(`the expiration time ${spec.expirationTime.toISOString()} is not in the future`);
+  }
+  return problems;
+}
+
+// The TokenCreateTransaction of a valid spec, not frozen yet; throws TokenSpecError with every problem otherwise
+export function tokenCreateTransaction(spec: TokenSpec): TokenCreateTransaction {
+  const problems = validateTokenSpec(spec);
+  if (problems.length > 0) {
+    throw new TokenSpecError(problems);
+  }
+  const transaction = new TokenCreateTransaction()
+    .setTokenName(spec.name)
+    .setTokenSymbol(spec.symbol)
+    .setTokenType(spec.type === "fungible" ? TokenType.FungibleCommon : TokenType.NonFungibleUnique)
+    .setDecimals(spec.decimals)
+    .setInitialSupply(spec.initialSupply.toLong())
+    .setSupplyType(spec.supplyType === "finite" ? TokenSupplyType.Finite : TokenSupplyType.Infinite)
+    .setTreasuryAccountId(spec.treasury);
+  if (spec.maxSupply !== undefined) transaction.setMaxSupply(spec.maxSupply.toLong());
+  if (spec.keys.adminKey !== undefined) transaction.setAdminKey(spec.keys.adminKey);
+  if (spec.keys.kycKey !== undefined) transaction.setKycKey(spec.keys.kycKey);
+  if (spec.keys.freezeKey !== undefined) transaction.setFreezeKey(spec.keys.freezeKey);
+  if (spec.keys.wipeKey !== undefined) transaction.setWipeKey(spec.keys.wipeKey);
+  if (spec.keys.supplyKey !== undefined) transaction.setSupplyKey(spec.keys.supplyKey);
+  if (spec.keys.feeScheduleKey !== undefined) transaction.setFeeScheduleKey(spec.keys.feeScheduleKey);
+  if (spec.keys.pauseKey !== undefined) transaction.setPauseKey(spec.keys.pauseKey);
+  if (spec.freezeDefault !== undefined) transaction.setFreezeDefault(spec.freezeDefault);
+  if (spec.memo !== undefined) transaction.setTokenMemo(spec.memo);
+  if (spec.expirationTime !== undefined) transaction.setExpirationTime(Timestamp.fromDate(spec.expirationTime));
+  if (spec.autoRenewAccount !== undefined) transaction.setAutoRenewAccountId(spec.autoRenewAccount);
+  if (spec.autoRenewPeriodSeconds !== undefined) transaction.setAutoRenewPeriod(spec.autoRenewPeriodSeconds);
+  if (spec.customFees !== undefined) transaction.setCustomFees(spec.customFees);
+  return transaction;
+}
+
+// Creates the token. `signers` are the keys the creation needs besides the operator's: the treasury's, the admin key,
+// the auto-renew account's, and those of collectors of fees paid in the new token.
+export async function createToken(client: Client, spec: TokenSpec, signers: PrivateKey[] = []): Promise<TokenId> {
+  const transaction = tokenCreateTransaction(spec).freezeWith(client);
+  for (const signer of signers) {
+    await transaction.sign(signer);
+  }
+  const receipt = await (await submitTransaction(client, transaction)).getReceipt(client);
+  if (receipt.tokenId == null) {
+    throw new Error(`The receipt of ${transaction.transactionId} has no token ID`);
+  }
+  return receipt.tokenId;
+}
+
+// How the token's info differs from the spec it was created with, or not at all. Custom fees and the expiration time,
+// which the network may adjust, are not compared.
+export function tokenSpecMismatches(spec: TokenSpec, info: TokenInfo): string[] {
+  const mismatches: string[] = [];
+  const differs = (label: string, expected: unknown, actual: unknown) => {
+    if (String(expected) !== String(actual)) mismatches.push(`${label}: expected ${expected}, got ${actual}`);
+  };
+  differs("name", spec.name, info.name);
+  differs("symbol", spec.symbol, info.symbol);
+  differs("type", spec.type === "fungible" ? TokenType.FungibleCommon : TokenType.NonFungibleUnique, info.tokenType);
+  differs("decimals", spec.decimals, info.decimals);
+  differs("supply type", spec.supplyType === "finite" ? TokenSupplyType.Finite : TokenSupplyType.Infinite, info.supplyType);
+  differs("max supply (units)", spec.maxSupply?.units ?? 0, info.maxSupply ?? 0);
+  differs("treasury", spec.treasury, info.treasuryAccountId);
+  for (const role of TOKEN_KEY_ROLES) {
+    differs(role, spec.keys[role] ?? null, info[role] ?? null);
+  }
+  if (spec.freezeDefault !== undefined) differs("freeze default", spec.freezeDefault, info.defaultFreezeStatus);
+  if (spec.memo !== undefined) differs("memo", spec.memo, info.tokenMemo);
+  if (spec.autoRenewAccount !== undefined) differs("auto-renew account", spec.autoRenewAccount, info.autoRenewAccountId);
+  if (spec.autoRenewPeriodSeconds !== undefined) differs("auto-renew period", spec.autoRenewPeriodSeconds, info.autoRenewPeriod?.seconds);
+  return mismatches;
+}
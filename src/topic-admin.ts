@@ -0,0 +1,104 @@
+import {
+  AccountId,
+  Client,
+  Key,
+  PrivateKey,
+  Timestamp,
+  TopicCreateTransaction,
+  TopicDeleteTransaction,
+  TopicId,
+  TopicInfo,
+  TopicInfoQuery,
+  TopicUpdateTransaction,
+  Transaction,
+  TransactionReceipt
+} from "@hashgraph/sdk";
+import { executeQuery, submitTransaction } from "./transaction-records";
+import { waitFor, WaitOptions } from "./wait";
+
+// Topics over their whole life. A topic created with an admin key can be updated and deleted by that key; without
+// one, only its expiration time can still be extended. The client's operator pays, and a rejected transaction throws
+// the SDK's ReceiptStatusError with the status, e.g. UNAUTHORIZED for a topic without an admin key.
+
+const DAY_SECONDS = 86_400;
+
+export interface TopicOptions {
+  memo?: string;
+  adminKey?: Key;
+  // Anyone may publish to a topic without a submit key
+  submitKey?: Key;
+  // The network renews the topic for this period (between about 30 and 92 days) when it expires, charged to the
+  // auto-renew account
+  autoRenewAccount?: AccountId;
+  autoRenewPeriodSeconds?: number;
+}
+
+// The settings that an update replaces; the ones left out stay as they are. A null submit key lets anyone publish.
+export interface TopicChanges {
+  memo?: string;
+  adminKey?: Key;
+  submitKey?: Key | null;
+  autoRenewAccount?: AccountId;
+  autoRenewPeriodSeconds?: number;
+  // Can only be moved later, and is the only change a topic without an admin key accepts
+  expirationTime?: Date;
+}
+
+export const daysToSeconds = (days: number): number => days * DAY_SECONDS;
+
+async function submit(client: Client, transaction: Transaction, signers: PrivateKey[]): Promise<TransactionReceipt> {
+  transaction.freezeWith(client);
+  for (const signer of signers) {
+    await transaction.sign(signer);
+  }
+  return (await submitTransaction(client, transaction)).getReceipt(client);
+}
+
+// `signers` are the keys the creation needs besides the operator's: the admin key and the auto-renew account's key
+export async function createTopic(client: Client, options: TopicOptions, signers: PrivateKey[] = []): Promise<TopicId> {
+  const transaction = new TopicCreateTransaction();
+  if (options.memo !== undefined) transaction.setTopicMemo(options.memo);
+  if (options.adminKey !== undefined) transaction.setAdminKey(options.adminKey);
+  if (options.submitKey !== undefined) transaction.setSubmitKey(options.submitKey);
+  if (options.autoRenewAccount !== undefined) transaction.setAutoRenewAccountId(options.autoRenewAccount);
+  if (options.autoRenewPeriodSeconds !== undefined) transaction.setAutoRenewPeriod(options.autoRenewPeriodSeconds);
+
+  const receipt = await submit(client, transaction, signers);
+  if (receipt.topicId == null) {
+    throw new Error("The receipt of the topic creation has no topic ID");
+  }
+  return receipt.topicId;
+}
+
+// `signers` satisfy the current admin key, and also the new admin key and the new auto-renew account when they change
+export async function updateTopic(client: Client, topicId: TopicId, changes: TopicChanges, signers: PrivateKey[]): Promise<TransactionReceipt> {
+  const transaction = new TopicUpdateTransaction().setTopicId(topicId);
+  if (changes.memo !== undefined) transaction.setTopicMemo(changes.memo);
+  if (changes.adminKey !== undefined) transaction.setAdminKey(changes.adminKey);
+  if (changes.submitKey === null) {
+    transaction.clearSubmitKey();
+  } else if (changes.submitKey !== undefined) {
+    transaction.setSubmitKey(changes.submitKey);
+  }
+  if (changes.autoRenewAccount !== undefined) transaction.setAutoRenewAccountId(changes.autoRenewAccount);
+  if (changes.autoRenewPeriodSeconds !== undefined) transaction.setAutoRenewPeriod(changes.autoRenewPeriodSeconds);
+  if (changes.expirationTime !== undefined) transaction.setExpirationTime(Timestamp.fromDate(changes.expirationTime));
+  return submit(client, transaction, signers);
+}
+
+// Messages to a deleted topic are rejected with INVALID_TOPIC_ID, and so is every query about it
+export async function deleteTopic(client: Client, topicId: TopicId, signers: PrivateKey[]): Promise<TransactionReceipt> {
+  return submit(client, new TopicDeleteTransaction().setTopicId(topicId), signers);
+}
+
+export async function getTopicInfo(client: Client, topicId: TopicId): Promise<TopicInfo> {
+  return executeQuery(client, new TopicInfoQuery().setTopicId(topicId));
+}
+
+// Waits until TopicInfoQuery sees the topic and, optionally, until its info satisfies `condition`
+export function waitForTopicInfo(client: Client, topicId: TopicId, condition: (info: TopicInfo) => boolean = () => true, options: WaitOptions = {}): Promise<TopicInfo> {
+  return waitFor(() => getTopicInfo(client, topicId), condition, {
+    description: `topic ${topicId} to be visible to TopicInfoQuery`,
+    ...options
+  }, (info) => `memo=${info.topicMemo}, sequenceNumber=${info.sequenceNumber}, autoRenewPeriod=${info.autoRenewPeriod?.seconds}s`);
+}
@@ -0,0 +1,186 @@
+import { Client, Timestamp, TopicId, TopicInfoQuery, TopicMessage, TopicMessageQuery } from "@hashgraph/sdk";
+import { executeQuery } from "./transaction-records";
+import { defaultWaitOptions } from "./wait";
+
+// A message as delivered by the mirror node. Chunked messages are reassembled; their consensus timestamp, sequence
+// number and running hash are those of the last chunk.
+export interface ReceivedTopicMessage {
+  contents: Uint8Array;
+  text: string;
+  consensusTimestamp: Timestamp;
+  sequenceNumber: bigint;
+  runningHash: Uint8Array;
+  chunks: number;
+  // Transaction ID of the first chunk, which identifies all chunks of the message; null for unchunked messages
+  initialTransactionId: string | null;
+}
+
+// Topic sequence numbers from `from` to `to` that reached consensus but are in no complete message received: the
+// chunks of a message that is missing some, or whose last chunks have not arrived yet
+export interface UnassembledChunks {
+  from: bigint;
+  to: bigint;
+}
+
+// All given criteria must match. Times are consensus times; `from` is inclusive and `until` exclusive.
+export interface TopicMessageFilter {
+  contents?: string | Uint8Array | ((text: string) => boolean);
+  sequenceNumber?: number | bigint;
+  from?: Date | Timestamp;
+  until?: Date | Timestamp;
+}
+
+export class TopicMessageNotReceivedError extends Error {
+  constructor(
+    readonly topicId: TopicId,
+    readonly filter: string,
+    readonly received: ReceivedTopicMessage[],
+    readonly incomplete: UnassembledChunks[],
+    elapsedMs: number,
+    reason: string
+  ) {
+    const last = received[received.length - 1];
+    super(`${reason} after ${elapsedMs} ms waiting for a message ${filter} on topic ${topicId}; received ${received.length} message(s)` +
+      (last ? `, last #${last.sequenceNumber} "${abbreviate(last.text)}" at ${last.consensusTimestamp}` : "") +
+      incomplete.map(({ from, to }) => `; ${from === to ? `#${from} is a chunk` : `#${from} to #${to} are chunks`} of no complete message`).join(""));
+    this.name = "TopicMessageNotReceivedError";
+  }
+}
+
+const abbreviate = (text: string) => (text.length > 80 ? `${text.slice(0, 77)}...` : text);
+
+// The SDK reassembles chunked messages by the transaction ID of their first chunk and hands over complete messages
+// only. Every chunk takes a sequence number of its own, so the gaps between the chunks received are the chunks of
+// incomplete messages. Messages received before (a retried subscription may replay the stream) are ignored.
+export class TopicMessageAssembler {
+  private readonly seen = new Set<bigint>();
+
+  // The message, unless it was received before
+  add(message: TopicMessage): ReceivedTopicMessage | undefined {
+    const sequenceNumbers = message.chunks.map((chunk) => BigInt(chunk.sequenceNumber.toString()));
+    if (sequenceNumbers.some((sequenceNumber) => this.seen.has(sequenceNumber))) {
+      return undefined;
+    }
+    sequenceNumbers.forEach((sequenceNumber) => this.seen.add(sequenceNumber));
+    return {
+      contents: message.contents,
+      text: Buffer.from(message.contents).toString("utf8"),
+      consensusTimestamp: message.consensusTimestamp,
+      sequenceNumber: BigInt(message.sequenceNumber.toString()),
+      runningHash: message.runningHash,
+      chunks: message.chunks.length,
+      initialTransactionId: message.initialTransactionId?.toString() ?? null
+    };
+  }
+
+  // The gaps from `first` up to `last`; both default to the chunks received
+  unassembled(first?: bigint, last?: bigint): UnassembledChunks[] {
+    const received = [...this.seen].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    const from = first ?? received[0];
+    const to = last ?? received[received.length - 1];
+    if (from === undefined || to === undefined) {
+      return [];
+    }
+    const gaps: UnassembledChunks[] = [];
+    let next = from;
+    for (const sequenceNumber of [...received, to + BigInt(1)]) {
+      if (sequenceNumber > next) {
+        gaps.push({ from: next, to: sequenceNumber - BigInt(1) });
+      }
+      if (sequenceNumber >= next) {
+        next = sequenceNumber + BigInt(1);
+      }
+    }
+    return gaps;
+  }
+}
+
+// The chunks of incomplete messages, up to the topic's last sequence number unless the filter ends earlier. Without a
+// `from` the stream is followed from the topic's first message; otherwise gaps before the first chunk received are
+// unknown, as are those after the last one when the topic info, a paid query, cannot be read.
+async function unassembledChunks(client: Client, topicId: TopicId, assembler: TopicMessageAssembler, filter: TopicMessageFilter): Promise<UnassembledChunks[]> {
+  const first = filter.from === undefined ? BigInt(1) : undefined;
+  if (filter.until !== undefined) {
+    return assembler.unassembled(first);
+  }
+  try {
+    const info = await executeQuery(client, new TopicInfoQuery().setTopicId(topicId));
+    return assembler.unassembled(first, BigInt(info.sequenceNumber.toString()));
+  } catch {
+    return assembler.unassembled(first);
+  }
+}
+
+const toTimestamp = (time: Date | Timestamp) => (time instanceof Date ? Timestamp.fromDate(time) : time);
+
+function describeFilter(filter: TopicMessageFilter): string {
+  const parts: string[] = [];
+  if (typeof filter.contents === "string") parts.push(`with contents "${filter.contents}"`);
+  else if (filter.contents instanceof Uint8Array) parts.push(`with ${filter.contents.length} bytes of given contents`);
+  else if (filter.contents) parts.push("with matching contents");
+  if (filter.sequenceNumber !== undefined) parts.push(`with sequence number ${filter.sequenceNumber}`);
+  if (filter.from) parts.push(`from ${toTimestamp(filter.from)}`);
+  if (filter.until) parts.push(`until ${toTimestamp(filter.until)}`);
+  return parts.length > 0 ? parts.join(" ") : "of any kind";
+}
+
+function matches(message: ReceivedTopicMessage, filter: TopicMessageFilter): boolean {
+  const { contents, sequenceNumber } = filter;
+  if (typeof contents === "string" && message.text !== contents) return false;
+  if (contents instanceof Uint8Array && Buffer.compare(Buffer.from(contents), Buffer.from(message.contents)) !== 0) return false;
+  if (typeof contents === "function" && !contents(message.text)) return false;
+  return sequenceNumber === undefined || message.sequenceNumber === BigInt(sequenceNumber);
+}
+
+// Subscribes to the topic from `filter.from` (or the topic's first message) and resolves with the first message that
+// matches the filter. Rejects when no such message arrives within the timeout, when the `until` time is reached, or
+// when the mirror subscription fails, listing any chunked messages that are still incomplete. The subscription is
+// always closed before the promise settles.
+export function waitForTopicMessage(
+  client: Client,
+  topicId: TopicId,
+  filter: TopicMessageFilter = {},
+  timeoutMs = defaultWaitOptions().timeoutMs
+): Promise<ReceivedTopicMessage> {
+  const started = Date.now();
+  const seen: ReceivedTopicMessage[] = [];
+  const assembler = new TopicMessageAssembler();
+  const description = describeFilter(filter);
+
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const query = new TopicMessageQuery();
+    query.setTopicId(topicId).setStartTime(filter.from ? toTimestamp(filter.from) : 0);
+    if (filter.until) {
+      query.setEndTime(toTimestamp(filter.until));
+    }
+    query.setCompletionHandler(() => fail("Subscription ended"));
+
+    const handle = query.subscribe(client, (_, error) => fail(`Subscription failed (${error.message})`), (topicMessage) => {
+      const message = assembler.add(topicMessage);
+      if (message === undefined) {
+        return;
+      }
+      seen.push(message);
+      if (!settled && matches(message, filter)) {
+        finish();
+        resolve(message);
+      }
+    });
+    const timer = setTimeout(() => fail("Timed out"), timeoutMs);
+
+    function finish() {
+      settled = true;
+      clearTimeout(timer);
+      handle.unsubscribe();
+    }
+    function fail(reason: string) {
+      if (!settled) {
+        finish();
+        const elapsedMs = Date.now() - started;
+        unassembledChunks(client, topicId, assembler, filter).then((incomplete) =>
+          reject(new TopicMessageNotReceivedError(topicId, description, seen, incomplete, elapsedMs, reason)));
+      }
+    }
+  });
+}
@@ -0,0 +1,130 @@
+import {
+  Client,
+  PrivateKey,
+  ReceiptStatusError,
+  Status,
+  TopicId,
+  TopicMessageSubmitTransaction,
+  TransactionId,
+  TransactionReceipt,
+  TransactionResponse
+} from "@hashgraph/sdk";
+import { submitTopicMessage } from "./transaction-records";
+
+// The network rejects submissions larger than this, so anything bigger has to be split into chunks
+export const MAX_CHUNK_BYTES = 1024;
+
+export interface PublishOptions {
+  // Defaults to HEDERA_TOPIC_MAX_CHUNKS, or 20 like the SDK
+  maxChunks?: number;
+  chunkSize?: number;
+  // Signatures needed besides the operator's, e.g. the submit key when the operator does not hold it
+  signers?: PrivateKey[];
+}
+
+export interface PublishedChunk {
+  number: number;
+  transactionId: TransactionId;
+  status: Status;
+  // Null when the chunk did not reach consensus successfully
+  receipt: TransactionReceipt | null;
+}
+
+// A message as acknowledged by the receipts of all its chunks; sequence number and running hash are the last chunk's,
+// which is what the mirror node reports for the reassembled message.
+export interface PublishedTopicMessage {
+  topicId: TopicId;
+  contents: Uint8Array;
+  text: string;
+  initialTransactionId: TransactionId;
+  chunks: PublishedChunk[];
+  sequenceNumber: bigint;
+  runningHash: Uint8Array;
+}
+
+export class TopicPublishError extends Error {
+  constructor(message: string, readonly chunks: PublishedChunk[] = []) {
+    super(message);
+    this.name = "TopicPublishError";
+  }
+}
+
+function defaultMaxChunks(): number {
+  const value = Number(process.env.HEDERA_TOPIC_MAX_CHUNKS);
+  return Number.isInteger(value) && value > 0 ? value : 20;
+}
+
+export const chunkCount = (bytes: number, chunkSize = MAX_CHUNK_BYTES) => Math.max(1, Math.ceil(bytes / chunkSize));
+
+const describeChunks = (chunks: PublishedChunk[]) => chunks.map((chunk) => `#${chunk.number} ${chunk.status}`).join(", ");
+
+// Submits the message, split into as many chunks as needed, and waits for the receipt of every chunk. Fails before
+// paying for anything when the message needs more than `maxChunks` chunks, and with the status of each chunk when any
+// of them is not accepted.
+export async function publishTopicMessage(
+  client: Client,
+  topicId: TopicId,
+  message: string | Uint8Array,
+  options: PublishOptions = {}
+): Promise<PublishedTopicMessage> {
+  const { maxChunks = defaultMaxChunks(), chunkSize = MAX_CHUNK_BYTES, signers = [] } = options;
+  const contents = typeof message === "string" ? Buffer.from(message, "utf8") : message;
+  if (contents.length === 0) {
+    throw new TopicPublishError(`Cannot publish an empty message to topic ${topicId}`);
+  }
+  if (chunkSize < 1 || chunkSize > MAX_CHUNK_BYTES) {
+    throw new TopicPublishError(`Chunk size must be between 1 and ${MAX_CHUNK_BYTES} bytes, got ${chunkSize}`);
+  }
+  const total = chunkCount(contents.length, chunkSize);
+  if (total > maxChunks) {
+    throw new TopicPublishError(`A message of ${contents.length} bytes needs ${total} chunks of ${chunkSize} bytes, more than the maximum of ${maxChunks}`);
+  }
+
+  const transaction = new TopicMessageSubmitTransaction()
+    .setTopicId(topicId)
+    .setMessage(contents)
+    .setMaxChunks(maxChunks)
+    .setChunkSize(chunkSize)
+    .freezeWith(client);
+  for (const signer of signers) {
+    await transaction.sign(signer);
+  }
+  const initialTransactionId = transaction.transactionId;
+  if (initialTransactionId === null) {
+    throw new TopicPublishError("The frozen transaction has no transaction ID");
+  }
+
+  let responses: TransactionResponse[];
+  try {
+    responses = await submitTopicMessage(client, transaction);
+  } catch (error) {
+    // The SDK stops at the first chunk that fails its precheck and does not tell which chunks went through before it
+    throw new TopicPublishError(`Publishing ${total} chunk(s) to topic ${topicId} failed: ${(error as Error).message}`);
+  }
+  const chunks: PublishedChunk[] = [];
+  for (const [index, response] of responses.entries()) {
+    try {
+      const receipt = await response.getReceipt(client);
+      chunks.push({ number: index + 1, transactionId: response.transactionId, status: receipt.status, receipt });
+    } catch (error) {
+      if (!(error instanceof ReceiptStatusError)) {
+        throw error;
+      }
+      chunks.push({ number: index + 1, transactionId: response.transactionId, status: error.status, receipt: null });
+    }
+  }
+  const last = chunks[chunks.length - 1].receipt;
+  if (chunks.some((chunk) => chunk.receipt === null) || last?.topicSequenceNumber == null || last.topicRunningHash == null) {
+    throw new TopicPublishError(`Publishing ${total} chunk(s) to topic ${topicId} failed: ${describeChunks(chunks)}`, chunks);
+  }
+
+  return {
+    topicId,
+    contents,
+    text: Buffer.from(contents).toString("utf8"),
+    initialTransactionId,
+    chunks,
+    sequenceNumber: BigInt(last.topicSequenceNumber.toString()),
+    runningHash: last.topicRunningHash
+  };
+}
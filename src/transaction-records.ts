@@ -0,0 +1,291 @@
+import {
+  AccountBalanceQuery,
+  AccountId,
+  AssessedCustomFee,
+  Client,
+  Hbar,
+  MaxAttemptsOrTimeoutError,
+  MaxQueryPaymentExceeded,
+  PrecheckStatusError,
+  Query,
+  Status,
+  Timestamp,
+  TokenId,
+  TopicId,
+  TopicMessageSubmitTransaction,
+  Transaction,
+  TransactionId,
+  TransactionRecord,
+  TransactionRecordQuery,
+  TransactionResponse
+} from "@hashgraph/sdk";
+
+// The network keeps a record of every transaction that reached consensus, successful or not: who paid, the fee it
+// charged, and the hbar every account gained or lost, the fee included. Amounts are in tinybars.
+
+export interface HbarTransfer {
+  account: AccountId;
+  amount: bigint;
+}
+
+export interface CapturedRecord {
+  transactionId: TransactionId;
+  payer: AccountId;
+  fee: bigint;
+  status: Status;
+  consensusTimestamp: Date;
+  memo: string;
+  transfers: HbarTransfer[];
+  // The custom fees the transaction charged on top of its fee (see src/custom-fees.ts)
+  assessedCustomFees: AssessedCustomFee[];
+  // The token or topic the transaction created, from its receipt
+  createdTokenId?: TokenId;
+  createdTopicId?: TopicId;
+}
+
+export function capturedRecordOf(record: TransactionRecord): CapturedRecord {
+  return {
+    transactionId: record.transactionId,
+    payer: record.transactionId.accountId as AccountId,
+    fee: BigInt(record.transactionFee.toTinybars().toString()),
+    status: record.receipt.status,
+    consensusTimestamp: record.consensusTimestamp.toDate(),
+    memo: record.transactionMemo,
+    transfers: record.transfers.map((transfer) => ({ account: transfer.accountId, amount: BigInt(transfer.amount.toTinybars().toString()) })),
+    assessedCustomFees: record.assessedCustomFees,
+    createdTokenId: record.receipt.tokenId ?? undefined,
+    createdTopicId: record.receipt.topicId ?? undefined
+  };
+}
+
+// What the account gained (positive) or lost in the transaction, its share of the fee included
+export function netHbarChange(record: CapturedRecord, account: AccountId): bigint {
+  return record.transfers.filter((transfer) => transfer.account.equals(account)).reduce((total, transfer) => total + transfer.amount, BigInt(0));
+}
+
+export const totalFees = (records: CapturedRecord[]): bigint => records.reduce((total, record) => total + record.fee, BigInt(0));
+
+// A transaction as a client submitted it
+export interface SubmittedTransaction {
+  transactionId: TransactionId;
+  // The name of its class, e.g. "TransferTransaction"
+  type: string;
+  transaction: Transaction;
+  submittedAt: Date;
+  // Set when the network rejected the transaction before consensus, so that it has no record
+  precheckStatus?: Status;
+}
+
+// Records are looked up after the receipt, so one that is still missing after a few attempts does not exist
+const RECORD_ATTEMPTS = 3;
+
+// The network answered that it has no record, as opposed to not answering at all (a timeout, no node reachable). The
+// SDK retries RECORD_NOT_FOUND and then gives up with the last status in the message of its error.
+const isRecordNotFound = (error: unknown): boolean =>
+  (error instanceof PrecheckStatusError && error.status === Status.RecordNotFound) ||
+  (error instanceof MaxAttemptsOrTimeoutError && error.message.endsWith(`last error being: ${Status.RecordNotFound}`));
+
+// The journal of each client that has one, for the code that only has the client to submit with
+const journals = new WeakMap<Client, TransactionJournal>();
+
+// Submits the transaction with the client, through the client's journal when it has one: the journal's guard may refuse
+// it, and the journal notes it. The transactions of the scenarios are all submitted this way rather than with
+// Transaction.execute, which no journal sees.
+export function submitTransaction(client: Client, transaction: Transaction): Promise<TransactionResponse> {
+  const journal = journals.get(client);
+  return journal !== undefined ? journal.submit(client, transaction) : transaction.execute(client);
+}
+
+// The same for a topic message, which may be split into chunks: one response per chunk
+export function submitTopicMessage(client: Client, transaction: TopicMessageSubmitTransaction): Promise<TransactionResponse[]> {
+  const journal = journals.get(client);
+  return journal !== undefined ? journal.submitChunks(client, transaction) : transaction.executeAll(client);
+}
+
+// Executes a query with the client, through the client's journal when it has one, which adds up what paid queries paid
+export function executeQuery<T>(client: Client, query: Query<T>): Promise<T> {
+  const journal = journals.get(client);
+  return journal !== undefined ? journal.query(client, query) : query.execute(client);
+}
+
+// The transaction IDs of the chunks of a frozen topic message: the valid start of each chunk is a nanosecond after the
+// one before
+function chunkTransactionIds(transaction: TopicMessageSubmitTransaction): TransactionId[] {
+  const first = transaction.transactionId as TransactionId;
+  const chunkSize = transaction.getChunkSize() ?? 1024;
+  const chunks = Math.max(1, Math.ceil((transaction.getMessage()?.length ?? 0) / chunkSize));
+  return Array.from({ length: chunks }, (_, index) =>
+    TransactionId.withValidStart(first.accountId as AccountId, (first.validStart as Timestamp).plusNanos(index)));
+}
+
+// Runs before each transaction or paid query that a client submits, and refuses it by throwing
+export type SubmissionGuard = (submission: Transaction | Query<unknown>) => Promise<void>;
+
+// Notes every transaction submitted with its client, and captures their records on request. Transactions rejected at
+// precheck never reach consensus and have no record. Queries have no record either; the journal adds up their payments.
+export class TransactionJournal {
+  private readonly submitted = new Map<string, SubmittedTransaction>();
+  private readonly captured = new Map<string, CapturedRecord>();
+  // Transactions whose record was looked up and not found
+  private readonly missing = new Set<string>();
+  private paidForQueries = BigInt(0);
+  guard?: SubmissionGuard;
+
+  constructor(client: Client) {
+    journals.set(client, this);
+  }
+
+  // The transaction is noted before it is sent, so that one whose outcome never comes back (a timeout, a lost
+  // response) is still in the journal, without a record
+  async submit(client: Client, transaction: Transaction): Promise<TransactionResponse> {
+    await this.guard?.(transaction);
+    if (!transaction.isFrozen()) {
+      transaction.freezeWith(client);
+    }
+    const transactionId = transaction.transactionId as TransactionId;
+    const submittedAt = new Date();
+    this.note(transaction, transactionId, submittedAt);
+    try {
+      return await transaction.execute(client);
+    } catch (error) {
+      if (error instanceof PrecheckStatusError) {
+        this.note(transaction, transactionId, submittedAt, error.status);
+      }
+      throw error;
+    }
+  }
+
+  // Every chunk is noted under its own transaction ID. The chunks after one rejected at precheck are never sent.
+  async submitChunks(client: Client, transaction: TopicMessageSubmitTransaction): Promise<TransactionResponse[]> {
+    await this.guard?.(transaction);
+    if (!transaction.isFrozen()) {
+      transaction.freezeWith(client);
+    }
+    const chunkIds = chunkTransactionIds(transaction);
+    const submittedAt = new Date();
+    chunkIds.forEach((transactionId) => this.note(transaction, transactionId, submittedAt));
+    try {
+      return await transaction.executeAll(client);
+    } catch (error) {
+      if (error instanceof PrecheckStatusError) {
+        const rejected = chunkIds.findIndex((transactionId) => transactionId.toString() === error.transactionId.toString());
+        this.note(transaction, error.transactionId, submittedAt, error.status);
+        chunkIds.slice(rejected + 1).forEach((transactionId) => this.submitted.delete(transactionId.toString()));
+      }
+      throw error;
+    }
+  }
+
+  // A later attempt with the same ID replaces an earlier one, e.g. a retry after BUSY that went through, unless the
+  // network turned it down as a duplicate of the earlier one
+  note(transaction: Transaction, transactionId: TransactionId, submittedAt: Date, precheckStatus?: Status): void {
+    if (precheckStatus === Status.DuplicateTransaction && this.submitted.has(transactionId.toString())) {
+      return;
+    }
+    this.submitted.set(transactionId.toString(), { transactionId, type: transaction.constructor.name, transaction, submittedAt, precheckStatus });
+  }
+
+  // The cost is asked first, as the SDK does for a query without a payment, so that the payment is known. The client's
+  // maximum query payment still applies.
+  async query<T>(client: Client, query: Query<T>): Promise<T> {
+    await this.guard?.(query);
+    return this.pay(client, query);
+  }
+
+  private async pay<T>(client: Client, query: Query<T>): Promise<T> {
+    // Balance queries are free, and have no cost to ask for
+    const free: Query<unknown> = query;
+    if (free instanceof AccountBalanceQuery) {
+      return query.execute(client);
+    }
+    const cost = await query.getCost(client);
+    if (cost.toTinybars().greaterThan(client.defaultMaxQueryPayment.toTinybars())) {
+      throw new MaxQueryPaymentExceeded(cost, client.defaultMaxQueryPayment);
+    }
+    this.paidForQueries += BigInt(cost.toTinybars().toString());
+    return query.setQueryPayment(cost).execute(client);
+  }
+
+  // What the queries executed through the journal paid, record lookups included
+  queryPayments(): bigint {
+    return this.paidForQueries;
+  }
+
+  // Every transaction submitted so far, in the order they were first submitted
+  submissions(): SubmittedTransaction[] {
+    return [...this.submitted.values()];
+  }
+
+  // The submissions that were sent but whose record has not been captured, e.g. because its lookup timed out. Those
+  // rejected at precheck, or that the network has no record of, are not among them.
+  unrecorded(): SubmittedTransaction[] {
+    return this.submissions().filter(({ transactionId, precheckStatus }) =>
+      precheckStatus === undefined && !this.captured.has(transactionId.toString()) && !this.missing.has(transactionId.toString()));
+  }
+
+  // The record of one transaction, fetched once. Undefined when the network has no record because the transaction
+  // never reached consensus, e.g. after a lost request; that is remembered too, so the record is not paid for again.
+  // Throws when the network does not answer, so that a later lookup tries again.
+  async record(client: Client, transactionId: TransactionId): Promise<CapturedRecord | undefined> {
+    const key = transactionId.toString();
+    const known = this.captured.get(key);
+    if (known !== undefined || this.missing.has(key)) {
+      return known;
+    }
+    try {
+      // The record of a failed transaction is still a record, and its status is in it
+      const record = await this.pay(client, new TransactionRecordQuery()
+        .setTransactionId(transactionId)
+        .setValidateReceiptStatus(false)
+        .setMaxAttempts(RECORD_ATTEMPTS));
+      const captured = capturedRecordOf(record);
+      this.captured.set(key, captured);
+      return captured;
+    } catch (error) {
+      if (isRecordNotFound(error)) {
+        this.missing.add(key);
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  // Captures the records of every transaction submitted so far, in consensus order. A record that cannot be fetched
+  // right now, e.g. while no node is reachable, is left out; the next capture tries again.
+  async captureAll(client: Client): Promise<CapturedRecord[]> {
+    for (const { transactionId, precheckStatus } of [...this.submitted.values()]) {
+      const key = transactionId.toString();
+      if (precheckStatus === undefined && !this.captured.has(key) && !this.missing.has(key)) {
+        await this.record(client, transactionId).catch(() => undefined);
+      }
+    }
+    return this.records();
+  }
+
+  records(): CapturedRecord[] {
+    return [...this.captured.values()].sort((a, b) => a.consensusTimestamp.getTime() - b.consensusTimestamp.getTime());
+  }
+
+  // Forgets everything, e.g. between scenarios
+  clear(): void {
+    this.submitted.clear();
+    this.captured.clear();
+    this.missing.clear();
+    this.paidForQueries = BigInt(0);
+  }
+}
+
+export interface ScenarioFees {
+  scenario: string;
+  records: CapturedRecord[];
+}
+
+const hbar = (tinybars: bigint) => Hbar.fromTinybars(tinybars.toString()).toString();
+
+// One line per scenario with the number of transactions and the fees they charged, and the total of the run
+export function formatFeeSummary(scenarios: ScenarioFees[]): string {
+  const width = Math.max(0, ...scenarios.map(({ scenario }) => scenario.length));
+  const lines = scenarios.map(({ scenario, records }) => `  ${scenario.padEnd(width)}  ${String(records.length).padStart(3)} tx  ${hbar(totalFees(records))}`);
+  const all = scenarios.flatMap(({ records }) => records);
+  return ["Transaction fees:", ...lines, `  ${"Total".padEnd(width)}  ${String(all.length).padStart(3)} tx  ${hbar(totalFees(all))}`].join("\n");
+}
@@ -0,0 +1,57 @@
+import { Hbar, TransactionId } from "@hashgraph/sdk";
+import { CapturedRecord, SubmittedTransaction } from "./transaction-records";
+
+// What the test reports show of each transaction a step executed, so that a failed run points at the transaction that
+// failed. Everything is a string, ready for JSON.
+
+export interface ReportedTransaction {
+  transactionId: string;
+  type: string;
+  payer: string;
+  // The receipt status, the precheck status of a transaction rejected before consensus, or "NO_RECORD"
+  status: string;
+  fee?: string;
+  consensusTimestamp?: string;
+  explorerUrl?: string;
+}
+
+// How explorers and the mirror node write a transaction ID: "0.0.1001-1700000000-000000123" for "0.0.1001@1700000000.123"
+export function explorerTransactionId(transactionId: TransactionId): string {
+  const validStart = transactionId.validStart;
+  if (transactionId.accountId === null || validStart === null) {
+    return transactionId.toString();
+  }
+  const nanos = String(validStart.nanos.toNumber()).padStart(9, "0");
+  return `${transactionId.accountId.toString()}-${validStart.seconds.toString()}-${nanos}`;
+}
+
+// The link to the transaction, or none without a template, e.g. on the simulator
+export function explorerUrl(template: string | undefined, network: string, transactionId: TransactionId): string | undefined {
+  return template?.replace(/\{network\}/g, network).replace(/\{transactionId\}/g, explorerTransactionId(transactionId));
+}
+
+export function reportedTransaction(
+  submitted: SubmittedTransaction,
+  record: CapturedRecord | undefined,
+  explorer: { template?: string, network: string }
+): ReportedTransaction {
+  const { transactionId, type, precheckStatus } = submitted;
+  return {
+    transactionId: transactionId.toString(),
+    type,
+    payer: (record?.payer ?? transactionId.accountId)?.toString() ?? "unknown",
+    status: (precheckStatus ?? record?.status)?.toString() ?? "NO_RECORD",
+    ...(record && {
+      fee: Hbar.fromTinybars(record.fee.toString()).toString(),
+      consensusTimestamp: record.consensusTimestamp.toISOString()
+    }),
+    ...(explorer.template !== undefined && { explorerUrl: explorerUrl(explorer.template, explorer.network, transactionId) })
+  };
+}
+
+// One line per transaction, e.g. "TransferTransaction 0.0.1001@1700000000.123 SUCCESS paid by 0.0.1001, fee 0.001 ℏ"
+export function formatReportedTransactions(transactions: ReportedTransaction[]): string {
+  return transactions.map(({ type, transactionId, status, payer, fee, explorerUrl }) =>
+    `${type} ${transactionId} ${status} paid by ${payer}${fee !== undefined ? `, fee ${fee}` : ""}${explorerUrl !== undefined ? ` ${explorerUrl}` : ""}`
+  ).join("\n");
+}
@@ -0,0 +1,236 @@
+import {
+  AccountId,
+  AccountInfoQuery,
+  Client,
+  Hbar,
+  Key,
+  Long,
+  NftId,
+  PrivateKey,
+  PublicKey,
+  TokenId,
+  TransactionId,
+  TransferTransaction
+} from "@hashgraph/sdk";
+import { isSignedBy, selectSigners } from "./key-structure";
+import { executeQuery } from "./transaction-records";
+
+export const HBAR = "HBAR";
+
+// Hbar legs are in tinybars, token legs in the token's smallest unit
+export type TransferAsset = typeof HBAR | TokenId;
+
+export interface TransferLeg {
+  account: AccountId;
+  asset: TransferAsset;
+  amount: bigint;
+}
+
+// One serial of an NFT collection changing hands
+export interface NftMove {
+  nft: NftId;
+  sender: AccountId;
+  receiver: AccountId;
+}
+
+export type SignatureReason = "payer" | "sender" | "receiver signature required";
+
+export interface RequiredSignature {
+  accountId: AccountId;
+  key: Key;
+  reasons: SignatureReason[];
+}
+
+export interface TransferPlan {
+  // Frozen, and signed by whichever of the given signers are required
+  transaction: TransferTransaction;
+  payer: AccountId;
+  // One leg per account and asset
+  legs: TransferLeg[];
+  nfts: NftMove[];
+  requiredSignatures: RequiredSignature[];
+  missingSignatures: RequiredSignature[];
+}
+
+export interface PlanOptions {
+  // Defaults to the client's operator
+  payer?: AccountId;
+  // Keys at hand while planning; those that are required sign the transaction right away
+  signers?: PrivateKey[];
+  nfts?: NftMove[];
+  memo?: string;
+  maxTransactionFee?: Hbar;
+}
+
+export class TransferPlanError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid transfer:\n${problems.map((problem) => `  - ${problem}`).join("\n")}`);
+    this.name = "TransferPlanError";
+  }
+}
+
+export const assetName = (asset: TransferAsset) => (asset === HBAR ? HBAR : `token ${asset}`);
+
+const assetKey = (asset: TransferAsset) => asset.toString();
+
+// Merges the legs of the same account and asset, and checks that every asset nets to zero and that no serial moves
+// twice
+export function balanceLegs(legs: TransferLeg[], nfts: NftMove[] = []): TransferLeg[] {
+  const problems: string[] = [];
+  if (legs.length === 0 && nfts.length === 0) {
+    problems.push("there are no transfers");
+  }
+  const serials = new Set<string>();
+  for (const move of nfts) {
+    if (serials.has(move.nft.toString())) {
+      problems.push(`NFT ${move.nft} is transferred more than once`);
+    }
+    if (move.sender.equals(move.receiver)) {
+      problems.push(`NFT ${move.nft} is transferred from ${move.sender} to itself`);
+    }
+    serials.add(move.nft.toString());
+  }
+  const merged = new Map<string, TransferLeg>();
+  for (const leg of legs) {
+    if (leg.amount === BigInt(0)) {
+      problems.push(`the ${assetName(leg.asset)} transfer of account ${leg.account} is zero`);
+    }
+    const key = `${assetKey(leg.asset)}/${leg.account}`;
+    const existing = merged.get(key);
+    merged.set(key, { ...leg, amount: (existing?.amount ?? BigInt(0)) + leg.amount });
+  }
+  const totals = new Map<string, { asset: TransferAsset; total: bigint }>();
+  for (const leg of merged.values()) {
+    const entry = totals.get(assetKey(leg.asset)) ?? { asset: leg.asset, total: BigInt(0) };
+    entry.total += leg.amount;
+    totals.set(assetKey(leg.asset), entry);
+  }
+  for (const { asset, total } of totals.values()) {
+    if (total !== BigInt(0)) {
+      problems.push(`${assetName(asset)} nets to ${total > BigInt(0) ? "+" : ""}${total} instead of 0`);
+    }
+  }
+  if (problems.length > 0) {
+    throw new TransferPlanError(problems);
+  }
+  return [...merged.values()].filter((leg) => leg.amount !== BigInt(0));
+}
+
+// For working out signatures, a serial moving counts like one unit of its token
+const nftLegs = (nfts: NftMove[]): TransferLeg[] =>
+  nfts.flatMap((move) => [
+    { account: move.sender, asset: move.nft.tokenId, amount: BigInt(-1) },
+    { account: move.receiver, asset: move.nft.tokenId, amount: BigInt(1) }
+  ]);
+
+// The legs of an existing transfer, e.g. one that was imported from bytes; NFTs are included as in nftLegs
+export function transferLegsOf(transaction: TransferTransaction): TransferLeg[] {
+  const legs: TransferLeg[] = [];
+  for (const [account, amount] of transaction.hbarTransfers) {
+    legs.push({ account, asset: HBAR, amount: BigInt(amount.toTinybars().toString()) });
+  }
+  for (const [token, accounts] of transaction.tokenTransfers) {
+    for (const [account, amount] of accounts) {
+      legs.push({ account, asset: token, amount: BigInt(amount.toString()) });
+    }
+  }
+  for (const [token, transfers] of transaction.nftTransfers) {
+    legs.push(...nftLegs(transfers.map((transfer) => ({ nft: new NftId(token, transfer.serial), sender: transfer.sender, receiver: transfer.recipient }))));
+  }
+  return legs;
+}
+
+// Who has to sign and why: the payer, every account that is debited, and every credited account that requires the
+// receiver's signature. Looks up the current key of each of them.
+export async function resolveRequiredSignatures(client: Client, payer: AccountId, legs: TransferLeg[]): Promise<RequiredSignature[]> {
+  const reasons = new Map<string, { accountId: AccountId; reasons: Set<SignatureReason>; credited: boolean }>();
+  const note = (accountId: AccountId, reason?: SignatureReason) => {
+    const entry = reasons.get(accountId.toString()) ?? { accountId, reasons: new Set<SignatureReason>(), credited: false };
+    if (reason) entry.reasons.add(reason);
+    reasons.set(accountId.toString(), entry);
+    return entry;
+  };
+  note(payer, "payer");
+  for (const leg of legs) {
+    if (leg.amount < BigInt(0)) note(leg.account, "sender");
+    else note(leg.account).credited = true;
+  }
+
+  const required: RequiredSignature[] = [];
+  for (const entry of reasons.values()) {
+    const info = await executeQuery(client, new AccountInfoQuery().setAccountId(entry.accountId));
+    if (entry.credited && info.isReceiverSignatureRequired) {
+      entry.reasons.add("receiver signature required");
+    }
+    if (entry.reasons.size > 0) {
+      required.push({ accountId: entry.accountId, key: info.key, reasons: [...entry.reasons] });
+    }
+  }
+  return required;
+}
+
+function signersOf(transaction: TransferTransaction): PublicKey[] {
+  return transaction.getSignatures().getFlatSignatureList().flatMap((signatures) => [...signatures.keys()]);
+}
+
+const missingOf = (plan: TransferPlan) =>
+  plan.requiredSignatures.filter((required) => !isSignedBy(required.key, signersOf(plan.transaction)));
+
+// Signs the plan's transaction with the keys that are needed among `keys` and returns the signatures still missing
+export async function signTransferPlan(plan: TransferPlan, keys: PrivateKey[]): Promise<RequiredSignature[]> {
+  for (const required of missingOf(plan)) {
+    for (const key of selectSigners(required.key, keys) ?? []) {
+      if (!signersOf(plan.transaction).some((signer) => signer.equals(key.publicKey))) {
+        await plan.transaction.sign(key);
+      }
+    }
+  }
+  plan.missingSignatures = missingOf(plan);
+  return plan.missingSignatures;
+}
+
+// An unfrozen TransferTransaction with the (balanced) legs, e.g. to be scheduled
+export function transferTransactionOf(legs: TransferLeg[], nfts: NftMove[] = []): TransferTransaction {
+  const transaction = new TransferTransaction();
+  for (const leg of legs) {
+    if (leg.asset === HBAR) {
+      transaction.addHbarTransfer(leg.account, Hbar.fromTinybars(Long.fromString(leg.amount.toString())));
+    } else {
+      transaction.addTokenTransfer(leg.asset, leg.account, Long.fromString(leg.amount.toString()));
+    }
+  }
+  for (const move of nfts) {
+    transaction.addNftTransfer(move.nft, move.sender, move.receiver);
+  }
+  return transaction;
+}
+
+// Turns the declarative legs into a frozen TransferTransaction, paid for by `options.payer`. Fails with every problem
+// at once when an asset does not net to zero.
+export async function planTransfer(client: Client, legs: TransferLeg[], options: PlanOptions = {}): Promise<TransferPlan> {
+  const nfts = options.nfts ?? [];
+  const balanced = balanceLegs(legs, nfts);
+  const payer = options.payer ?? client.operatorAccountId;
+  if (payer == null) {
+    throw new TransferPlanError(["no payer given and the client has no operator"]);
+  }
+
+  const transaction = transferTransactionOf(balanced, nfts).setTransactionId(TransactionId.generate(payer));
+  if (options.memo !== undefined) transaction.setTransactionMemo(options.memo);
+  if (options.maxTransactionFee !== undefined) transaction.setMaxTransactionFee(options.maxTransactionFee);
+
+  const plan: TransferPlan = {
+    transaction: transaction.freezeWith(client),
+    payer,
+    legs: balanced,
+    nfts,
+    requiredSignatures: await resolveRequiredSignatures(client, payer, [...balanced, ...nftLegs(nfts)]),
+    missingSignatures: []
+  };
+  await signTransferPlan(plan, options.signers ?? []);
+  return plan;
+}
+
+export function describeSignatures(signatures: RequiredSignature[]): string {
+  return signatures.map((signature) => `${signature.accountId} (${signature.reasons.join(", ")})`).join(", ");
+}
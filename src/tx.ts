@@ -0,0 +1,176 @@
+import { getConfig, parsePrivateKey } from "./config"
+import { createClient } from "./client"
+import {
+  checkRequiredSigners,
+  exportTransaction,
+  inspectTransaction,
+  mergeSignatures,
+  readTransactionFile,
+  signTransactionBytes,
+  submitSignedTransaction,
+  writeTransactionFile
+} from "./offline-signing"
+import { AccountId, Hbar, Long, TokenId, TransactionId, TransferTransaction } from "@hashgraph/sdk"
+import { parseArgs } from "node:util"
+
+const USAGE = `Usage: npx ts-node src/tx.ts <command> [options]
+
+Collects the signatures of several parties on one transaction without sharing private keys: the transaction is
+frozen into a file, every party signs a copy of it (on their own machine if need be), and the signed copies are
+merged, checked and submitted. Files hold the base64 encoded bytes of the transaction.
+
+Commands:
+  create --out <file> [options]    freeze a transfer and write it to <file>
+      --payer <account id>         account that pays the fee (default: the configured operator)
+      --hbar <account>=<hbar>      hbar transfer, negative to send; repeatable
+      --token <token>:<account>=<units>
+                                   token transfer in the token's smallest unit; repeatable
+      --memo <text>                transaction memo
+      --max-fee <hbar>             maximum transaction fee (default 2)
+      --valid-for <seconds>        how long the signatures can be collected, at most 180 (default 180)
+  sign <file> --account <id> [--out <file>]
+                                   sign with the key of a configured account; writes to <file> unless --out is given
+  inspect <file>... [--offline]    print the transaction, its signatures and which required signers are missing;
+                                   with several files their signatures are merged first. --offline skips looking
+                                   up the keys of the required signers on the network
+  submit <file>...                 merge the signatures, check that every required signer signed and submit
+  -h, --help                       show this help
+
+Exits with status 1 when the command fails, or when inspect finds missing signatures.`
+
+const MAX_VALID_SECONDS = 180
+
+function parseCreate(values: Record<string, string | string[] | boolean | undefined>, payerDefault: string) {
+  const problems: string[] = []
+  const transaction = new TransferTransaction()
+  const account = (text: string, option: string) => {
+    try {
+      return AccountId.fromString(text)
+    } catch {
+      problems.push(`--${option}: "${text}" is not an account ID`)
+      return undefined
+    }
+  }
+  const hbar = (text: string, option: string) => {
+    try {
+      return Hbar.fromString(text)
+    } catch {
+      problems.push(`--${option}: "${text}" is not an hbar amount`)
+      return undefined
+    }
+  }
+
+  for (const transfer of (values.hbar as string[] | undefined) ?? []) {
+    const match = /^([^=]+)=(.+)$/.exec(transfer)
+    const accountId = match ? account(match[1], "hbar") : undefined
+    const amount = match ? hbar(match[2], "hbar") : undefined
+    if (!match) problems.push(`--hbar must look like <account>=<hbar>, got "${transfer}"`)
+    else if (accountId && amount) transaction.addHbarTransfer(accountId, amount)
+  }
+  for (const transfer of (values.token as string[] | undefined) ?? []) {
+    const match = /^([^:]+):([^=]+)=(-?\d+)$/.exec(transfer)
+    const accountId = match ? account(match[2], "token") : undefined
+    if (!match) problems.push(`--token must look like <token>:<account>=<units>, got "${transfer}"`)
+    else if (accountId) transaction.addTokenTransfer(TokenId.fromString(match[1]), accountId, Long.fromString(match[3]))
+  }
+  if (transaction.hbarTransfersList.length === 0 && transaction.tokenTransfers.size === 0) {
+    problems.push("give at least one --hbar or --token transfer")
+  }
+  const validFor = Number(values["valid-for"])
+  if (!Number.isInteger(validFor) || validFor < 1 || validFor > MAX_VALID_SECONDS) {
+    problems.push(`--valid-for must be between 1 and ${MAX_VALID_SECONDS} seconds, got "${values["valid-for"]}"`)
+  }
+  if (!values.out) {
+    problems.push("--out is required")
+  }
+  const payer = account((values.payer as string | undefined) ?? payerDefault, "payer")
+  const maxFee = hbar(values["max-fee"] as string, "max-fee")
+  if (problems.length > 0 || !payer || !maxFee) {
+    throw new Error(`Invalid arguments:\n${problems.map(problem => `  - ${problem}`).join("\n")}\n\n${USAGE}`)
+  }
+  return transaction
+    .setTransactionId(TransactionId.generate(payer))
+    .setTransactionMemo((values.memo as string | undefined) ?? "")
+    .setMaxTransactionFee(maxFee)
+    .setTransactionValidDuration(validFor)
+}
+
+function privateKeyOf(accountId: string) {
+  const { operator, accounts } = getConfig()
+  const account = [operator, ...accounts].find(candidate => candidate.id === accountId)
+  if (!account) {
+    throw new Error(`Account ${accountId} is not configured, so its key is not available here`)
+  }
+  return parsePrivateKey(account.privateKey)
+}
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    allowPositionals: true,
+    options: {
+      out: { type: "string" },
+      payer: { type: "string" },
+      hbar: { type: "string", multiple: true },
+      token: { type: "string", multiple: true },
+      memo: { type: "string" },
+      "max-fee": { type: "string", default: "2" },
+      "valid-for": { type: "string", default: String(MAX_VALID_SECONDS) },
+      account: { type: "string" },
+      offline: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false }
+    }
+  })
+  const [command, ...files] = positionals
+  if (values.help || command === undefined) {
+    console.log(USAGE)
+    return values.help ? 0 : 1
+  }
+
+  const client = createClient()
+  try {
+    switch (command) {
+      case "create": {
+        const transaction = parseCreate(values, client.operatorAccountId!.toString()).freezeWith(client)
+        writeTransactionFile(values.out!, exportTransaction(transaction))
+        console.error(`Wrote ${transaction.transactionId} to ${values.out}; valid for ${transaction.transactionValidDuration} s`)
+        return 0
+      }
+      case "sign": {
+        if (files.length !== 1 || !values.account) {
+          throw new Error(`sign needs exactly one file and --account\n\n${USAGE}`)
+        }
+        const signed = await signTransactionBytes(readTransactionFile(files[0]), privateKeyOf(values.account))
+        writeTransactionFile(values.out ?? files[0], signed)
+        console.error(`Signed ${files[0]} with the key of ${values.account}, wrote ${values.out ?? files[0]}`)
+        return 0
+      }
+      case "inspect": {
+        const bytes = mergeSignatures(files.map(readTransactionFile))
+        const summary = inspectTransaction(bytes)
+        const required = values.offline ? undefined : (await checkRequiredSigners(client, bytes))
+          .map(signer => ({ account: signer.accountId.toString(), signed: signer.signed }))
+        console.log(JSON.stringify({ ...summary, requiredSigners: required }, null, 2))
+        return required?.some(signer => !signer.signed) || summary.expired ? 1 : 0
+      }
+      case "submit": {
+        if (files.length === 0) {
+          throw new Error(`submit needs at least one file\n\n${USAGE}`)
+        }
+        const response = await submitSignedTransaction(client, files.map(readTransactionFile))
+        const receipt = await response.getReceipt(client)
+        console.log(JSON.stringify({ transactionId: response.transactionId.toString(), status: receipt.status.toString() }))
+        return 0
+      }
+      default:
+        throw new Error(`Unknown command "${command}"\n\n${USAGE}`)
+    }
+  } finally {
+    client.close()
+  }
+}
+
+main().then(code => { process.exitCode = code }).catch(error => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exitCode = 1
+})
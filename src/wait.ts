@@ -0,0 +1,110 @@
+import { AccountBalanceQuery, AccountId, Client, TokenId, TokenInfo, TokenInfoQuery } from "@hashgraph/sdk";
+import { SpendLimitError } from "./budget";
+import { executeQuery } from "./transaction-records";
+
+export interface WaitOptions {
+  // What is being waited for, used in the timeout message
+  description?: string;
+  timeoutMs?: number;
+  // Delay before the second attempt; it grows by `backoffFactor` up to `maxDelayMs`
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  backoffFactor?: number;
+}
+
+// Defaults, overridable with HEDERA_WAIT_TIMEOUT_MS, HEDERA_WAIT_INITIAL_DELAY_MS and HEDERA_WAIT_MAX_DELAY_MS
+export function defaultWaitOptions(): Required<Omit<WaitOptions, "description">> {
+  const fromEnv = (name: string, fallback: number) => {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+  return {
+    timeoutMs: fromEnv("HEDERA_WAIT_TIMEOUT_MS", 30_000),
+    initialDelayMs: fromEnv("HEDERA_WAIT_INITIAL_DELAY_MS", 250),
+    maxDelayMs: fromEnv("HEDERA_WAIT_MAX_DELAY_MS", 4_000),
+    backoffFactor: 2
+  };
+}
+
+export class WaitTimeoutError extends Error {
+  constructor(
+    readonly description: string,
+    readonly attempts: number,
+    readonly elapsedMs: number,
+    readonly lastObserved: string
+  ) {
+    super(`Timed out after ${elapsedMs} ms (${attempts} attempts) waiting for ${description}; last observed: ${lastObserved}`);
+    this.name = "WaitTimeoutError";
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const show = (value: unknown) => (typeof value === "string" ? value : JSON.stringify(value, (_, v) => (typeof v === "bigint" ? v.toString() : v)));
+
+// Polls `probe` until `condition` holds for its result, and returns that result. A probe that throws counts as "not
+// yet" (e.g. an entity the queried node does not know about yet), and its error is what the timeout reports, unless
+// it is a spend limit, which no amount of waiting lifts.
+export async function waitFor<T>(
+  probe: () => Promise<T>,
+  condition: (value: T) => boolean,
+  options: WaitOptions = {},
+  describe: (value: T) => string = show
+): Promise<T> {
+  const { timeoutMs, initialDelayMs, maxDelayMs, backoffFactor } = { ...defaultWaitOptions(), ...options };
+  const started = Date.now();
+  let delayMs = initialDelayMs;
+  let attempts = 0;
+  let lastObserved = "nothing yet";
+  for (;;) {
+    attempts++;
+    try {
+      const value = await probe();
+      if (condition(value)) {
+        return value;
+      }
+      lastObserved = describe(value);
+    } catch (error) {
+      if (error instanceof SpendLimitError) {
+        throw error;
+      }
+      lastObserved = `error: ${error instanceof Error ? error.message : String(error)}`;
+    }
+    const elapsed = Date.now() - started;
+    if (elapsed + delayMs > timeoutMs) {
+      throw new WaitTimeoutError(options.description ?? "condition", attempts, elapsed, lastObserved);
+    }
+    await sleep(delayMs);
+    delayMs = Math.min(delayMs * backoffFactor, maxDelayMs);
+  }
+}
+
+// Token balance in the smallest unit; null while the account is not associated with the token
+async function tokenBalance(client: Client, accountId: AccountId, tokenId: TokenId): Promise<bigint | null> {
+  const balance = await new AccountBalanceQuery().setAccountId(accountId).execute(client);
+  const units = balance.tokens?.get(tokenId.toString());
+  return units == null ? null : BigInt(units.toString());
+}
+
+// An account that is not associated with the token counts as holding 0 units
+export function waitForTokenBalance(client: Client, accountId: AccountId, tokenId: TokenId, expectedUnits: bigint, options: WaitOptions = {}): Promise<bigint | null> {
+  return waitFor(() => tokenBalance(client, accountId, tokenId), (units) => (units ?? BigInt(0)) === expectedUnits, {
+    description: `account ${accountId} to hold ${expectedUnits} units of token ${tokenId}`,
+    ...options
+  }, (units) => (units === null ? "not associated" : `${units} units`));
+}
+
+export function waitForTokenAssociation(client: Client, accountId: AccountId, tokenId: TokenId, options: WaitOptions = {}): Promise<bigint | null> {
+  return waitFor(() => tokenBalance(client, accountId, tokenId), (units) => units !== null, {
+    description: `account ${accountId} to be associated with token ${tokenId}`,
+    ...options
+  }, () => "not associated");
+}
+
+// Waits until TokenInfoQuery sees the token and, optionally, until its info satisfies `condition`
+export function waitForTokenInfo(client: Client, tokenId: TokenId, condition: (info: TokenInfo) => boolean = () => true, options: WaitOptions = {}): Promise<TokenInfo> {
+  return waitFor(() => executeQuery(client, new TokenInfoQuery().setTokenId(tokenId)), condition, {
+    description: `token ${tokenId} to be visible to TokenInfoQuery`,
+    ...options
+  }, (info) => `name=${info.name}, symbol=${info.symbol}, totalSupply=${info.totalSupply}, treasury=${info.treasuryAccountId}`);
+}